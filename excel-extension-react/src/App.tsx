@@ -1,10 +1,60 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useTableau } from './hooks/useTableau';
-import { CSpinner, CAlert } from '@coreui/react';
-import { processPivotData } from './utils/pivotHelper';
-import { fetchFullDataset } from './utils/dataFetcher';
-import { exportData } from './utils/exportManager';
-import type { Config } from './types';
+import { CSpinner, CAlert, CProgress, CButton, CDropdown, CDropdownToggle, CDropdownMenu, CDropdownItem } from '@coreui/react';
+import { fetchFullDataset, readSummaryDataPages, readUnderlyingDataPages, serializeDataTable, DEFAULT_SUMMARY_PAGE_SIZE } from './utils/dataFetcher';
+import type { TableauDataTable, TableauDataWorksheet } from './utils/dataFetcher';
+import { downloadFile, buildPivotResult, getPageReadOrder } from './utils/exportManager';
+import { buildPivotHtml, buildPivotText, copyHtmlToClipboard } from './utils/exportToHTML';
+import type { ExportSheetInput, ExportProgress } from './utils/exportManager';
+import { runExportInWorker, ExportCancelledError } from './utils/exportWorkerClient';
+import type { Config, WorksheetFilter } from './types';
+import { parseConfig } from './utils/configSchema';
+import { readConfigJson } from './utils/configStorage';
+import { ExportDialog } from './features/export/ExportDialog';
+import type { ConfiguredWorksheet } from './features/export/ExportDialog';
+
+/**
+ * The parts of a Tableau Filter read here (categorical, range and relative date filters)
+ */
+interface TableauFilter {
+  fieldName: string;
+  filterType: string;
+  appliedValues?: Array<{ formattedValue: string }>;
+  minValue?: { formattedValue: string };
+  maxValue?: { formattedValue: string };
+  period?: string;
+  rangeType?: string;
+}
+
+interface FilterableWorksheet {
+  getFiltersAsync(): Promise<TableauFilter[]>;
+}
+
+/**
+ * Applied filters of a worksheet as { id, name, value } with a display text for the value
+ */
+async function readWorksheetFilters(worksheet: FilterableWorksheet): Promise<WorksheetFilter[]> {
+  const worksheetFilters = await worksheet.getFiltersAsync();
+  return Promise.all(worksheetFilters
+    .filter(f => f.fieldName !== 'Measure Names')
+    .map(async f => {
+      let value = '';
+      switch (f.filterType) {
+        case 'categorical':
+          value = f.appliedValues?.map(v => v.formattedValue).join(', ') || 'All';
+          break;
+        case 'range':
+          value = `${f.minValue?.formattedValue || '*'} to ${f.maxValue?.formattedValue || '*'}`;
+          break;
+        case 'relative-date':
+          value = `${f.period} ${f.rangeType}`;
+          break;
+        default:
+          value = 'Complex Filter';
+      }
+      return { id: f.fieldName, name: f.fieldName, value: value };
+    }));
+}
 
 function App() {
   const { isInitialized, worksheets } = useTableau();
@@ -12,40 +62,43 @@ function App() {
   const [isExporting, setIsExporting] = useState(false);
   const [exportError, setExportError] = useState<string | null>(null);
   const [isLoadingConfig, setIsLoadingConfig] = useState(true);
+  const [exportProgress, setExportProgress] = useState<ExportProgress | null>(null);
+  const [isCopying, setIsCopying] = useState(false);
+  const [copyMessage, setCopyMessage] = useState<string | null>(null);
+  const [menuVisible, setMenuVisible] = useState(false);
+  const [exportChoices, setExportChoices] = useState<ConfiguredWorksheet[] | null>(null); // Export dialog is open while set
+  const cancelExportRef = useRef<(() => void) | null>(null);
+  const exportCancelledRef = useRef(false);
 
   useEffect(() => {
     // Load saved configuration from Tableau settings
     if (isInitialized) {
       if (window.tableau?.extensions?.settings) {
-        const loadSettings = () => {
+        const loadSettings = async () => {
           setIsLoadingConfig(true);
+          const settings = window.tableau.extensions.settings;
 
           // Try to get active worksheet first
-          const activeWorksheet = window.tableau.extensions.settings.get('active_worksheet');
-          let configToLoad = null;
+          const activeWorksheet = settings.get('active_worksheet');
 
-          if (activeWorksheet) {
-            const savedConfigStr = window.tableau.extensions.settings.get(`config_${activeWorksheet}`);
-            if (savedConfigStr) {
-              configToLoad = savedConfigStr;
-            }
-          }
+          try {
+            let configToLoad = activeWorksheet ? await readConfigJson(settings, `config_${activeWorksheet}`) : null;
 
-          // Fallback to legacy 'config' if no active worksheet specific config found
-          if (!configToLoad) {
-            configToLoad = window.tableau.extensions.settings.get('config');
-          }
+            // Fallback to legacy 'config' if no active worksheet specific config found
+            if (!configToLoad) {
+              configToLoad = await readConfigJson(settings, 'config');
+            }
 
-          if (configToLoad) {
-            try {
-              const parsed = JSON.parse(configToLoad);
-              setSavedConfig(parsed);
-            } catch (error) {
-              console.error('Error loading configuration:', error);
+            if (configToLoad) {
+              setSavedConfig(parseConfig(configToLoad, activeWorksheet || undefined));
+            } else {
+              console.log('No saved configuration found.');
+              setSavedConfig(null);
             }
-          } else {
-            console.log('No saved configuration found.');
+          } catch (error: any) {
+            console.error('Error loading configuration:', error);
             setSavedConfig(null);
+            setExportError(`${error.message} Open the configuration dialog to fix or re-save it.`);
           }
           setIsLoadingConfig(false);
         };
@@ -74,51 +127,80 @@ function App() {
 
 
 
-  const handleExport = async () => {
+  // Find every configured worksheet on the dashboard, in dashboard order
+  const readConfiguredWorksheets = async (): Promise<ConfiguredWorksheet[]> => {
+    const settings = window.tableau.extensions.settings;
+    const configuredWorksheets: ConfiguredWorksheet[] = [];
+
+    // Iterate through all available worksheets
+    for (const ws of worksheets) {
+      const configStr = await readConfigJson(settings, `config_${ws.name}`);
+      if (configStr) {
+        // Include ALL configured worksheets, regardless of exportMode.
+        // A corrupt config stops the export rather than silently leaving the sheet out.
+        configuredWorksheets.push({ name: ws.name, config: parseConfig(configStr, ws.name) });
+      }
+    }
+
+    // Fallback: If no specific configs found, check for legacy/single config
+    if (configuredWorksheets.length === 0 && savedConfig) {
+      configuredWorksheets.push({ name: savedConfig.selectedWorksheet, config: savedConfig });
+    }
+    return configuredWorksheets;
+  };
+
+  // With several configured worksheets the export dialog lets the user pick and order them
+  const handleExportClick = async () => {
+    setMenuVisible(false);
     if (!savedConfig) {
       setExportError('Configuration not loaded. Please configure the extension first.');
       return;
     }
 
     try {
-      setIsExporting(true);
       setExportError(null);
-
-      const exportDataList: any[] = [];
-      const settings = window.tableau.extensions.settings;
-
-      // 1. Identify all configured worksheets
-      const configuredWorksheets: { name: string, config: any }[] = [];
-
-      // Iterate through all available worksheets
-      worksheets.forEach((ws: any) => {
-        const configStr = settings.get(`config_${ws.name}`);
-        if (configStr) {
-          try {
-            const cfg = JSON.parse(configStr);
-            // Include ALL configured worksheets, regardless of exportMode
-            configuredWorksheets.push({ name: ws.name, config: cfg });
-          } catch (e) {
-            console.error(`Error parsing config for ${ws.name}`, e);
-          }
-        }
-      });
-
-      // Fallback: If no specific configs found, check for legacy/single config
-      if (configuredWorksheets.length === 0 && savedConfig) {
-        configuredWorksheets.push({ name: savedConfig.selectedWorksheet, config: savedConfig });
-      }
-
+      const configuredWorksheets = await readConfiguredWorksheets();
       if (configuredWorksheets.length === 0) {
         throw new Error("No configured worksheets found to export.");
       }
+      if (configuredWorksheets.length === 1) {
+        handleExport(configuredWorksheets);
+      } else {
+        setExportChoices(configuredWorksheets);
+      }
+    } catch (error: any) {
+      console.error('Export failed:', error);
+      setExportError(error.message || 'Failed to export data');
+    }
+  };
+
+  const handleExport = async (configuredWorksheets: ConfiguredWorksheet[]) => {
+    setExportChoices(null);
+
+    try {
+      setIsExporting(true);
+      setExportError(null);
+      exportCancelledRef.current = false;
+      setExportProgress({ phase: 'fetching', percent: 0, message: 'Fetching data from Tableau...' });
 
-      // 2. Fetch data for each configured worksheet
-      await Promise.all(configuredWorksheets.map(async ({ name, config }) => {
+      // Sheets keep the chosen order even though their data arrives in any order
+      const exportSheets: ExportSheetInput[] = new Array(configuredWorksheets.length);
+
+      // 1. Fetch data for each configured worksheet
+      // 'datadump' and 'underlying' sheets are not fetched here: their pages are streamed to the worker once it starts
+      let fetchedCount = 0;
+      const pagedSheets = new Map<number, { worksheet: TableauDataWorksheet, config: Config }>(); // By sheet index
+      await Promise.all(configuredWorksheets.map(async ({ name, config }, sheetIndex) => {
         console.log(`Fetching data for export: ${name}`);
+        const streamsPages = config.exportMode === 'datadump' || config.exportMode === 'underlying';
+        if (config.exportMode === 'underlying' && !config.underlyingTableId) {
+          throw new Error(`Select a logical table for the underlying data export of "${name}".`);
+        }
 
         // Fetch data (Main + GC + RC)
-        const { main: data, rawMain, gcData, rcData } = await fetchFullDataset(name);
+        const { main: data, gcData, rcData } = streamsPages
+          ? { main: [], gcData: null, rcData: null }
+          : await fetchFullDataset(name, config.maxExportRows || 0, config.summaryPageSize || DEFAULT_SUMMARY_PAGE_SIZE);
 
         // Fetch columns/filters metadata for this worksheet (needed for export)
         // We need to get the worksheet object
@@ -129,26 +211,7 @@ function App() {
         if (worksheet) {
           // Fetch filters
           try {
-            const worksheetFilters = await worksheet.getFiltersAsync();
-            filters = await Promise.all(worksheetFilters
-              .filter((f: any) => f.fieldName !== 'Measure Names')
-              .map(async (f: any) => {
-                let value = '';
-                switch (f.filterType) {
-                  case 'categorical':
-                    value = f.appliedValues?.map((v: any) => v.formattedValue).join(', ') || 'All';
-                    break;
-                  case 'range':
-                    value = `${f.minValue?.formattedValue || '*'} to ${f.maxValue?.formattedValue || '*'}`;
-                    break;
-                  case 'relative-date':
-                    value = `${f.period} ${f.rangeType}`;
-                    break;
-                  default:
-                    value = 'Complex Filter';
-                }
-                return { id: f.fieldName, name: f.fieldName, value: value };
-              }));
+            filters = await readWorksheetFilters(worksheet);
           } catch (e) {
             console.warn(`Could not fetch filters for ${name}`, e);
           }
@@ -159,50 +222,39 @@ function App() {
           allFields = [...config.groupColumns, ...config.pivotColumns, ...config.valueColumns];
         }
 
-        // Check if we can use the optimized raw export path
-        // Only for 'datadump' mode and if rawMain is available
-        if (config.exportMode === 'datadump' && rawMain) {
-          console.log(`Using optimized raw export for ${name}`);
-          exportDataList.push({
-            config,
-            pivotResult: { headerRows: [], rowHeaders: [], dataMatrix: [] }, // Dummy pivot result
-            filters,
-            allFields,
-            sheetName: config.worksheetName || name,
-            rawDataSource: rawMain
-          });
-        } else {
-          // Process pivot data (Standard Path)
-          const pivotResult = processPivotData(
-            data,
-            config.groupColumns,
-            config.pivotColumns,
-            config.valueColumns,
-            {
-              showRowTotals: config.showRowTotals,
-              rowTotalsPosition: config.rowTotalsPosition,
-              showColumnTotals: config.showColumnTotals,
-              columnTotalsPosition: config.columnTotalsPosition,
-              showSubtotals: config.showSubtotals
-            },
-            gcData || undefined,
-            rcData || undefined
-          );
-
-          exportDataList.push({
-            config,
-            pivotResult,
-            filters,
-            allFields,
-            sheetName: config.worksheetName || name
-          });
+        const sheet: ExportSheetInput = {
+          config,
+          rows: data,
+          gcData,
+          rcData,
+          streamsPages,
+          filters,
+          allFields,
+          sheetName: config.worksheetName || name
+        };
+        exportSheets[sheetIndex] = sheet;
+
+        if (streamsPages) {
+          if (!worksheet) throw new Error(`Worksheet "${name}" not found`);
+          pagedSheets.set(sheetIndex, { worksheet, config });
         }
+
+        fetchedCount++;
+        setExportProgress({
+          phase: 'fetching',
+          percent: 0,
+          message: `Fetching data from Tableau (${fetchedCount}/${configuredWorksheets.length} worksheets)...`
+        });
       }));
 
-      if (exportDataList.length === 0) {
+      if (exportCancelledRef.current) {
+        throw new ExportCancelledError();
+      }
+
+      if (exportSheets.length === 0) {
         throw new Error("Failed to prepare data for export.");
       }
-      // 3. Export using Export Manager (handles Excel, CSV, and Zip)
+      // 2. Export in the export worker (handles pivoting, Excel, CSV, and Zip)
       // Determine workbook name: use the first configured workbook name found, or fallback to Tableau workbook name
       let workbookName = window.tableau.extensions.workbook.name;
       const configuredWorkbookName = configuredWorksheets.find(ws => ws.config.workbookName)?.config.workbookName;
@@ -210,16 +262,121 @@ function App() {
         workbookName = configuredWorkbookName;
       }
 
-      await exportData(exportDataList, workbookName);
+      const { promise, cancel, sendPage, endPages } = runExportInWorker(
+        { sheets: exportSheets, workbookName },
+        progress => setExportProgress(progress)
+      );
+      cancelExportRef.current = cancel;
+
+      // Stream the summary (or underlying) data of raw sheets to the worker page by page,
+      // in the order the exporter reads them
+      const streamPages = async () => {
+        for (const sheetIndex of getPageReadOrder(exportSheets)) {
+          const { worksheet, config } = pagedSheets.get(sheetIndex)!;
+          try {
+            const pageOptions = { pageSize: config.summaryPageSize, maxRows: config.maxExportRows };
+            // The next page is read once the exporter has taken this one
+            const onPage = async (page: TableauDataTable, totalRows: number) => {
+              if (exportCancelledRef.current || !(await sendPage(sheetIndex, serializeDataTable(page, totalRows)))) {
+                throw new ExportCancelledError();
+              }
+            };
+
+            if (config.exportMode === 'underlying') {
+              await readUnderlyingDataPages(worksheet, config.underlyingTableId!, config.underlyingColumns || [], pageOptions, onPage);
+            } else {
+              await readSummaryDataPages(worksheet, pageOptions, onPage);
+            }
+            endPages(sheetIndex);
+          } catch (error) {
+            endPages(sheetIndex, (error instanceof Error && error.message) || 'Failed to read summary data');
+            if (error instanceof ExportCancelledError) return;
+            throw error;
+          }
+        }
+      };
 
-    } catch (error: any) {
-      console.error('Export failed:', error);
-      setExportError(error.message || 'Failed to export data');
+      const [files] = await Promise.all([promise, streamPages()]);
+      files.forEach(file => downloadFile(file.filename, file.blob, file.blob.type));
+
+    } catch (error) {
+      if (!(error instanceof ExportCancelledError)) {
+        console.error('Export failed:', error);
+        setExportError((error instanceof Error && error.message) || 'Failed to export data');
+      }
     } finally {
+      cancelExportRef.current = null;
+      setExportProgress(null);
       setIsExporting(false);
     }
   };
 
+  // Copy the active worksheet's formatted pivot as an HTML table with a tab-separated text fallback
+  const handleCopy = () => {
+    setMenuVisible(false);
+    if (!savedConfig) {
+      setExportError('Configuration not loaded. Please configure the extension first.');
+      return;
+    }
+    if (savedConfig.exportMode !== 'formatted') {
+      setExportError('Copy to clipboard is only available for formatted pivot exports.');
+      return;
+    }
+
+    const name = savedConfig.selectedWorksheet;
+    setIsCopying(true);
+    setExportError(null);
+    setCopyMessage(null);
+
+    // The clipboard write starts right away (browsers only allow it during the click) and waits for the data
+    const content = (async () => {
+      const worksheet = worksheets.find((w: any) => w.name === name);
+      if (!worksheet) throw new Error(`Worksheet "${name}" not found`);
+
+      const { main: rows, gcData, rcData } = await fetchFullDataset(
+        name,
+        savedConfig.maxExportRows || 0,
+        savedConfig.summaryPageSize || DEFAULT_SUMMARY_PAGE_SIZE
+      );
+      let filters: WorksheetFilter[] = [];
+      try {
+        filters = await readWorksheetFilters(worksheet);
+      } catch (e) {
+        console.warn(`Could not fetch filters for ${name}`, e);
+      }
+
+      const input: ExportSheetInput = {
+        config: savedConfig,
+        rows,
+        gcData,
+        rcData,
+        filters,
+        allFields: [...savedConfig.groupColumns, ...savedConfig.pivotColumns, ...savedConfig.valueColumns],
+        sheetName: savedConfig.worksheetName || name
+      };
+      const sheet = { ...input, pivotResult: buildPivotResult(input) };
+      return { html: buildPivotHtml(sheet), text: buildPivotText(sheet) };
+    })();
+
+    copyHtmlToClipboard(content)
+      .then(() => {
+        setCopyMessage('Pivot copied to clipboard');
+        setTimeout(() => setCopyMessage(null), 2000);
+      })
+      .catch((error: unknown) => {
+        console.error('Copy failed:', error);
+        setExportError((error instanceof Error && error.message) || 'Failed to copy to clipboard');
+      })
+      .finally(() => setIsCopying(false));
+  };
+
+  const handleCancelExport = () => {
+    // Data already requested from Tableau cannot be aborted; the export stops once it arrives
+    exportCancelledRef.current = true;
+    setExportProgress(prev => prev && { ...prev, message: 'Cancelling...' });
+    cancelExportRef.current?.();
+  };
+
   if (!isInitialized) {
     return (
       <div className="flex items-center justify-center h-screen bg-gray-50">
@@ -242,25 +399,97 @@ function App() {
           </CAlert>
         )}
 
-        {/* Show loading spinner if config is loading or exporting */}
-        {(isExporting || isLoadingConfig) && (
+        {/* Show loading spinner while config is loading */}
+        {isLoadingConfig && !isExporting && (
           <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 z-10">
             <CSpinner color="primary" />
           </div>
         )}
 
-        <button
-          onClick={handleExport}
-          disabled={isExporting || isLoadingConfig}
-          className="focus:outline-none hover:opacity-80 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center p-4"
-          title={!savedConfig ? "Configuration Required" : "Export to Excel"}
-        >
-          <img
-            src="./excel-icon.svg"
-            alt="Export to Excel"
-            className="max-w-[80vw] max-h-[80vh] object-contain cursor-pointer"
-          />
-        </button>
+        {/* Export progress; fetching from Tableau has no measurable progress */}
+        {isExporting && exportProgress && (
+          <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 z-10 w-[80vw] max-w-[400px] bg-white/90 rounded shadow p-3">
+            <div className="text-sm text-gray-700 mb-2 truncate" title={exportProgress.message}>
+              {exportProgress.message}
+            </div>
+            <div className="flex items-center gap-2">
+              <CProgress
+                className="flex-1"
+                value={exportProgress.phase === 'fetching' ? 100 : exportProgress.percent}
+                variant={exportProgress.phase === 'fetching' ? 'striped' : undefined}
+                animated={exportProgress.phase === 'fetching'}
+              />
+              <CButton color="secondary" size="sm" onClick={handleCancelExport}>
+                Cancel
+              </CButton>
+            </div>
+          </div>
+        )}
+
+        {copyMessage && (
+          <CAlert
+            color="success"
+            className="absolute top-4 left-1/2 transform -translate-x-1/2 min-w-[300px] z-10"
+          >
+            {copyMessage}
+          </CAlert>
+        )}
+
+        {isCopying && (
+          <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 z-10">
+            <CSpinner color="primary" />
+          </div>
+        )}
+
+        {/* Split button: clicking the icon exports, the toggle (or a right-click) opens the other actions */}
+        <div className="relative">
+          <button
+            onClick={handleExportClick}
+            onContextMenu={(e) => {
+              e.preventDefault();
+              if (!isExporting && !isCopying && !isLoadingConfig) setMenuVisible(true);
+            }}
+            disabled={isExporting || isCopying || isLoadingConfig}
+            className="focus:outline-none hover:opacity-80 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center p-4"
+            title={!savedConfig ? "Configuration Required" : "Export to Excel"}
+          >
+            <img
+              src="./excel-icon.svg"
+              alt="Export to Excel"
+              className="max-w-[80vw] max-h-[80vh] object-contain cursor-pointer"
+            />
+          </button>
+
+          <CDropdown
+            className="absolute bottom-0 right-0"
+            visible={menuVisible}
+            onShow={() => setMenuVisible(true)}
+            onHide={() => setMenuVisible(false)}
+          >
+            <CDropdownToggle
+              color="light"
+              size="sm"
+              split
+              splitLabel="More export actions"
+              disabled={isExporting || isCopying || isLoadingConfig}
+            />
+            <CDropdownMenu>
+              <CDropdownItem as="button" onClick={handleExportClick}>
+                Download export
+              </CDropdownItem>
+              <CDropdownItem as="button" onClick={handleCopy} disabled={savedConfig?.exportMode !== 'formatted'}>
+                Copy pivot to clipboard
+              </CDropdownItem>
+            </CDropdownMenu>
+          </CDropdown>
+        </div>
+
+        <ExportDialog
+          visible={exportChoices !== null}
+          onClose={() => setExportChoices(null)}
+          worksheets={exportChoices || []}
+          onExport={handleExport}
+        />
 
         {!savedConfig && !isLoadingConfig && (
           <div className="mt-2 text-sm text-gray-500 absolute bottom-8">
@@ -3,9 +3,13 @@ import { useTableau } from './hooks/useTableau';
 import { useConfigState } from './hooks/useConfigState';
 import { ConfigPanel } from './features/config/ConfigPanel';
 import { PreviewSection } from './features/preview/PreviewSection';
-import { CButton, CSpinner, CTooltip } from '@coreui/react';
+import { ConfigTemplatesModal } from './features/config/ConfigTemplatesModal';
+import { CAlert, CButton, CProgress, CSpinner, CTooltip } from '@coreui/react';
 import { Mail } from 'lucide-react';
-import type { Column } from './types';
+import type { Column, CustomFieldDefinition } from './types';
+import { parseConfig } from './utils/configSchema';
+import { readConfigJson, writeConfig, measureConfig, formatSize } from './utils/configStorage';
+import type { SettingsUsage } from './utils/configStorage';
 
 export default function ConfigDialog() {
     const { isInitialized, worksheets } = useTableau();
@@ -21,36 +25,60 @@ export default function ConfigDialog() {
     const [isLoadingPreview, setIsLoadingPreview] = useState(false);
     const [totalPreviewRows, setTotalPreviewRows] = useState(0);
     const [showPreviewModal, setShowPreviewModal] = useState(false);
+    const [showTemplatesModal, setShowTemplatesModal] = useState(false);
 
     const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+    const [saveError, setSaveError] = useState<string | null>(null);
+    const [configError, setConfigError] = useState<string | null>(null);
+    const [settingsUsage, setSettingsUsage] = useState<SettingsUsage | null>(null);
 
     // Load saved settings on init
     useEffect(() => {
         if (isInitialized && window.tableau?.extensions?.settings) {
-            const activeWorksheet = window.tableau.extensions.settings.get('active_worksheet');
-            let configToLoad = null;
+            const settings = window.tableau.extensions.settings;
+            const activeWorksheet = settings.get('active_worksheet');
 
-            if (activeWorksheet) {
-                configToLoad = window.tableau.extensions.settings.get(`config_${activeWorksheet}`);
-            }
+            const loadSavedConfig = async () => {
+                try {
+                    let configToLoad = activeWorksheet ? await readConfigJson(settings, `config_${activeWorksheet}`) : null;
 
-            // Fallback
-            if (!configToLoad) {
-                configToLoad = window.tableau.extensions.settings.get('config');
-            }
+                    // Fallback
+                    if (!configToLoad) {
+                        configToLoad = await readConfigJson(settings, 'config');
+                    }
 
-            if (configToLoad) {
-                try {
-                    const parsed = JSON.parse(configToLoad);
-                    console.log('Loaded saved config:', parsed);
-                    setConfig(parsed);
-                } catch (error) {
+                    if (configToLoad) {
+                        const parsed = parseConfig(configToLoad, activeWorksheet || undefined);
+                        console.log('Loaded saved config:', parsed);
+                        setConfig(parsed);
+                    }
+                } catch (error: unknown) {
                     console.error('Error loading saved config:', error);
+                    const message = error instanceof Error ? error.message : String(error);
+                    setConfigError(`${message} The default configuration was loaded instead; saving will replace the corrupt one.`);
                 }
-            }
+            };
+            loadSavedConfig();
         }
     }, [isInitialized]);
 
+    // Size meter: how much of the settings limit the config would take when saved (debounced while editing)
+    useEffect(() => {
+        const settings = window.tableau?.extensions?.settings;
+        if (!isInitialized || !settings || !config.selectedWorksheet) return;
+
+        let cancelled = false;
+        const timer = setTimeout(() => {
+            measureConfig(settings, config.selectedWorksheet, config)
+                .then(usage => { if (!cancelled) setSettingsUsage(usage); })
+                .catch(error => console.warn('Could not measure config size:', error));
+        }, 500);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [config, isInitialized]);
+
     // Fetch columns when worksheet changes - ONLY from the view
     useEffect(() => {
         const fetchColumns = async () => {
@@ -181,28 +209,61 @@ export default function ConfigDialog() {
         fetchColumns();
     }, [config.selectedWorksheet, isInitialized, worksheets]);
 
-    const handleAddCustomField = (name: string) => {
+    const handleAddCustomField = (name: string, def: CustomFieldDefinition) => {
         const newField: Column = {
             id: `custom_${Date.now()}`,
             name: name,
             dataType: 'float',
             isCalculatedField: true,
-            isCustom: true
-            // lodDef removed
+            isCustom: true,
+            formula: def.formula,
+            formulaRefs: def.formulaRefs
         };
-        setAllColumns(prev => [...prev, newField]);
+        updateConfig({ customFields: [...(config.customFields || []), newField] });
     };
 
     const handleDeleteCustomField = (fieldId: string) => {
-        setAllColumns(prev => prev.filter(c => c.id !== fieldId));
+        updateConfig({
+            customFields: (config.customFields || []).filter(c => c.id !== fieldId),
+            groupColumns: config.groupColumns.filter(c => c.id !== fieldId),
+            pivotColumns: config.pivotColumns.filter(c => c.id !== fieldId),
+            valueColumns: config.valueColumns.filter(c => c.id !== fieldId),
+            metricGroups: config.metricGroups.map(g => ({ ...g, fields: g.fields.filter(f => f !== fieldId) }))
+        });
+    };
+
+    const handleUpdateCustomField = (fieldId: string, name: string, def: CustomFieldDefinition) => {
+        // Placed copies keep their own formatting, so only the definition is replaced
+        const update = (c: Column) => c.id === fieldId
+            ? { ...c, name, formula: def.formula, formulaRefs: def.formulaRefs }
+            : c;
+        updateConfig({
+            customFields: (config.customFields || []).map(update),
+            groupColumns: config.groupColumns.map(update),
+            pivotColumns: config.pivotColumns.map(update),
+            valueColumns: config.valueColumns.map(update)
+        });
     };
 
-    const handleUpdateCustomField = (fieldId: string, name: string) => {
-        setAllColumns(prev => prev.map(c =>
-            c.id === fieldId
-                ? { ...c, name } // lodDef removed
-                : c
-        ));
+    // Distinct members of a field, for manual sort orders (uses the preview data when loaded)
+    const handleLoadMembers = async (fieldId: string): Promise<string[]> => {
+        if (previewData.length > 0) {
+            return Array.from(new Set(previewData.map(row => String(row[fieldId] ?? '')))).filter(member => member !== '');
+        }
+
+        // Read the selected worksheet only (not its GC_/RC_ total sheets)
+        const worksheet = worksheets.find((w: any) => w.name === config.selectedWorksheet);
+        if (!worksheet) return [];
+
+        const { readSummaryDataPages } = await import('./utils/dataFetcher');
+        const members = new Set<string>();
+        await readSummaryDataPages(worksheet, { maxRows: 20000 }, page => {
+            const colIndex = page.columns.findIndex(c => c.fieldName === fieldId);
+            if (colIndex === -1) return;
+            page.data.forEach(row => members.add(String(row[colIndex].value ?? '')));
+        });
+        members.delete('');
+        return Array.from(members);
     };
 
     // Calculate available columns (excluding those already in use)
@@ -286,7 +347,7 @@ export default function ConfigDialog() {
     };
 
     const onShowPreview = async () => {
-        if (config.exportMode === 'datadump') {
+        if (config.exportMode === 'datadump' || config.exportMode === 'underlying') {
             alert('Preview only available for formatted excel report');
             return;
         }
@@ -294,41 +355,53 @@ export default function ConfigDialog() {
         await handleGeneratePreview();
     };
 
-    const handleSave = () => {
+    const handleSave = async () => {
         // Save settings to Tableau settings
         if (window.tableau?.extensions?.settings && config.selectedWorksheet) {
+            const settings = window.tableau.extensions.settings;
             setSaveStatus('saving');
+            setSaveError(null);
 
-            // Save specific config for this worksheet
-            window.tableau.extensions.settings.set(`config_${config.selectedWorksheet}`, JSON.stringify(config));
+            try {
+                // Save specific config for this worksheet (compressed, split over several keys if large)
+                setSettingsUsage(await writeConfig(settings, config.selectedWorksheet, config));
+            } catch (err: unknown) {
+                console.error('Error saving settings:', err);
+                setSaveError(err instanceof Error ? err.message : String(err));
+                setSaveStatus('error');
+                return;
+            }
             // Set as active worksheet
-            window.tableau.extensions.settings.set('active_worksheet', config.selectedWorksheet);
+            settings.set('active_worksheet', config.selectedWorksheet);
 
-            window.tableau.extensions.settings.saveAsync().then(() => {
+            settings.saveAsync().then(() => {
                 setSaveStatus('saved');
                 setTimeout(() => setSaveStatus('idle'), 3000);
-            }).catch((err: any) => {
+            }).catch((err: unknown) => {
                 console.error('Error saving settings:', err);
+                setSaveError(`Error saving the configuration of "${config.selectedWorksheet}": ${(err instanceof Error && err.message) || err}`);
                 setSaveStatus('error');
             });
         }
     };
 
-    const handleWorksheetChange = (name: string) => {
+    const handleWorksheetChange = async (name: string) => {
         if (!name) return;
 
         // Try to load config for this worksheet
-        const savedConfigStr = window.tableau.extensions.settings.get(`config_${name}`);
-        if (savedConfigStr) {
-            try {
-                const parsed = JSON.parse(savedConfigStr);
-                setConfig(parsed);
-            } catch (e) {
-                console.error('Error parsing saved config for sheet:', name);
+        setConfigError(null);
+        try {
+            const savedConfigStr = await readConfigJson(window.tableau.extensions.settings, `config_${name}`);
+            if (savedConfigStr) {
+                setConfig(parseConfig(savedConfigStr, name));
+            } else {
+                // No config found, reset to defaults for this sheet
                 resetConfig(name);
             }
-        } else {
-            // No config found, reset to defaults for this sheet
+        } catch (e: unknown) {
+            console.error('Error parsing saved config for sheet:', name, e);
+            const message = e instanceof Error ? e.message : String(e);
+            setConfigError(`${message} The default configuration was loaded instead; saving will replace the corrupt one.`);
             resetConfig(name);
         }
     };
@@ -369,7 +442,11 @@ export default function ConfigDialog() {
                     </div>
                 </header>
 
-
+                {configError && (
+                    <CAlert color="danger" dismissible onClose={() => setConfigError(null)} className="mb-6">
+                        {configError}
+                    </CAlert>
+                )}
 
                 <ConfigPanel
                     config={config}
@@ -392,6 +469,7 @@ export default function ConfigDialog() {
                     onAddCustomField={handleAddCustomField}
                     onDeleteCustomField={handleDeleteCustomField}
                     onUpdateCustomField={handleUpdateCustomField}
+                    onLoadMembers={handleLoadMembers}
                 />
 
                 <PreviewSection
@@ -407,10 +485,39 @@ export default function ConfigDialog() {
                     allFields={allColumns}
                 />
 
+                <ConfigTemplatesModal
+                    visible={showTemplatesModal}
+                    onClose={() => setShowTemplatesModal(false)}
+                    config={config}
+                    fields={allColumns}
+                    onApply={setConfig}
+                />
+
                 <div className="mt-6 flex justify-end gap-3 items-center">
+                    {settingsUsage && (
+                        <div
+                            className="mr-auto flex items-center gap-2 text-xs text-gray-500"
+                            title={`This worksheet's configuration: ${formatSize(settingsUsage.configSize)} (compressed)`}
+                        >
+                            <span>Settings: {formatSize(settingsUsage.totalSize)} of {formatSize(settingsUsage.limit)}</span>
+                            <CProgress
+                                className="w-32"
+                                height={6}
+                                value={Math.min(100, settingsUsage.totalSize / settingsUsage.limit * 100)}
+                                color={settingsUsage.totalSize > settingsUsage.limit ? 'danger' : settingsUsage.totalSize > settingsUsage.limit * 0.8 ? 'warning' : 'success'}
+                            />
+                        </div>
+                    )}
                     {saveStatus === 'saved' && <span className="text-green-600 font-medium mr-2">Configuration Saved!</span>}
-                    {saveStatus === 'error' && <span className="text-red-600 font-medium mr-2">Error Saving!</span>}
+                    {saveStatus === 'error' && <span className="text-red-600 font-medium mr-2">{saveError || 'Error Saving!'}</span>}
 
+                    <CButton
+                        color="secondary"
+                        variant="outline"
+                        onClick={() => setShowTemplatesModal(true)}
+                    >
+                        Templates
+                    </CButton>
                     <CButton
                         color="secondary"
                         onClick={() => window.tableau?.extensions?.ui?.closeDialog('cancel')}
@@ -1,7 +1,7 @@
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import { CButton } from '@coreui/react';
-import { GripVertical, X, Settings, Pen, Palette, Hash } from 'lucide-react';
+import { CButton, CFormCheck } from '@coreui/react';
+import { GripVertical, X, Settings, Pen, Palette, Hash, ArrowUpDown, MoveHorizontal } from 'lucide-react';
 
 interface SortableItemProps {
     id: string;
@@ -17,6 +17,13 @@ interface SortableItemProps {
     showFormat?: boolean;
     onNumberFormat?: () => void;
     showNumberFormat?: boolean;
+    onSort?: () => void;
+    showSort?: boolean;
+    onWidth?: () => void;
+    showWidth?: boolean;
+    checked?: boolean; // Checkbox before the name, shown when onCheck is set
+    onCheck?: (checked: boolean) => void;
+    badge?: string; // Small label after the name
 }
 
 export const SortableItem: React.FC<SortableItemProps> = ({
@@ -32,7 +39,14 @@ export const SortableItem: React.FC<SortableItemProps> = ({
     onFormat,
     showFormat = false,
     onNumberFormat,
-    showNumberFormat = false
+    showNumberFormat = false,
+    onSort,
+    showSort = false,
+    onWidth,
+    showWidth = false,
+    checked = false,
+    onCheck,
+    badge
 }) => {
     const {
         attributes,
@@ -59,9 +73,22 @@ export const SortableItem: React.FC<SortableItemProps> = ({
                 <div {...attributes} {...listeners} className="cursor-grab mr-2 text-gray-400 hover:text-gray-600">
                     <GripVertical size={16} />
                 </div>
+                {onCheck && (
+                    <CFormCheck
+                        id={`check_${id}`}
+                        className="mr-2 mb-0"
+                        checked={checked}
+                        onChange={(e) => onCheck(e.target.checked)}
+                    />
+                )}
                 <span className="truncate text-sm font-medium text-gray-700" title={name}>
                     {name}
                 </span>
+                {badge && (
+                    <span className="ml-2 shrink-0 px-1.5 py-0.5 text-xs text-gray-600 bg-gray-100 rounded">
+                        {badge}
+                    </span>
+                )}
             </div>
 
             <div className="flex items-center gap-1 transition-opacity">
@@ -87,6 +114,28 @@ export const SortableItem: React.FC<SortableItemProps> = ({
                         <Hash size={14} />
                     </CButton>
                 )}
+                {showSort && onSort && (
+                    <CButton
+                        color="light"
+                        size="sm"
+                        className="p-1 text-gray-500 hover:text-epsilon-blue"
+                        onClick={onSort}
+                        title="Sort Order"
+                    >
+                        <ArrowUpDown size={14} />
+                    </CButton>
+                )}
+                {showWidth && onWidth && (
+                    <CButton
+                        color="light"
+                        size="sm"
+                        className="p-1 text-gray-500 hover:text-epsilon-blue"
+                        onClick={onWidth}
+                        title="Column Width"
+                    >
+                        <MoveHorizontal size={14} />
+                    </CButton>
+                )}
                 {showEdit && onEdit && (
                     <CButton
                         color="light"
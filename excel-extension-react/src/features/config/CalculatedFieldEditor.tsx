@@ -0,0 +1,158 @@
+import React, { useState, useMemo, useRef } from 'react';
+import {
+    CModal,
+    CModalHeader,
+    CModalTitle,
+    CModalBody,
+    CModalFooter,
+    CButton,
+    CFormLabel,
+    CFormInput,
+    CFormTextarea
+} from '@coreui/react';
+import type { Column, CustomFieldDefinition } from '../../types';
+import { validateFormula, FORMULA_FUNCTIONS } from '../../utils/formulaEngine';
+
+interface CalculatedFieldEditorProps {
+    visible: boolean;
+    onClose: () => void;
+    onSave: (name: string, def: CustomFieldDefinition) => void;
+    field: Column | null; // null when creating a new field
+    allFields: Column[];
+}
+
+export const CalculatedFieldEditor: React.FC<CalculatedFieldEditorProps> = ({
+    visible, onClose, onSave, field, allFields
+}) => {
+    const [name, setName] = useState('');
+    const [formula, setFormula] = useState('');
+    const formulaRef = useRef<HTMLTextAreaElement>(null);
+
+    // Start from the field's definition each time the editor opens
+    const [openedWith, setOpenedWith] = useState({ visible: false, field: null as Column | null });
+    if (openedWith.visible !== visible || openedWith.field !== field) {
+        setOpenedWith({ visible, field });
+        if (visible) {
+            setName(field?.name || '');
+            setFormula(field?.formula || '');
+        }
+    }
+
+    // Only worksheet fields can be referenced
+    const referenceableFields = useMemo(() => allFields.filter(f => !f.isCustom), [allFields]);
+
+    const validation = useMemo(() => validateFormula(formula, referenceableFields), [formula, referenceableFields]);
+
+    const nameError = !name.trim()
+        ? 'Name is required'
+        : allFields.some(f => f.id !== field?.id && f.name.toLowerCase() === name.trim().toLowerCase())
+            ? `A field named "${name.trim()}" already exists`
+            : null;
+
+    const insertText = (text: string) => {
+        const textarea = formulaRef.current;
+        if (!textarea) {
+            setFormula(prev => prev + text);
+            return;
+        }
+        const start = textarea.selectionStart ?? formula.length;
+        const end = textarea.selectionEnd ?? formula.length;
+        setFormula(formula.slice(0, start) + text + formula.slice(end));
+        requestAnimationFrame(() => {
+            textarea.focus();
+            textarea.setSelectionRange(start + text.length, start + text.length);
+        });
+    };
+
+    const handleSave = () => {
+        if (nameError || !validation.refs) return;
+        onSave(name.trim(), { formula: formula.trim(), formulaRefs: validation.refs });
+        onClose();
+    };
+
+    return (
+        <CModal visible={visible} onClose={onClose} size="lg">
+            <CModalHeader>
+                <CModalTitle>{field ? `Edit Calculated Field - ${field.name}` : 'New Calculated Field'}</CModalTitle>
+            </CModalHeader>
+            <CModalBody>
+                <div className="mb-3">
+                    <CFormLabel>Name</CFormLabel>
+                    <CFormInput
+                        type="text"
+                        placeholder="e.g., Average Price"
+                        value={name}
+                        invalid={!!name && !!nameError}
+                        onChange={(e) => setName(e.target.value)}
+                    />
+                    {name && nameError && <div className="text-xs text-red-600 mt-1">{nameError}</div>}
+                </div>
+
+                <div className="mb-3">
+                    <CFormLabel>Formula</CFormLabel>
+                    <CFormTextarea
+                        ref={formulaRef}
+                        rows={4}
+                        className="font-mono text-sm"
+                        placeholder="[Sales] / [Quantity]"
+                        value={formula}
+                        invalid={!!formula && !!validation.error}
+                        onChange={(e) => setFormula(e.target.value)}
+                    />
+                    {formula && validation.error ? (
+                        <div className="text-xs text-red-600 mt-1">{validation.error}</div>
+                    ) : formula ? (
+                        <div className="text-xs text-green-600 mt-1">The formula is valid.</div>
+                    ) : null}
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <CFormLabel className="text-xs text-gray-500 mb-1">Fields</CFormLabel>
+                        <div className="border rounded max-h-48 overflow-y-auto bg-gray-50">
+                            {referenceableFields.map(f => (
+                                <button
+                                    key={f.id}
+                                    type="button"
+                                    className="block w-full text-left px-2 py-1 text-sm hover:bg-blue-50 truncate"
+                                    title={f.id}
+                                    onClick={() => insertText(`[${f.name.replace(/]/g, ']]')}]`)}
+                                >
+                                    {f.name}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <div>
+                        <CFormLabel className="text-xs text-gray-500 mb-1">Functions</CFormLabel>
+                        <div className="border rounded max-h-48 overflow-y-auto bg-gray-50">
+                            {FORMULA_FUNCTIONS.map(fn => (
+                                <button
+                                    key={fn.name}
+                                    type="button"
+                                    className="block w-full text-left px-2 py-1 hover:bg-blue-50"
+                                    title={fn.description}
+                                    onClick={() => insertText(`${fn.name}(`)}
+                                >
+                                    <span className="font-mono text-sm">{fn.signature}</span>
+                                    <span className="block text-xs text-gray-500">{fn.description}</span>
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+
+                <div className="text-xs text-gray-500 mt-3">
+                    Operators: + - * / = != &lt; &lt;= &gt; &gt;= AND OR NOT. Formulas are calculated on the
+                    aggregated values of each cell, so totals are recalculated rather than summed.
+                </div>
+            </CModalBody>
+            <CModalFooter>
+                <CButton color="secondary" onClick={onClose}>Close</CButton>
+                <CButton color="primary" onClick={handleSave} disabled={!!nameError || !validation.refs}>
+                    Save
+                </CButton>
+            </CModalFooter>
+        </CModal>
+    );
+};
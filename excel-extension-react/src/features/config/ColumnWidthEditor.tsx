@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import {
+    CModal,
+    CModalHeader,
+    CModalTitle,
+    CModalBody,
+    CModalFooter,
+    CButton,
+    CFormLabel,
+    CFormInput,
+    CFormCheck
+} from '@coreui/react';
+import type { Column } from '../../types';
+
+interface ColumnWidthEditorProps {
+    visible: boolean;
+    onClose: () => void;
+    onSave: (width?: number) => void;
+    column: Column | null;
+}
+
+export const ColumnWidthEditor: React.FC<ColumnWidthEditorProps> = ({
+    visible, onClose, onSave, column
+}) => {
+    // Unsaved edits of the column; without any, the values come from the column itself
+    const [draft, setDraft] = useState<{ column: Column, autoFit: boolean, width: number } | null>(null);
+
+    const edited = draft && draft.column === column ? draft : null;
+    const autoFit = edited ? edited.autoFit : !column?.width;
+    const width = edited ? edited.width : column?.width || 15;
+
+    const updateDraft = (updates: { autoFit?: boolean, width?: number }) => {
+        if (column) setDraft({ column, autoFit, width, ...updates });
+    };
+
+    const handleClose = () => {
+        setDraft(null);
+        onClose();
+    };
+
+    const handleSave = () => {
+        onSave(autoFit ? undefined : Math.min(255, Math.max(1, width)));
+        handleClose();
+    };
+
+    return (
+        <CModal visible={visible} onClose={handleClose}>
+            <CModalHeader>
+                <CModalTitle>Column Width - {column?.name}</CModalTitle>
+            </CModalHeader>
+            <CModalBody>
+                <CFormCheck
+                    type="radio"
+                    name="columnWidthMode"
+                    id="columnWidthAuto"
+                    label="Fit to content"
+                    checked={autoFit}
+                    onChange={() => updateDraft({ autoFit: true })}
+                />
+                <CFormCheck
+                    type="radio"
+                    name="columnWidthMode"
+                    id="columnWidthFixed"
+                    label="Fixed width"
+                    checked={!autoFit}
+                    onChange={() => updateDraft({ autoFit: false })}
+                />
+                {!autoFit && (
+                    <div className="mt-3">
+                        <CFormLabel>Width (characters)</CFormLabel>
+                        <CFormInput
+                            type="number"
+                            min={1}
+                            max={255}
+                            value={width}
+                            onChange={(e) => updateDraft({ width: parseInt(e.target.value, 10) || 1 })}
+                        />
+                        <div className="text-xs text-gray-500 mt-1">
+                            Applies to every Excel column this field produces, including pivoted copies.
+                        </div>
+                    </div>
+                )}
+            </CModalBody>
+            <CModalFooter>
+                <CButton color="secondary" onClick={handleClose}>Close</CButton>
+                <CButton color="primary" onClick={handleSave}>Save</CButton>
+            </CModalFooter>
+        </CModal>
+    );
+};
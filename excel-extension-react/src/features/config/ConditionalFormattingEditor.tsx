@@ -6,6 +6,7 @@ import {
 } from '@coreui/react';
 import { Trash2, Plus } from 'lucide-react';
 import type { ConditionalFormatRule, Column, CellValueRule, TopBottomRule } from '../../types';
+import { ICON_SET_GLYPHS, DEFAULT_ICON_THRESHOLDS } from '../../utils/pivotHelper';
 
 interface ConditionalFormattingEditorProps {
     visible: boolean;
@@ -71,7 +72,8 @@ export const ConditionalFormattingEditor: React.FC<ConditionalFormattingEditorPr
             case 'iconSet':
                 return {
                     id, type: 'iconSet',
-                    iconSet: 'trafficLights', reverse: false
+                    iconSet: 'trafficLights', reverse: false,
+                    thresholdType: 'percent', thresholds: [...DEFAULT_ICON_THRESHOLDS]
                 };
         }
     };
@@ -218,6 +220,55 @@ export const ConditionalFormattingEditor: React.FC<ConditionalFormattingEditorPr
                                 label="Reverse Icon Order"
                             />
                         </div>
+                        <div className="mb-3">
+                            <CFormLabel>Thresholds</CFormLabel>
+                            <CFormSelect
+                                className="mb-2"
+                                value={rule.thresholdType || 'percent'}
+                                onChange={(e) => handleUpdateRule({ ...rule, thresholdType: e.target.value as 'percent' | 'number' })}
+                            >
+                                <option value="percent">Percent of range</option>
+                                <option value="number">Number</option>
+                            </CFormSelect>
+                            {(() => {
+                                const icons = rule.reverse ? [...ICON_SET_GLYPHS[rule.iconSet]].reverse() : ICON_SET_GLYPHS[rule.iconSet];
+                                const [lower, upper] = rule.thresholds || DEFAULT_ICON_THRESHOLDS;
+                                const unit = (rule.thresholdType || 'percent') === 'percent' ? '%' : '';
+                                return (
+                                    <div className="space-y-2 text-sm">
+                                        <div className="flex items-center gap-2">
+                                            <span style={{ color: icons[0].color }}>{icons[0].glyph}</span>
+                                            <span className="w-1/3">when value &gt;=</span>
+                                            <CFormInput
+                                                type="number"
+                                                size="sm"
+                                                value={upper}
+                                                onChange={(e) => handleUpdateRule({ ...rule, thresholds: [lower, parseFloat(e.target.value) || 0] })}
+                                            />
+                                            <span>{unit}</span>
+                                        </div>
+                                        <div className="flex items-center gap-2">
+                                            <span style={{ color: icons[1].color }}>{icons[1].glyph}</span>
+                                            <span className="w-1/3">when value &gt;=</span>
+                                            <CFormInput
+                                                type="number"
+                                                size="sm"
+                                                value={lower}
+                                                onChange={(e) => handleUpdateRule({ ...rule, thresholds: [parseFloat(e.target.value) || 0, upper] })}
+                                            />
+                                            <span>{unit}</span>
+                                        </div>
+                                        <div className="flex items-center gap-2 text-gray-500">
+                                            <span style={{ color: icons[2].color }}>{icons[2].glyph}</span>
+                                            <span>otherwise</span>
+                                        </div>
+                                        {lower > upper && (
+                                            <div className="text-xs text-red-600">The top threshold should not be lower than the middle one.</div>
+                                        )}
+                                    </div>
+                                );
+                            })()}
+                        </div>
                     </div>
                 );
         }
@@ -374,8 +425,11 @@ const getRuleDescription = (rule: ConditionalFormatRule): string => {
             return `${rule.mode} ${rule.count} ${rule.percent ? '%' : 'items'}`;
         case 'colorScale':
             return `${rule.scaleType}`;
-        case 'iconSet':
-            return `${rule.iconSet}`;
+        case 'iconSet': {
+            const [lower, upper] = rule.thresholds || DEFAULT_ICON_THRESHOLDS;
+            const unit = (rule.thresholdType || 'percent') === 'percent' ? '%' : '';
+            return `${rule.iconSet} ${lower}${unit} / ${upper}${unit}`;
+        }
         default:
             return '';
     }
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import type { Column, MetricGroup, Config } from '../../types';
+import type { Column, MetricGroup, Config, CustomFieldDefinition } from '../../types';
 import { WorksheetSelector } from './WorksheetSelector';
 import { PivotConfig } from './PivotConfig';
 import { SettingsModal } from './SettingsModal';
@@ -22,10 +22,11 @@ interface ConfigPanelProps {
     onAddGroup: () => void;
     onRemoveGroup: (id: number) => void;
     onUpdateGroup: (id: number, updates: Partial<MetricGroup>) => void;
-    onAddCustomField: (name: string, def: any) => void;
+    onAddCustomField: (name: string, def: CustomFieldDefinition) => void;
     onDeleteCustomField: (fieldId: string) => void;
-    onUpdateCustomField: (fieldId: string, name: string, def: any) => void;
+    onUpdateCustomField: (fieldId: string, name: string, def: CustomFieldDefinition) => void;
     filters: any[];
+    onLoadMembers?: (fieldId: string) => Promise<string[]>;
 }
 
 export const ConfigPanel: React.FC<ConfigPanelProps> = ({
@@ -46,7 +47,8 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({
     onAddCustomField,
     onDeleteCustomField,
     onUpdateCustomField,
-    filters
+    filters,
+    onLoadMembers
 }) => {
     const [showSettingsModal, setShowSettingsModal] = useState(false);
     const [showTotalsModal, setShowTotalsModal] = useState(false);
@@ -87,6 +89,7 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({
                         onDeleteCustomField={onDeleteCustomField}
                         onUpdateCustomField={onUpdateCustomField}
                         onConfigureTotals={() => setShowTotalsModal(true)}
+                        onLoadMembers={onLoadMembers}
                     />
                 </div>
             )}
@@ -102,6 +105,15 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({
                         showColumnTotals={config.showColumnTotals}
                         columnTotalsPosition={config.columnTotalsPosition}
                         showSubtotals={config.showSubtotals}
+                        groupColumns={config.groupColumns}
+                        subtotalLevels={config.subtotalLevels || []}
+                        subtotalLabels={config.subtotalLabels || {}}
+                        useCustomSubtotalLabels={config.useCustomSubtotalLabels || false}
+                        totalsAsFormulas={config.totalsAsFormulas || false}
+                        valueColumns={config.valueColumns}
+                        selectedWorksheet={config.selectedWorksheet}
+                        hasRowTotalsSheet={worksheets.some(w => w.name === `RC_${config.selectedWorksheet}`)}
+                        hasColumnTotalsSheet={worksheets.some(w => w.name === `GC_${config.selectedWorksheet}`)}
                         onUpdate={onUpdateConfig}
                     />
                 </CModalBody>
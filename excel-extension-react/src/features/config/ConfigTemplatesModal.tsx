@@ -0,0 +1,248 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+    CModal,
+    CModalHeader,
+    CModalTitle,
+    CModalBody,
+    CModalFooter,
+    CButton,
+    CFormInput,
+    CFormLabel,
+    CAlert
+} from '@coreui/react';
+import { Download, Upload, Trash2 } from 'lucide-react';
+import type { Config, Column } from '../../types';
+import { parseConfig, serializeConfig } from '../../utils/configSchema';
+import { applyConfigToWorksheet } from '../../utils/configTemplates';
+import type { ConfigTemplate } from '../../utils/configTemplates';
+import { readTemplates, writeTemplates } from '../../utils/configStorage';
+import type { ExtensionSettings } from '../../utils/configStorage';
+import { downloadFile } from '../../utils/exportManager';
+
+interface ConfigTemplatesModalProps {
+    visible: boolean;
+    onClose: () => void;
+    config: Config;
+    fields: Column[]; // Fields of the selected worksheet, used to match up imported configs
+    onApply: (config: Config) => void;
+}
+
+/**
+ * Download/upload the worksheet's configuration as JSON and manage the template library
+ */
+export const ConfigTemplatesModal: React.FC<ConfigTemplatesModalProps> = ({
+    visible,
+    onClose,
+    config,
+    fields,
+    onApply
+}) => {
+    const [templates, setTemplates] = useState<ConfigTemplate[]>([]);
+    const [templateName, setTemplateName] = useState('');
+    const [message, setMessage] = useState<{ color: 'success' | 'warning' | 'danger', text: string } | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const settings: ExtensionSettings | undefined = window.tableau?.extensions?.settings;
+
+    // Clear the message each time the modal opens
+    const [wasVisible, setWasVisible] = useState(false);
+    if (wasVisible !== visible) {
+        setWasVisible(visible);
+        if (visible) setMessage(null);
+    }
+
+    // Reload the library each time the modal opens
+    useEffect(() => {
+        if (!visible || !settings) return;
+
+        let cancelled = false;
+        readTemplates(settings)
+            .then(list => { if (!cancelled) setTemplates(list); })
+            .catch((error: unknown) => {
+                console.error('Error reading templates:', error);
+                if (!cancelled) setMessage({ color: 'danger', text: error instanceof Error ? error.message : String(error) });
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [visible, settings]);
+
+    const canApply = !!config.selectedWorksheet && fields.length > 0;
+
+    const applyConfig = (source: Config, label: string) => {
+        const { config: applied, unmatched } = applyConfigToWorksheet(source, config.selectedWorksheet, fields);
+        onApply(applied);
+        if (unmatched.length > 0) {
+            setMessage({
+                color: 'warning',
+                text: `Applied ${label}. ${unmatched.length} field(s) are not on this worksheet and were removed: ${unmatched.join(', ')}. Save the configuration to keep the changes.`
+            });
+        } else {
+            setMessage({ color: 'success', text: `Applied ${label}; all fields matched. Save the configuration to keep the changes.` });
+        }
+    };
+
+    const handleDownload = () => {
+        const name = (config.selectedWorksheet || 'worksheet').replace(/[\\/:*?"<>|]/g, '_');
+        downloadFile(`${name}_config.json`, serializeConfig(config), 'application/json');
+    };
+
+    const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow uploading the same file again
+        if (!file) return;
+
+        try {
+            applyConfig(parseConfig(await file.text()), `"${file.name}"`);
+        } catch (error: unknown) {
+            console.error('Error importing config:', error);
+            const text = error instanceof Error ? error.message : String(error);
+            setMessage({ color: 'danger', text: text.replace('The saved configuration', `"${file.name}"`) });
+        }
+    };
+
+    const saveTemplates = async (next: ConfigTemplate[], successText: string) => {
+        if (!settings) return;
+
+        try {
+            // Compressed and split over several keys like configs; refused over the settings limit
+            await writeTemplates(settings, next);
+        } catch (err: unknown) {
+            console.error('Error saving templates:', err);
+            setMessage({ color: 'danger', text: err instanceof Error ? err.message : String(err) });
+            return;
+        }
+
+        settings.saveAsync().then(() => {
+            setTemplates(next);
+            setMessage({ color: 'success', text: successText });
+        }).catch((err: unknown) => {
+            console.error('Error saving templates:', err);
+            setMessage({ color: 'danger', text: `Error saving templates: ${(err instanceof Error && err.message) || err}` });
+        });
+    };
+
+    const handleSaveTemplate = () => {
+        const name = templateName.trim();
+        if (!name) return;
+
+        const exists = templates.some(t => t.name === name);
+        const template: ConfigTemplate = { name, savedAt: new Date().toISOString(), config };
+        const next = exists
+            ? templates.map(t => t.name === name ? template : t)
+            : [...templates, template];
+        saveTemplates(next, exists ? `Template "${name}" updated.` : `Template "${name}" saved.`);
+        setTemplateName('');
+    };
+
+    const handleDeleteTemplate = (name: string) => {
+        saveTemplates(templates.filter(t => t.name !== name), `Template "${name}" deleted.`);
+    };
+
+    return (
+        <CModal visible={visible} onClose={onClose} size="lg">
+            <CModalHeader>
+                <CModalTitle>Templates</CModalTitle>
+            </CModalHeader>
+            <CModalBody>
+                {message && (
+                    <CAlert color={message.color} dismissible onClose={() => setMessage(null)}>
+                        {message.text}
+                    </CAlert>
+                )}
+
+                <div className="space-y-6">
+                    <div>
+                        <h5 className="mb-3 font-semibold text-gray-700">Configuration File</h5>
+                        <div className="space-y-3 p-4 bg-gray-50 rounded-lg border border-gray-200">
+                            <p className="text-xs text-gray-500 mb-0">
+                                Download this worksheet's configuration as JSON, or upload one saved from another dashboard.
+                                Fields are matched by caption.
+                            </p>
+                            <div className="flex gap-2">
+                                <CButton color="secondary" variant="outline" size="sm" onClick={handleDownload} disabled={!config.selectedWorksheet}>
+                                    <Download size={14} className="inline mr-1" /> Download JSON
+                                </CButton>
+                                <CButton color="secondary" variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={!canApply}>
+                                    <Upload size={14} className="inline mr-1" /> Upload JSON
+                                </CButton>
+                                <input
+                                    ref={fileInputRef}
+                                    type="file"
+                                    accept=".json,application/json"
+                                    className="hidden"
+                                    onChange={handleUpload}
+                                />
+                            </div>
+                        </div>
+                    </div>
+
+                    <div>
+                        <h5 className="mb-3 font-semibold text-gray-700">Template Library</h5>
+                        <div className="space-y-3 p-4 bg-gray-50 rounded-lg border border-gray-200">
+                            <div>
+                                <CFormLabel className="text-xs text-gray-500 mb-1">Save Current Configuration As</CFormLabel>
+                                <div className="flex gap-2">
+                                    <CFormInput
+                                        size="sm"
+                                        value={templateName}
+                                        onChange={(e) => setTemplateName(e.target.value)}
+                                        placeholder="Template name"
+                                    />
+                                    <CButton color="primary" size="sm" onClick={handleSaveTemplate} disabled={!templateName.trim()}>
+                                        Save
+                                    </CButton>
+                                </div>
+                            </div>
+
+                            {templates.length === 0 ? (
+                                <div className="text-xs text-gray-500">No templates saved yet.</div>
+                            ) : (
+                                <ul className="divide-y divide-gray-200 border border-gray-200 rounded bg-white mb-0 pl-0">
+                                    {templates.map(t => (
+                                        <li key={t.name} className="flex items-center justify-between px-3 py-2">
+                                            <div>
+                                                <div className="text-sm font-medium">{t.name}</div>
+                                                <div className="text-xs text-gray-500">
+                                                    {t.config.selectedWorksheet}
+                                                    {t.savedAt && ` · ${new Date(t.savedAt).toLocaleString()}`}
+                                                </div>
+                                            </div>
+                                            <div className="flex gap-2">
+                                                <CButton
+                                                    color="primary"
+                                                    variant="outline"
+                                                    size="sm"
+                                                    onClick={() => applyConfig(t.config, `template "${t.name}"`)}
+                                                    disabled={!canApply}
+                                                >
+                                                    Apply
+                                                </CButton>
+                                                <CButton
+                                                    color="danger"
+                                                    variant="ghost"
+                                                    size="sm"
+                                                    onClick={() => handleDeleteTemplate(t.name)}
+                                                    title="Delete template"
+                                                >
+                                                    <Trash2 size={14} />
+                                                </CButton>
+                                            </div>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                            {!canApply && (
+                                <div className="text-xs text-gray-500">Select a worksheet to apply a template or upload a configuration.</div>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            </CModalBody>
+            <CModalFooter>
+                <CButton color="secondary" variant="ghost" onClick={onClose}>
+                    Close
+                </CButton>
+            </CModalFooter>
+        </CModal>
+    );
+};
@@ -0,0 +1,28 @@
+import React from 'react';
+import { CFormLabel, CFormSelect } from '@coreui/react';
+import type { FlatFileFormatId } from '../../types';
+import { getFlatFileFormats } from '../../utils/fileFormats';
+
+interface FileFormatSelectProps {
+    value?: 'excel' | FlatFileFormatId;
+    onChange: (format: 'excel' | FlatFileFormatId) => void;
+}
+
+/**
+ * Output format of a raw data sheet: Excel or one of the registered flat file formats
+ */
+export const FileFormatSelect: React.FC<FileFormatSelectProps> = ({ value, onChange }) => (
+    <div>
+        <CFormLabel className="text-xs text-gray-500 mb-1">File Format</CFormLabel>
+        <CFormSelect
+            size="sm"
+            value={value || 'csv'}
+            onChange={(e) => onChange(e.target.value as 'excel' | FlatFileFormatId)}
+        >
+            {getFlatFileFormats().map(format => (
+                <option key={format.id} value={format.id}>{format.label}</option>
+            ))}
+            <option value="excel">Excel</option>
+        </CFormSelect>
+    </div>
+);
@@ -0,0 +1,72 @@
+import React from 'react';
+import { CFormCheck, CFormLabel, CFormSelect } from '@coreui/react';
+import type { Config } from '../../types';
+
+interface FlatExcelOptionsProps {
+    config: Config;
+    onUpdate: (updates: Partial<Config>) => void;
+}
+
+const TABLE_STYLES = [
+    { value: 'TableStyleLight9', label: 'Light Blue' },
+    { value: 'TableStyleLight1', label: 'Light Gray' },
+    { value: 'TableStyleMedium2', label: 'Medium Blue' },
+    { value: 'TableStyleMedium4', label: 'Medium Green' },
+    { value: 'TableStyleMedium7', label: 'Medium Orange' },
+    { value: 'TableStyleDark1', label: 'Dark Gray' }
+];
+
+/**
+ * Layout of raw data (data dump or underlying data) written to Excel
+ */
+export const FlatExcelOptions: React.FC<FlatExcelOptionsProps> = ({ config, onUpdate }) => {
+    const layout = config.flatExcelLayout || 'table';
+
+    return (
+        <div className="space-y-2">
+            <div>
+                <CFormLabel className="text-xs text-gray-500 mb-1">Excel Layout</CFormLabel>
+                <div className="flex gap-4">
+                    <CFormCheck
+                        type="radio"
+                        name="flatExcelLayout"
+                        id="flatExcelTable"
+                        label="Excel Table"
+                        checked={layout === 'table'}
+                        onChange={() => onUpdate({ flatExcelLayout: 'table' })}
+                    />
+                    <CFormCheck
+                        type="radio"
+                        name="flatExcelLayout"
+                        id="flatExcelAutoFilter"
+                        label="AutoFilter Range"
+                        checked={layout === 'autofilter'}
+                        onChange={() => onUpdate({ flatExcelLayout: 'autofilter' })}
+                    />
+                </div>
+            </div>
+
+            {layout === 'table' && (
+                <div>
+                    <CFormLabel className="text-xs text-gray-500 mb-1">Table Style</CFormLabel>
+                    <CFormSelect
+                        size="sm"
+                        value={config.flatExcelTableStyle || 'TableStyleMedium2'}
+                        onChange={(e) => onUpdate({ flatExcelTableStyle: e.target.value })}
+                    >
+                        {TABLE_STYLES.map(style => (
+                            <option key={style.value} value={style.value}>{style.label}</option>
+                        ))}
+                    </CFormSelect>
+                </div>
+            )}
+
+            <CFormCheck
+                id="flatExcelBandedRows"
+                label="Banded rows"
+                checked={config.flatExcelBandedRows ?? true}
+                onChange={(e) => onUpdate({ flatExcelBandedRows: e.target.checked })}
+            />
+        </div>
+    );
+};
@@ -9,7 +9,7 @@ import {
     CDropdownItem
 } from '@coreui/react';
 import type { MetricGroup, Column } from '../../types';
-import { Plus, Trash2, Edit2, Check, X, ChevronDown, ChevronUp, Layers } from 'lucide-react';
+import { Plus, Trash2, Edit2, Check, X, ChevronDown, ChevronUp, Layers, Eye, EyeOff } from 'lucide-react';
 
 interface MetricGroupsProps {
     groups: MetricGroup[];
@@ -155,18 +155,36 @@ export const MetricGroups: React.FC<MetricGroupsProps> = ({
                                             )}
                                         </div>
 
-                                        <CButton
-                                            color="danger"
-                                            variant="ghost"
-                                            size="sm"
-                                            className="text-gray-400 hover:text-red-500 hover:bg-red-50"
-                                            onClick={(e) => {
-                                                e.stopPropagation();
-                                                onRemoveGroup(group.id);
-                                            }}
-                                        >
-                                            <Trash2 size={16} />
-                                        </CButton>
+                                        <div className="flex items-center gap-1">
+                                            {group.collapsed && (
+                                                <span className="text-xs text-gray-400">Hidden in export</span>
+                                            )}
+                                            <CButton
+                                                color="secondary"
+                                                variant="ghost"
+                                                size="sm"
+                                                className="text-gray-400 hover:text-epsilon-blue"
+                                                title={group.collapsed ? 'Show group columns in export' : 'Hide group columns in export'}
+                                                onClick={(e) => {
+                                                    e.stopPropagation();
+                                                    onUpdateGroup(group.id, { collapsed: !group.collapsed });
+                                                }}
+                                            >
+                                                {group.collapsed ? <EyeOff size={16} /> : <Eye size={16} />}
+                                            </CButton>
+                                            <CButton
+                                                color="danger"
+                                                variant="ghost"
+                                                size="sm"
+                                                className="text-gray-400 hover:text-red-500 hover:bg-red-50"
+                                                onClick={(e) => {
+                                                    e.stopPropagation();
+                                                    onRemoveGroup(group.id);
+                                                }}
+                                            >
+                                                <Trash2 size={16} />
+                                            </CButton>
+                                        </div>
                                     </div>
 
                                     {/* Group Body (Expanded) */}
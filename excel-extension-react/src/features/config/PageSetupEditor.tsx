@@ -0,0 +1,144 @@
+import React from 'react';
+import { CFormCheck, CFormInput, CFormLabel, CFormSelect, CFormSwitch } from '@coreui/react';
+import type { PageSetupSettings } from '../../types';
+import { defaultPageSetup } from '../../hooks/useConfigState';
+
+interface PageSetupEditorProps {
+    pageSetup?: PageSetupSettings;
+    onUpdate: (pageSetup?: PageSetupSettings) => void;
+}
+
+/**
+ * Print layout of formatted Excel sheets. Without page setup Excel's defaults apply.
+ */
+export const PageSetupEditor: React.FC<PageSetupEditorProps> = ({ pageSetup, onUpdate }) => {
+    const settings = pageSetup || defaultPageSetup;
+    const update = (updates: Partial<PageSetupSettings>) => onUpdate({ ...settings, ...updates });
+
+    return (
+        <div className="space-y-3 p-4 bg-gray-50 rounded-lg border border-gray-200">
+            <CFormSwitch
+                id="pageSetupEnabled"
+                label="Apply page setup"
+                checked={!!pageSetup}
+                onChange={(e) => onUpdate(e.target.checked ? settings : undefined)}
+            />
+
+            {pageSetup && (
+                <>
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <CFormLabel className="text-xs text-gray-500 mb-1">Orientation</CFormLabel>
+                            <CFormSelect
+                                size="sm"
+                                value={settings.orientation}
+                                onChange={(e) => update({ orientation: e.target.value as PageSetupSettings['orientation'] })}
+                            >
+                                <option value="portrait">Portrait</option>
+                                <option value="landscape">Landscape</option>
+                            </CFormSelect>
+                        </div>
+                        <div>
+                            <CFormLabel className="text-xs text-gray-500 mb-1">Paper Size</CFormLabel>
+                            <CFormSelect
+                                size="sm"
+                                value={settings.paperSize}
+                                onChange={(e) => update({ paperSize: e.target.value as PageSetupSettings['paperSize'] })}
+                            >
+                                <option value="letter">Letter</option>
+                                <option value="legal">Legal</option>
+                                <option value="tabloid">Tabloid</option>
+                                <option value="a4">A4</option>
+                                <option value="a3">A3</option>
+                            </CFormSelect>
+                        </div>
+                    </div>
+
+                    <div>
+                        <CFormLabel className="text-xs text-gray-500 mb-1">Margins</CFormLabel>
+                        <CFormSelect
+                            size="sm"
+                            value={settings.margins}
+                            onChange={(e) => update({ margins: e.target.value as PageSetupSettings['margins'] })}
+                        >
+                            <option value="normal">Normal</option>
+                            <option value="narrow">Narrow</option>
+                            <option value="wide">Wide</option>
+                        </CFormSelect>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <CFormLabel className="text-xs text-gray-500 mb-1">Fit to Pages Wide</CFormLabel>
+                            <CFormInput
+                                size="sm"
+                                type="number"
+                                min={0}
+                                value={settings.fitToPagesWide}
+                                onChange={(e) => update({ fitToPagesWide: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                            />
+                        </div>
+                        <div>
+                            <CFormLabel className="text-xs text-gray-500 mb-1">Fit to Pages Tall</CFormLabel>
+                            <CFormInput
+                                size="sm"
+                                type="number"
+                                min={0}
+                                value={settings.fitToPagesTall}
+                                onChange={(e) => update({ fitToPagesTall: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                            />
+                        </div>
+                    </div>
+                    <div className="text-xs text-gray-500">0 = as many pages as needed. Set both to 0 to print at 100%.</div>
+
+                    <CFormCheck
+                        id="pageSetupRepeatHeaders"
+                        label="Repeat header rows on every page"
+                        checked={settings.repeatHeaderRows}
+                        onChange={(e) => update({ repeatHeaderRows: e.target.checked })}
+                    />
+                    <CFormCheck
+                        id="pageSetupRepeatRowHeaders"
+                        label="Repeat row labels on every page"
+                        checked={settings.repeatRowHeaders}
+                        onChange={(e) => update({ repeatRowHeaders: e.target.checked })}
+                    />
+                    <CFormCheck
+                        id="pageSetupPrintArea"
+                        label="Set print area to the table"
+                        checked={settings.setPrintArea}
+                        onChange={(e) => update({ setPrintArea: e.target.checked })}
+                    />
+
+                    <div>
+                        <CFormLabel className="text-xs text-gray-500 mb-1">Page Header</CFormLabel>
+                        <CFormInput
+                            size="sm"
+                            type="text"
+                            placeholder="e.g., {sheet} - Confidential"
+                            value={settings.headerText}
+                            onChange={(e) => update({ headerText: e.target.value })}
+                        />
+                    </div>
+                    <div>
+                        <CFormLabel className="text-xs text-gray-500 mb-1">Page Footer</CFormLabel>
+                        <CFormInput
+                            size="sm"
+                            type="text"
+                            placeholder="e.g., Printed {date}"
+                            value={settings.footerText}
+                            onChange={(e) => update({ footerText: e.target.value })}
+                        />
+                        <div className="text-xs text-gray-500 mt-1">Use {'{page}'}, {'{pages}'}, {'{date}'} and {'{sheet}'}.</div>
+                    </div>
+                    <CFormCheck
+                        id="pageSetupPageNumbers"
+                        label='Show "Page x of y" in the footer'
+                        checked={settings.showPageNumbers}
+                        onChange={(e) => update({ showPageNumbers: e.target.checked })}
+                    />
+                </>
+            )}
+        </div>
+    );
+};
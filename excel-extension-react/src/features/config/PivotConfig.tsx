@@ -29,12 +29,15 @@ import {
     CModalBody,
     CButton
 } from '@coreui/react';
-import type { Column, MetricGroup, ConditionalFormatRule } from '../../types';
+import type { Column, MetricGroup, ConditionalFormatRule, CustomFieldDefinition, SortSettings } from '../../types';
 import { SortableItem } from '../../components/ui/SortableItem';
 import { MetricGroups } from './MetricGroups';
-import { Layers, Settings } from 'lucide-react';
+import { Layers, Settings, Plus } from 'lucide-react';
 import { ConditionalFormattingEditor } from './ConditionalFormattingEditor';
 import { NumberFormatEditor } from './NumberFormatEditor';
+import { CalculatedFieldEditor } from './CalculatedFieldEditor';
+import { SortEditor } from './SortEditor';
+import { ColumnWidthEditor } from './ColumnWidthEditor';
 
 
 interface PivotConfigProps {
@@ -49,10 +52,11 @@ interface PivotConfigProps {
     onAddGroup: () => void;
     onRemoveGroup: (id: number) => void;
     onUpdateGroup: (id: number, updates: Partial<MetricGroup>) => void;
-    onAddCustomField: (name: string, def: any) => void;
+    onAddCustomField: (name: string, def: CustomFieldDefinition) => void;
     onDeleteCustomField: (fieldId: string) => void;
-    onUpdateCustomField: (fieldId: string, name: string, def: any) => void;
+    onUpdateCustomField: (fieldId: string, name: string, def: CustomFieldDefinition) => void;
     onConfigureTotals: () => void;
+    onLoadMembers?: (fieldId: string) => Promise<string[]>;
 }
 
 type ContainerId = 'available' | 'group' | 'pivot' | 'value';
@@ -65,6 +69,7 @@ const DroppableContainer: React.FC<{ id: string; children: React.ReactNode }> =
 
 export const PivotConfig: React.FC<PivotConfigProps> = ({
     availableColumns,
+    allFields,
     groupColumns,
     pivotColumns,
     valueColumns,
@@ -73,7 +78,11 @@ export const PivotConfig: React.FC<PivotConfigProps> = ({
     onAddGroup,
     onRemoveGroup,
     onUpdateGroup,
-    onConfigureTotals
+    onAddCustomField,
+    onDeleteCustomField,
+    onUpdateCustomField,
+    onConfigureTotals,
+    onLoadMembers
 }) => {
     const [activeId, setActiveId] = useState<string | null>(null);
     const [showMetricModal, setShowMetricModal] = useState(false);
@@ -87,6 +96,18 @@ export const PivotConfig: React.FC<PivotConfigProps> = ({
     const [showNumberFormatModal, setShowNumberFormatModal] = useState(false);
     const [numberFormattingField, setNumberFormattingField] = useState<Column | null>(null);
 
+    // Sort State
+    const [sortingField, setSortingField] = useState<Column | null>(null);
+    const [sortingSection, setSortingSection] = useState<'group' | 'pivot' | null>(null);
+
+    // Column Width State
+    const [widthField, setWidthField] = useState<Column | null>(null);
+    const [widthSection, setWidthSection] = useState<'group' | 'value' | null>(null);
+
+    // Calculated Field State
+    const [showCalculatedFieldModal, setShowCalculatedFieldModal] = useState(false);
+    const [editingCustomField, setEditingCustomField] = useState<Column | null>(null);
+
     const [containers, setContainers] = useState<{ [key in ContainerId]: Column[] }>({
         available: availableColumns,
         group: groupColumns,
@@ -241,6 +262,47 @@ export const PivotConfig: React.FC<PivotConfigProps> = ({
         setNumberFormattingField(null);
     };
 
+    const handleSort = (col: Column, section: 'group' | 'pivot') => {
+        setSortingField(col);
+        setSortingSection(section);
+    };
+
+    const handleSaveSort = (sort: SortSettings) => {
+        if (!sortingField || !sortingSection) return;
+
+        const updatedCols = containers[sortingSection].map(c =>
+            c.id === sortingField.id ? { ...c, sort } : c
+        );
+        onUpdate(sortingSection, updatedCols);
+    };
+
+    const handleWidth = (col: Column, section: 'group' | 'value') => {
+        setWidthField(col);
+        setWidthSection(section);
+    };
+
+    const handleSaveWidth = (width?: number) => {
+        if (!widthField || !widthSection) return;
+
+        const updatedCols = containers[widthSection].map(c =>
+            c.id === widthField.id ? { ...c, width } : c
+        );
+        onUpdate(widthSection, updatedCols);
+    };
+
+    const handleEditCustomField = (col: Column | null) => {
+        setEditingCustomField(col);
+        setShowCalculatedFieldModal(true);
+    };
+
+    const handleSaveCustomField = (name: string, def: CustomFieldDefinition) => {
+        if (editingCustomField) {
+            onUpdateCustomField(editingCustomField.id, name, def);
+        } else {
+            onAddCustomField(name, def);
+        }
+    };
+
     const renderList = (title: string, containerId: ContainerId, items: Column[], headerAction?: React.ReactNode) => (
         <DroppableContainer id={containerId}>
             <CCard className="h-full shadow-sm flex flex-col">
@@ -264,14 +326,18 @@ export const PivotConfig: React.FC<PivotConfigProps> = ({
                                     key={col.id}
                                     id={col.id}
                                     name={col.name}
-                                    showEdit={false}
-                                    onEdit={() => { }}
-                                    showDelete={false}
-                                    onDelete={() => { }}
+                                    showEdit={!!col.isCustom}
+                                    onEdit={() => handleEditCustomField(col)}
+                                    showDelete={!!col.isCustom}
+                                    onDelete={() => onDeleteCustomField(col.id)}
                                     showFormat={containerId !== 'available'}
                                     onFormat={() => handleFormat(col, containerId as 'group' | 'pivot' | 'value')}
                                     showNumberFormat={containerId !== 'available'}
                                     onNumberFormat={() => handleNumberFormat(col)}
+                                    showSort={containerId === 'group' || containerId === 'pivot'}
+                                    onSort={() => handleSort(col, containerId as 'group' | 'pivot')}
+                                    showWidth={containerId === 'group' || containerId === 'value'}
+                                    onWidth={() => handleWidth(col, containerId as 'group' | 'value')}
                                 />
                             ))
                         )}
@@ -291,7 +357,17 @@ export const PivotConfig: React.FC<PivotConfigProps> = ({
             >
                 <CRow className="g-4 h-full">
                     <CCol md={3} className="h-full">
-                        {renderList('Available Columns', 'available', containers.available)}
+                        {renderList('Available Columns', 'available', containers.available, (
+                            <CButton
+                                color="light"
+                                size="sm"
+                                className="p-1 text-gray-500 hover:text-epsilon-blue hover:bg-blue-50"
+                                onClick={() => handleEditCustomField(null)}
+                                title="Add Calculated Field"
+                            >
+                                <Plus size={16} />
+                            </CButton>
+                        ))}
                     </CCol>
                     <CCol md={3} className="h-full">
                         {renderList('Rows (Group By)', 'group', containers.group)}
@@ -374,6 +450,39 @@ export const PivotConfig: React.FC<PivotConfigProps> = ({
                 onSave={handleSaveNumberFormat}
                 column={numberFormattingField}
             />
+
+            <SortEditor
+                visible={!!sortingField}
+                onClose={() => {
+                    setSortingField(null);
+                    setSortingSection(null);
+                }}
+                onSave={handleSaveSort}
+                column={sortingField}
+                valueColumns={valueColumns}
+                onLoadMembers={onLoadMembers}
+            />
+
+            <ColumnWidthEditor
+                visible={!!widthField}
+                onClose={() => {
+                    setWidthField(null);
+                    setWidthSection(null);
+                }}
+                onSave={handleSaveWidth}
+                column={widthField}
+            />
+
+            <CalculatedFieldEditor
+                visible={showCalculatedFieldModal}
+                onClose={() => {
+                    setShowCalculatedFieldModal(false);
+                    setEditingCustomField(null);
+                }}
+                onSave={handleSaveCustomField}
+                field={editingCustomField}
+                allFields={allFields}
+            />
         </>
     );
 };
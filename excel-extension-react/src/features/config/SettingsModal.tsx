@@ -12,6 +12,11 @@ import {
 } from '@coreui/react';
 import type { Config, Column } from '../../types';
 import { HeaderEditor } from './HeaderEditor';
+import { UnderlyingDataPicker } from './UnderlyingDataPicker';
+import { PageSetupEditor } from './PageSetupEditor';
+import { FlatExcelOptions } from './FlatExcelOptions';
+import { FileFormatSelect } from './FileFormatSelect';
+import { DEFAULT_SUMMARY_PAGE_SIZE } from '../../utils/dataFetcher';
 
 interface SettingsModalProps {
     visible: boolean;
@@ -74,6 +79,73 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                                     checked={localConfig.exportMode === 'formatted'}
                                     onChange={() => handleUpdateLocal({ exportMode: 'formatted' })}
                                 />
+                                {localConfig.exportMode === 'formatted' && (
+                                    <div className="mt-1">
+                                        <CFormLabel className="text-xs text-gray-500 mb-1">File Format</CFormLabel>
+                                        <div className="flex gap-4">
+                                            <CFormCheck
+                                                type="radio"
+                                                name="formattedFormat"
+                                                id="formattedExcel"
+                                                label="Excel"
+                                                checked={!localConfig.formattedFormat || localConfig.formattedFormat === 'excel'}
+                                                onChange={() => handleUpdateLocal({ formattedFormat: 'excel' })}
+                                            />
+                                            <CFormCheck
+                                                type="radio"
+                                                name="formattedFormat"
+                                                id="formattedPdf"
+                                                label="PDF"
+                                                checked={localConfig.formattedFormat === 'pdf'}
+                                                onChange={() => handleUpdateLocal({ formattedFormat: 'pdf' })}
+                                            />
+                                            <CFormCheck
+                                                type="radio"
+                                                name="formattedFormat"
+                                                id="formattedBoth"
+                                                label="Excel + PDF"
+                                                checked={localConfig.formattedFormat === 'both'}
+                                                onChange={() => handleUpdateLocal({ formattedFormat: 'both' })}
+                                            />
+                                            <CFormCheck
+                                                type="radio"
+                                                name="formattedFormat"
+                                                id="formattedHtml"
+                                                label="HTML"
+                                                checked={localConfig.formattedFormat === 'html'}
+                                                onChange={() => handleUpdateLocal({ formattedFormat: 'html' })}
+                                            />
+                                        </div>
+                                    </div>
+                                )}
+                                {localConfig.exportMode === 'formatted' && localConfig.formattedFormat !== 'pdf' && localConfig.formattedFormat !== 'html' && (
+                                    <div className="mt-1">
+                                        <CFormLabel className="text-xs text-gray-500 mb-1">Pivot Output</CFormLabel>
+                                        <div className="flex flex-col gap-1">
+                                            <CFormCheck
+                                                type="radio"
+                                                name="pivotTableOutput"
+                                                id="pivotOutputStatic"
+                                                label="Formatted cross-tab"
+                                                checked={localConfig.pivotTableOutput !== 'native'}
+                                                onChange={() => handleUpdateLocal({ pivotTableOutput: 'static' })}
+                                            />
+                                            <CFormCheck
+                                                type="radio"
+                                                name="pivotTableOutput"
+                                                id="pivotOutputNative"
+                                                label="Excel PivotTable (source rows on a hidden sheet)"
+                                                checked={localConfig.pivotTableOutput === 'native'}
+                                                onChange={() => handleUpdateLocal({ pivotTableOutput: 'native' })}
+                                            />
+                                        </div>
+                                        {localConfig.pivotTableOutput === 'native' && (
+                                            <div className="text-xs text-gray-500 mt-1">
+                                                Excel builds the pivot when the file is opened. Conditional formatting, header styling and custom formula fields do not apply. Some Excel versions may still offer to repair the file; the PivotTable can then be recreated from the hidden source sheet.
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
                                 <CFormCheck
                                     type="radio"
                                     name="exportMode"
@@ -87,6 +159,40 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                                     checked={localConfig.exportMode === 'datadump'}
                                     onChange={() => handleUpdateLocal({ exportMode: 'datadump' })}
                                 />
+                                {localConfig.exportMode === 'datadump' && (
+                                    <div className="space-y-3 mt-1">
+                                        <FileFormatSelect
+                                            value={localConfig.datadumpFormat}
+                                            onChange={(format) => handleUpdateLocal({ datadumpFormat: format })}
+                                        />
+                                        {localConfig.datadumpFormat === 'excel' && (
+                                            <FlatExcelOptions config={localConfig} onUpdate={handleUpdateLocal} />
+                                        )}
+                                    </div>
+                                )}
+                                <CFormCheck
+                                    type="radio"
+                                    name="exportMode"
+                                    id="modeUnderlying"
+                                    label={
+                                        <span>
+                                            <span className="font-semibold">Underlying Data</span>
+                                            <span className="block text-xs text-gray-500 mt-1">Row-level records of a logical table behind the view</span>
+                                        </span>
+                                    }
+                                    checked={localConfig.exportMode === 'underlying'}
+                                    onChange={() => handleUpdateLocal({ exportMode: 'underlying' })}
+                                />
+                                {localConfig.exportMode === 'underlying' && (
+                                    <UnderlyingDataPicker
+                                        worksheetName={localConfig.selectedWorksheet}
+                                        config={localConfig}
+                                        onUpdate={handleUpdateLocal}
+                                    />
+                                )}
+                                {localConfig.exportMode === 'underlying' && localConfig.underlyingFormat === 'excel' && (
+                                    <FlatExcelOptions config={localConfig} onUpdate={handleUpdateLocal} />
+                                )}
                             </div>
                         </div>
 
@@ -103,6 +209,32 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                                         onChange={(e) => handleUpdateLocal({ workbookName: e.target.value })}
                                     />
                                 </div>
+                                <div>
+                                    <CFormLabel className="text-xs text-gray-500 mb-1">Workbook Format</CFormLabel>
+                                    <div className="flex gap-4">
+                                        <CFormCheck
+                                            type="radio"
+                                            name="spreadsheetFormat"
+                                            id="spreadsheetXlsx"
+                                            label="Excel (.xlsx)"
+                                            checked={localConfig.spreadsheetFormat !== 'ods'}
+                                            onChange={() => handleUpdateLocal({ spreadsheetFormat: 'xlsx' })}
+                                        />
+                                        <CFormCheck
+                                            type="radio"
+                                            name="spreadsheetFormat"
+                                            id="spreadsheetOds"
+                                            label="OpenDocument (.ods)"
+                                            checked={localConfig.spreadsheetFormat === 'ods'}
+                                            onChange={() => handleUpdateLocal({ spreadsheetFormat: 'ods' })}
+                                        />
+                                    </div>
+                                    {localConfig.spreadsheetFormat === 'ods' && (
+                                        <div className="text-xs text-gray-500 mt-1">
+                                            All Excel sheets of the export are written to one .ods file for LibreOffice. Pivots are written as formatted cross-tabs with static conditional formatting.
+                                        </div>
+                                    )}
+                                </div>
                                 <div>
                                     <CFormLabel className="text-xs text-gray-500 mb-1">Worksheet Name (Optional)</CFormLabel>
                                     <CFormInput
@@ -112,6 +244,20 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                                         onChange={(e) => handleUpdateLocal({ worksheetName: e.target.value })}
                                     />
                                 </div>
+                                {localConfig.exportMode === 'formatted' && localConfig.formattedFormat !== 'pdf' && localConfig.formattedFormat !== 'html' && localConfig.pivotTableOutput !== 'native' && (
+                                    <div>
+                                        <CFormLabel className="text-xs text-gray-500 mb-1">Stack On Excel Tab (Optional)</CFormLabel>
+                                        <CFormInput
+                                            type="text"
+                                            placeholder="e.g., Summary"
+                                            value={localConfig.stackedSheetName || ''}
+                                            onChange={(e) => handleUpdateLocal({ stackedSheetName: e.target.value })}
+                                        />
+                                        <div className="text-xs text-gray-500 mt-1">
+                                            Worksheets with the same tab name are written one below the other on that tab, in export order.
+                                        </div>
+                                    </div>
+                                )}
                             </div>
                         </div>
 
@@ -170,6 +316,114 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                                 </div>
                             </div>
                         </div>
+
+                        {/* Conditional Formatting Output */}
+                        <div>
+                            <h5 className="mb-3 font-semibold text-gray-700">Conditional Formatting</h5>
+                            <div className="flex flex-col gap-3 p-4 bg-gray-50 rounded-lg border border-gray-200">
+                                <CFormCheck
+                                    type="radio"
+                                    name="conditionalFormattingMode"
+                                    id="cfModeNative"
+                                    label={
+                                        <span>
+                                            <span className="font-semibold">Excel Rules</span>
+                                            <span className="block text-xs text-gray-500 mt-1">Value rules stay live and update when cells are edited</span>
+                                        </span>
+                                    }
+                                    checked={localConfig.conditionalFormattingMode === 'native'}
+                                    onChange={() => handleUpdateLocal({ conditionalFormattingMode: 'native' })}
+                                />
+                                <CFormCheck
+                                    type="radio"
+                                    name="conditionalFormattingMode"
+                                    id="cfModeStatic"
+                                    label={
+                                        <span>
+                                            <span className="font-semibold">Static Colors</span>
+                                            <span className="block text-xs text-gray-500 mt-1">Colors are fixed as shown in the preview</span>
+                                        </span>
+                                    }
+                                    checked={localConfig.conditionalFormattingMode !== 'native'}
+                                    onChange={() => handleUpdateLocal({ conditionalFormattingMode: 'static' })}
+                                />
+                            </div>
+                        </div>
+
+                        {/* Page Setup */}
+                        {((localConfig.exportMode === 'formatted' && localConfig.formattedFormat !== 'html') ||
+                            (localConfig.exportMode === 'datadump' && localConfig.datadumpFormat === 'excel') ||
+                            (localConfig.exportMode === 'underlying' && localConfig.underlyingFormat === 'excel')) && (
+                            <div>
+                                <h5 className="mb-3 font-semibold text-gray-700">Page Setup</h5>
+                                <PageSetupEditor
+                                    pageSetup={localConfig.pageSetup}
+                                    onUpdate={(pageSetup) => handleUpdateLocal({ pageSetup })}
+                                />
+                            </div>
+                        )}
+
+                        {/* Column Widths */}
+                        <div>
+                            <h5 className="mb-3 font-semibold text-gray-700">Column Widths</h5>
+                            <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+                                <div className="grid grid-cols-2 gap-3">
+                                    <div>
+                                        <CFormLabel className="text-xs text-gray-500 mb-1">Minimum</CFormLabel>
+                                        <CFormInput
+                                            type="number"
+                                            min={1}
+                                            max={255}
+                                            value={localConfig.columnWidthMin ?? 8}
+                                            onChange={(e) => handleUpdateLocal({ columnWidthMin: Math.min(255, Math.max(1, parseInt(e.target.value, 10) || 8)) })}
+                                        />
+                                    </div>
+                                    <div>
+                                        <CFormLabel className="text-xs text-gray-500 mb-1">Maximum</CFormLabel>
+                                        <CFormInput
+                                            type="number"
+                                            min={1}
+                                            max={255}
+                                            value={localConfig.columnWidthMax ?? 50}
+                                            onChange={(e) => handleUpdateLocal({ columnWidthMax: Math.min(255, Math.max(1, parseInt(e.target.value, 10) || 50)) })}
+                                        />
+                                    </div>
+                                </div>
+                                <div className="text-xs text-gray-500 mt-2">
+                                    Excel columns are sized to their content within these limits (in characters).
+                                    Set a fixed width on a single column from its width button.
+                                </div>
+                            </div>
+                        </div>
+
+                        {/* Data Fetching */}
+                        <div>
+                            <h5 className="mb-3 font-semibold text-gray-700">Data Fetching</h5>
+                            <div className="space-y-3 p-4 bg-gray-50 rounded-lg border border-gray-200">
+                                <div>
+                                    <CFormLabel className="text-xs text-gray-500 mb-1">Page Size (rows)</CFormLabel>
+                                    <CFormInput
+                                        type="number"
+                                        min={1000}
+                                        step={1000}
+                                        value={localConfig.summaryPageSize ?? DEFAULT_SUMMARY_PAGE_SIZE}
+                                        onChange={(e) => handleUpdateLocal({ summaryPageSize: Math.max(1, parseInt(e.target.value, 10) || DEFAULT_SUMMARY_PAGE_SIZE) })}
+                                    />
+                                    <div className="text-xs text-gray-500 mt-1">Rows read from Tableau per request. Smaller pages use less memory.</div>
+                                </div>
+                                <div>
+                                    <CFormLabel className="text-xs text-gray-500 mb-1">Row Limit</CFormLabel>
+                                    <CFormInput
+                                        type="number"
+                                        min={0}
+                                        step={1000}
+                                        value={localConfig.maxExportRows ?? 0}
+                                        onChange={(e) => handleUpdateLocal({ maxExportRows: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                                    />
+                                    <div className="text-xs text-gray-500 mt-1">Stop reading after this many rows. 0 exports all rows.</div>
+                                </div>
+                            </div>
+                        </div>
                     </div>
 
                     {/* Right Column: Header Configuration */}
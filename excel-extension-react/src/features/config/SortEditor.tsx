@@ -0,0 +1,192 @@
+import React, { useState, useEffect } from 'react';
+import {
+    DndContext,
+    closestCenter,
+    KeyboardSensor,
+    PointerSensor,
+    useSensor,
+    useSensors,
+    type DragEndEvent
+} from '@dnd-kit/core';
+import {
+    SortableContext,
+    sortableKeyboardCoordinates,
+    verticalListSortingStrategy,
+    arrayMove
+} from '@dnd-kit/sortable';
+import {
+    CModal,
+    CModalHeader,
+    CModalTitle,
+    CModalBody,
+    CModalFooter,
+    CButton,
+    CFormLabel,
+    CFormSelect,
+    CSpinner
+} from '@coreui/react';
+import type { Column, SortSettings } from '../../types';
+import { SortableItem } from '../../components/ui/SortableItem';
+import { DEFAULT_SORT, compareMembers } from '../../utils/sortHelper';
+
+interface SortEditorProps {
+    visible: boolean;
+    onClose: () => void;
+    onSave: (sort: SortSettings) => void;
+    column: Column | null;
+    valueColumns: Column[];
+    onLoadMembers?: (fieldId: string) => Promise<string[]>;
+}
+
+export const SortEditor: React.FC<SortEditorProps> = ({
+    visible, onClose, onSave, column, valueColumns, onLoadMembers
+}) => {
+    const [sort, setSort] = useState<SortSettings>(DEFAULT_SORT);
+    const [members, setMembers] = useState<string[]>([]);
+    const [membersLoadedFor, setMembersLoadedFor] = useState<Column | null>(null);
+
+    // Formula fields have no per-member totals to sort by
+    const sortableValueColumns = valueColumns.filter(c => !c.formula);
+
+    // Start from the column's sort each time the editor opens
+    const [openedWith, setOpenedWith] = useState({ visible: false, column: null as Column | null });
+    if (openedWith.visible !== visible || openedWith.column !== column) {
+        setOpenedWith({ visible, column });
+        if (visible && column) {
+            setSort(column.sort || DEFAULT_SORT);
+            setMembers(column.sort?.manualOrder || []);
+            setMembersLoadedFor(null);
+        }
+    }
+
+    // Load the field's members the first time manual order is shown
+    const loadingMembers = visible && !!column && sort.method === 'manual' && !!onLoadMembers && membersLoadedFor !== column;
+
+    useEffect(() => {
+        if (!loadingMembers || !column || !onLoadMembers) return;
+
+        let cancelled = false;
+        onLoadMembers(column.id)
+            .then(loaded => {
+                if (cancelled) return;
+                setMembers(prev => {
+                    // Keep the saved order and append members that are new in the data
+                    const known = prev.filter(m => loaded.includes(m));
+                    const added = loaded
+                        .filter(m => !known.includes(m))
+                        .sort((a, b) => compareMembers(a, b, DEFAULT_SORT));
+                    return [...known, ...added];
+                });
+            })
+            .catch(error => console.error('Error loading members for sort:', error))
+            .finally(() => {
+                if (!cancelled) setMembersLoadedFor(column);
+            });
+
+        return () => { cancelled = true; };
+    }, [loadingMembers, column, onLoadMembers]);
+
+    const sensors = useSensors(
+        useSensor(PointerSensor),
+        useSensor(KeyboardSensor, {
+            coordinateGetter: sortableKeyboardCoordinates,
+        })
+    );
+
+    const handleDragEnd = (event: DragEndEvent) => {
+        const { active, over } = event;
+        if (!over || active.id === over.id) return;
+        const oldIndex = members.indexOf(active.id as string);
+        const newIndex = members.indexOf(over.id as string);
+        if (oldIndex !== -1 && newIndex !== -1) {
+            setMembers(arrayMove(members, oldIndex, newIndex));
+        }
+    };
+
+    const handleSave = () => {
+        const next: SortSettings = { direction: sort.direction, method: sort.method };
+        if (sort.method === 'value') next.valueColumnId = sort.valueColumnId || sortableValueColumns[0]?.id;
+        if (sort.method === 'manual') next.manualOrder = members;
+        onSave(next);
+        onClose();
+    };
+
+    return (
+        <CModal visible={visible} onClose={onClose}>
+            <CModalHeader>
+                <CModalTitle>Sort Order - {column?.name}</CModalTitle>
+            </CModalHeader>
+            <CModalBody>
+                <div className="mb-3">
+                    <CFormLabel>Sort By</CFormLabel>
+                    <CFormSelect
+                        value={sort.method}
+                        onChange={(e) => setSort({ ...sort, method: e.target.value as SortSettings['method'] })}
+                    >
+                        <option value="natural">Natural (A-Z, 2 before 10)</option>
+                        <option value="numeric">Numeric</option>
+                        <option value="date">Date (also month and weekday names)</option>
+                        <option value="value" disabled={sortableValueColumns.length === 0}>Value Total</option>
+                        <option value="manual">Manual</option>
+                    </CFormSelect>
+                </div>
+
+                <div className="mb-3">
+                    <CFormLabel>Direction</CFormLabel>
+                    <CFormSelect
+                        value={sort.direction}
+                        onChange={(e) => setSort({ ...sort, direction: e.target.value as SortSettings['direction'] })}
+                    >
+                        <option value="asc">Ascending</option>
+                        <option value="desc">Descending</option>
+                    </CFormSelect>
+                </div>
+
+                {sort.method === 'value' && (
+                    <div className="mb-3">
+                        <CFormLabel>Value Column</CFormLabel>
+                        <CFormSelect
+                            value={sort.valueColumnId || sortableValueColumns[0]?.id || ''}
+                            onChange={(e) => setSort({ ...sort, valueColumnId: e.target.value })}
+                        >
+                            {sortableValueColumns.map(vc => (
+                                <option key={vc.id} value={vc.id}>{vc.name}</option>
+                            ))}
+                        </CFormSelect>
+                        <div className="text-xs text-gray-500 mt-1">
+                            Members are ordered by the sum of this value column.
+                        </div>
+                    </div>
+                )}
+
+                {sort.method === 'manual' && (
+                    <div className="mb-3">
+                        <CFormLabel>Member Order</CFormLabel>
+                        <div className="text-xs text-gray-500 mb-2">
+                            Drag members into order. Members not in the list are placed after them.
+                        </div>
+                        {loadingMembers && members.length === 0 ? (
+                            <div className="text-center py-4"><CSpinner size="sm" /></div>
+                        ) : members.length === 0 ? (
+                            <div className="text-center text-gray-400 text-sm py-4">No members found</div>
+                        ) : (
+                            <div className="max-h-72 overflow-y-auto bg-gray-50 p-2 rounded border">
+                                <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+                                    <SortableContext items={members} strategy={verticalListSortingStrategy}>
+                                        {members.map(member => (
+                                            <SortableItem key={member} id={member} name={member} />
+                                        ))}
+                                    </SortableContext>
+                                </DndContext>
+                            </div>
+                        )}
+                    </div>
+                )}
+            </CModalBody>
+            <CModalFooter>
+                <CButton color="secondary" onClick={onClose}>Close</CButton>
+                <CButton color="primary" onClick={handleSave}>Save</CButton>
+            </CModalFooter>
+        </CModal>
+    );
+};
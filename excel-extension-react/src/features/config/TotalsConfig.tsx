@@ -7,10 +7,12 @@ import {
     CCol,
     CFormSwitch,
     CFormSelect,
-    CFormLabel
+    CFormLabel,
+    CFormCheck,
+    CFormInput
 } from '@coreui/react';
 import { Settings } from 'lucide-react';
-import type { Config } from '../../types';
+import type { Config, Column, TotalAggregation } from '../../types';
 
 interface TotalsConfigProps {
     showRowTotals: boolean;
@@ -18,6 +20,15 @@ interface TotalsConfigProps {
     showColumnTotals: boolean;
     columnTotalsPosition: 'top' | 'bottom';
     showSubtotals: boolean;
+    groupColumns: Column[];
+    subtotalLevels: number[];
+    subtotalLabels: Record<number, string>;
+    useCustomSubtotalLabels: boolean;
+    totalsAsFormulas: boolean;
+    valueColumns: Column[];
+    selectedWorksheet: string;
+    hasRowTotalsSheet: boolean;    // RC_<sheet> exists on the dashboard
+    hasColumnTotalsSheet: boolean; // GC_<sheet> exists on the dashboard
     onUpdate: (updates: Partial<Config>) => void;
 }
 
@@ -27,8 +38,40 @@ export const TotalsConfig: React.FC<TotalsConfigProps> = ({
     showColumnTotals,
     columnTotalsPosition,
     showSubtotals,
+    groupColumns,
+    subtotalLevels,
+    subtotalLabels,
+    useCustomSubtotalLabels,
+    totalsAsFormulas,
+    valueColumns,
+    selectedWorksheet,
+    hasRowTotalsSheet,
+    hasColumnTotalsSheet,
     onUpdate
 }) => {
+    // The innermost group never gets a subtotal (it would repeat the detail row)
+    const subtotalCandidates = groupColumns.slice(0, -1);
+    // No explicit selection means every level
+    const isLevelSelected = (level: number) => subtotalLevels.length === 0 || subtotalLevels.includes(level);
+
+    const toggleLevel = (level: number, checked: boolean) => {
+        const current = subtotalLevels.length === 0 ? subtotalCandidates.map((_, idx) => idx) : subtotalLevels;
+        const next = checked ? [...current, level] : current.filter(l => l !== level);
+        onUpdate({ subtotalLevels: Array.from(new Set(next)).sort((a, b) => a - b) });
+    };
+
+    const updateAggregation = (columnId: string, totalAggregation: TotalAggregation) => {
+        onUpdate({ valueColumns: valueColumns.map(c => c.id === columnId ? { ...c, totalAggregation } : c) });
+    };
+
+    const renderSource = (hasSheet: boolean, prefix: 'RC' | 'GC') => (
+        <div className="text-xs text-gray-500 mt-2">
+            {hasSheet
+                ? <>Source: <span className="font-medium">{prefix}_{selectedWorksheet}</span> worksheet</>
+                : <>Source: calculated from the worksheet data (no {prefix}_{selectedWorksheet} worksheet found)</>}
+        </div>
+    );
+
     return (
         <CCard className="mt-4 shadow-sm">
             <CCardHeader className="bg-white font-semibold text-epsilon-blue flex items-center gap-2">
@@ -59,6 +102,7 @@ export const TotalsConfig: React.FC<TotalsConfigProps> = ({
                                     <option value="right">Right (End)</option>
                                     <option value="left">Left (Start)</option>
                                 </CFormSelect>
+                                {renderSource(hasRowTotalsSheet, 'RC')}
                             </div>
                         )}
                     </CCol>
@@ -85,6 +129,7 @@ export const TotalsConfig: React.FC<TotalsConfigProps> = ({
                                     <option value="bottom">Bottom (End)</option>
                                     <option value="top">Top (Start)</option>
                                 </CFormSelect>
+                                {renderSource(hasColumnTotalsSheet, 'GC')}
                             </div>
                         )}
                     </CCol>
@@ -99,13 +144,92 @@ export const TotalsConfig: React.FC<TotalsConfigProps> = ({
                                 onChange={(e) => onUpdate({ showSubtotals: e.target.checked })}
                             />
                         </div>
-                        {showSubtotals && (
+                        {showSubtotals && subtotalCandidates.length === 0 && (
                             <div className="ms-4 text-xs text-gray-500">
-                                Subtotals will be displayed for each group level.
+                                Add at least two row groups to display subtotals.
+                            </div>
+                        )}
+                        {showSubtotals && subtotalCandidates.length > 0 && (
+                            <div className="ms-4 space-y-2">
+                                <CFormLabel className="text-sm text-gray-600 mb-0">Subtotal after each</CFormLabel>
+                                {subtotalCandidates.map((col, level) => (
+                                    <div key={col.id}>
+                                        <CFormCheck
+                                            id={`subtotalLevel-${level}`}
+                                            label={col.name}
+                                            checked={isLevelSelected(level)}
+                                            onChange={(e) => toggleLevel(level, e.target.checked)}
+                                        />
+                                        {useCustomSubtotalLabels && isLevelSelected(level) && (
+                                            <CFormInput
+                                                size="sm"
+                                                className="mt-1"
+                                                placeholder="{value} Total"
+                                                value={subtotalLabels[level] || ''}
+                                                onChange={(e) => onUpdate({ subtotalLabels: { ...subtotalLabels, [level]: e.target.value } })}
+                                            />
+                                        )}
+                                    </div>
+                                ))}
+                                <CFormSwitch
+                                    label="Custom Labels"
+                                    id="useCustomSubtotalLabels"
+                                    checked={useCustomSubtotalLabels}
+                                    onChange={(e) => onUpdate({ useCustomSubtotalLabels: e.target.checked })}
+                                />
+                                {useCustomSubtotalLabels && (
+                                    <div className="text-xs text-gray-500">
+                                        Use {'{value}'} to insert the group value.
+                                    </div>
+                                )}
                             </div>
                         )}
                     </CCol>
                 </CRow>
+
+                {/* Aggregation for locally calculated totals */}
+                {valueColumns.length > 0 && (showSubtotals || (showRowTotals && !hasRowTotalsSheet) || (showColumnTotals && !hasColumnTotalsSheet)) && (
+                    <div className="mt-4 pt-3 border-t">
+                        <CFormLabel className="text-sm text-gray-600 mb-1">Total Aggregation</CFormLabel>
+                        <div className="text-xs text-gray-500 mb-2">
+                            Used for subtotals and for totals calculated from the worksheet data.
+                        </div>
+                        <CRow className="g-2">
+                            {valueColumns.filter(col => !col.formula).map(col => (
+                                <CCol md={4} key={col.id} className="flex items-center gap-2">
+                                    <span className="text-sm truncate flex-1" title={col.name}>{col.name}</span>
+                                    <CFormSelect
+                                        size="sm"
+                                        className="w-auto"
+                                        value={col.totalAggregation || 'sum'}
+                                        onChange={(e) => updateAggregation(col.id, e.target.value as TotalAggregation)}
+                                    >
+                                        <option value="sum">Sum</option>
+                                        <option value="avg">Average</option>
+                                        <option value="min">Minimum</option>
+                                        <option value="max">Maximum</option>
+                                        <option value="count">Count</option>
+                                        <option value="countDistinct">Count Distinct</option>
+                                    </CFormSelect>
+                                </CCol>
+                            ))}
+                        </CRow>
+                    </div>
+                )}
+
+                {/* Excel Output */}
+                <div className="mt-4 pt-3 border-t">
+                    <CFormSwitch
+                        label="Write totals as Excel formulas"
+                        id="totalsAsFormulas"
+                        checked={totalsAsFormulas}
+                        onChange={(e) => onUpdate({ totalsAsFormulas: e.target.checked })}
+                    />
+                    <div className="ms-4 text-xs text-gray-500">
+                        Totals and subtotals become SUM formulas that recalculate when cells are edited in Excel.
+                        Count Distinct totals, custom fields and totals taken from GC_/RC_ worksheets stay as values.
+                    </div>
+                </div>
             </CCardBody>
         </CCard>
     );
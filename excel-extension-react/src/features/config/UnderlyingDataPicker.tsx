@@ -0,0 +1,143 @@
+import React, { useState, useEffect } from 'react';
+import { CFormCheck, CFormLabel, CFormSelect, CSpinner } from '@coreui/react';
+import type { Config } from '../../types';
+import { FileFormatSelect } from './FileFormatSelect';
+import { fetchUnderlyingTables, fetchUnderlyingColumns } from '../../utils/dataFetcher';
+
+interface UnderlyingDataPickerProps {
+    worksheetName: string;
+    config: Config;
+    onUpdate: (updates: Partial<Config>) => void;
+}
+
+/**
+ * Logical table, column and file format selection for 'underlying' exports
+ */
+export const UnderlyingDataPicker: React.FC<UnderlyingDataPickerProps> = ({ worksheetName, config, onUpdate }) => {
+    const [tables, setTables] = useState<Array<{ id: string, caption: string }>>([]);
+    const [columns, setColumns] = useState<Array<{ id: string, name: string }>>([]);
+    // What the lists were last loaded for; loading is derived from these rather than set in the effects
+    const [tablesLoadedFor, setTablesLoadedFor] = useState<string | null>(null);
+    const [columnsLoadedFor, setColumnsLoadedFor] = useState<string | null>(null);
+    const [error, setError] = useState<{ worksheetName: string, message: string } | null>(null);
+
+    const tableId = config.underlyingTableId;
+    const selected = config.underlyingColumns || [];
+    const columnsKey = worksheetName && tableId ? `${worksheetName}|||${tableId}` : null;
+    const loadingTables = !!worksheetName && tablesLoadedFor !== worksheetName;
+    const loadingColumns = !!columnsKey && columnsLoadedFor !== columnsKey;
+
+    useEffect(() => {
+        if (!worksheetName) return;
+
+        let cancelled = false;
+        fetchUnderlyingTables(worksheetName)
+            .then(loaded => {
+                if (!cancelled) setTables(loaded);
+            })
+            .catch(err => {
+                console.error('Error loading logical tables:', err);
+                if (!cancelled) setError({ worksheetName, message: 'Could not load the logical tables for this worksheet.' });
+            })
+            .finally(() => {
+                if (!cancelled) setTablesLoadedFor(worksheetName);
+            });
+
+        return () => { cancelled = true; };
+    }, [worksheetName]);
+
+    // Default to the first logical table (single-table data sources need no choice)
+    useEffect(() => {
+        if (!tableId && tables.length > 0) onUpdate({ underlyingTableId: tables[0].id });
+    }, [tableId, tables, onUpdate]);
+
+    useEffect(() => {
+        if (!worksheetName || !tableId || !columnsKey) return;
+
+        let cancelled = false;
+        fetchUnderlyingColumns(worksheetName, tableId)
+            .then(loaded => {
+                if (!cancelled) setColumns(loaded);
+            })
+            .catch(err => {
+                console.error('Error loading logical table columns:', err);
+                if (!cancelled) setError({ worksheetName, message: 'Could not load the columns of this logical table.' });
+            })
+            .finally(() => {
+                if (!cancelled) setColumnsLoadedFor(columnsKey);
+            });
+
+        return () => { cancelled = true; };
+    }, [worksheetName, tableId, columnsKey]);
+
+    // Errors of a previously selected worksheet are not shown
+    const errorMessage = error?.worksheetName === worksheetName ? error.message : null;
+
+    const toggleColumn = (id: string, checked: boolean) => {
+        // An empty selection means all columns, so start from the full list
+        const current = selected.length > 0 ? selected : columns.map(c => c.id);
+        const next = checked ? [...current, id] : current.filter(c => c !== id);
+        onUpdate({ underlyingColumns: next.length === columns.length ? [] : next });
+    };
+
+    return (
+        <div className="space-y-3 mt-3">
+            {errorMessage && <div className="text-xs text-red-600">{errorMessage}</div>}
+
+            <div>
+                <CFormLabel className="text-xs text-gray-500 mb-1">Logical Table</CFormLabel>
+                {loadingTables ? (
+                    <div><CSpinner size="sm" /></div>
+                ) : (
+                    <CFormSelect
+                        size="sm"
+                        value={tableId || ''}
+                        onChange={(e) => onUpdate({ underlyingTableId: e.target.value, underlyingColumns: [] })}
+                    >
+                        {tables.length === 0 && <option value="">No logical tables found</option>}
+                        {tables.map(t => (
+                            <option key={t.id} value={t.id}>{t.caption}</option>
+                        ))}
+                    </CFormSelect>
+                )}
+            </div>
+
+            <div>
+                <div className="flex items-center justify-between mb-1">
+                    <CFormLabel className="text-xs text-gray-500 mb-0">Columns</CFormLabel>
+                    {selected.length > 0 && (
+                        <button
+                            type="button"
+                            className="text-xs text-blue-600 hover:underline"
+                            onClick={() => onUpdate({ underlyingColumns: [] })}
+                        >
+                            Select all
+                        </button>
+                    )}
+                </div>
+                <div className="max-h-48 overflow-y-auto bg-white rounded border p-2">
+                    {loadingColumns ? (
+                        <div className="text-center py-2"><CSpinner size="sm" /></div>
+                    ) : columns.length === 0 ? (
+                        <div className="text-center text-gray-400 text-xs py-2">No columns</div>
+                    ) : (
+                        columns.map(c => (
+                            <CFormCheck
+                                key={c.id}
+                                id={`underlying-${c.id}`}
+                                label={c.name}
+                                checked={selected.length === 0 || selected.includes(c.id)}
+                                onChange={(e) => toggleColumn(c.id, e.target.checked)}
+                            />
+                        ))
+                    )}
+                </div>
+            </div>
+
+            <FileFormatSelect
+                value={config.underlyingFormat}
+                onChange={(format) => onUpdate({ underlyingFormat: format })}
+            />
+        </div>
+    );
+};
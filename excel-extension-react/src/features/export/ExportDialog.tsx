@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import {
+    DndContext,
+    closestCenter,
+    KeyboardSensor,
+    PointerSensor,
+    useSensor,
+    useSensors,
+    type DragEndEvent
+} from '@dnd-kit/core';
+import {
+    SortableContext,
+    sortableKeyboardCoordinates,
+    verticalListSortingStrategy,
+    arrayMove
+} from '@dnd-kit/sortable';
+import {
+    CModal,
+    CModalHeader,
+    CModalTitle,
+    CModalBody,
+    CModalFooter,
+    CButton
+} from '@coreui/react';
+import type { Config } from '../../types';
+import { SortableItem } from '../../components/ui/SortableItem';
+import { describeSheetOutput } from '../../utils/exportManager';
+import type { ExtensionSettings } from '../../utils/configStorage';
+
+export const EXPORT_SELECTION_SETTINGS_KEY = 'export_selection';
+
+export interface ConfiguredWorksheet {
+    name: string;
+    config: Config;
+}
+
+interface ExportSelection {
+    order: string[]; // Worksheet names in export order
+    unchecked: string[]; // Worksheets left out of the export (new worksheets are included)
+}
+
+interface ExportDialogProps {
+    visible: boolean;
+    onClose: () => void;
+    worksheets: ConfiguredWorksheet[];
+    onExport: (worksheets: ConfiguredWorksheet[]) => void;
+}
+
+function readSelection(settings: ExtensionSettings | undefined): ExportSelection {
+    try {
+        const saved = JSON.parse(settings?.get(EXPORT_SELECTION_SETTINGS_KEY) || '{}');
+        return {
+            order: Array.isArray(saved.order) ? saved.order : [],
+            unchecked: Array.isArray(saved.unchecked) ? saved.unchecked : []
+        };
+    } catch {
+        return { order: [], unchecked: [] };
+    }
+}
+
+/**
+ * Pick the configured worksheets to export and the order of their sheets/files.
+ * The last selection is remembered in the extension settings.
+ */
+export const ExportDialog: React.FC<ExportDialogProps> = ({
+    visible,
+    onClose,
+    worksheets,
+    onExport
+}) => {
+    const [items, setItems] = useState<Array<ConfiguredWorksheet & { checked: boolean }>>([]);
+    const settings: ExtensionSettings | undefined = window.tableau?.extensions?.settings;
+
+    // Apply the remembered order and selection each time the dialog opens; worksheets configured since then go last
+    const [openedWith, setOpenedWith] = useState({ visible: false, worksheets: [] as ConfiguredWorksheet[] });
+    if (openedWith.visible !== visible || (visible && openedWith.worksheets !== worksheets)) {
+        setOpenedWith({ visible, worksheets });
+        if (visible) {
+            const { order, unchecked } = readSelection(settings);
+            const rank = (name: string) => {
+                const idx = order.indexOf(name);
+                return idx === -1 ? order.length : idx;
+            };
+            setItems([...worksheets]
+                .sort((a, b) => rank(a.name) - rank(b.name)) // Stable: new worksheets keep their dashboard order
+                .map(ws => ({ ...ws, checked: !unchecked.includes(ws.name) }))
+            );
+        }
+    }
+
+    const sensors = useSensors(
+        useSensor(PointerSensor),
+        useSensor(KeyboardSensor, {
+            coordinateGetter: sortableKeyboardCoordinates,
+        })
+    );
+
+    const handleDragEnd = (event: DragEndEvent) => {
+        const { active, over } = event;
+        if (!over || active.id === over.id) return;
+        const oldIndex = items.findIndex(i => i.name === active.id);
+        const newIndex = items.findIndex(i => i.name === over.id);
+        if (oldIndex !== -1 && newIndex !== -1) {
+            setItems(arrayMove(items, oldIndex, newIndex));
+        }
+    };
+
+    const setChecked = (name: string, checked: boolean) => {
+        setItems(prev => prev.map(i => i.name === name ? { ...i, checked } : i));
+    };
+
+    const handleExport = () => {
+        const selection: ExportSelection = {
+            order: items.map(i => i.name),
+            unchecked: items.filter(i => !i.checked).map(i => i.name)
+        };
+        if (settings) {
+            settings.set(EXPORT_SELECTION_SETTINGS_KEY, JSON.stringify(selection));
+            // Viewers may not be allowed to save settings; the export goes ahead anyway
+            settings.saveAsync().catch((err: unknown) => console.warn('Could not remember the export selection:', err));
+        }
+        onExport(items.filter(i => i.checked).map(({ name, config }) => ({ name, config })));
+    };
+
+    const checkedCount = items.filter(i => i.checked).length;
+
+    return (
+        <CModal visible={visible} onClose={onClose} alignment="center" scrollable>
+            <CModalHeader>
+                <CModalTitle>Export Worksheets</CModalTitle>
+            </CModalHeader>
+            <CModalBody>
+                <div className="flex items-center justify-between text-xs text-gray-500 mb-2">
+                    <span>Drag worksheets into the order of their sheets and files.</span>
+                    <span className="flex gap-2 shrink-0 ml-2">
+                        <CButton color="link" size="sm" className="p-0 text-xs" onClick={() => setItems(prev => prev.map(i => ({ ...i, checked: true })))}>
+                            All
+                        </CButton>
+                        <CButton color="link" size="sm" className="p-0 text-xs" onClick={() => setItems(prev => prev.map(i => ({ ...i, checked: false })))}>
+                            None
+                        </CButton>
+                    </span>
+                </div>
+                <div className="bg-gray-50 p-2 rounded border">
+                    <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+                        <SortableContext items={items.map(i => i.name)} strategy={verticalListSortingStrategy}>
+                            {items.map(item => {
+                                // Excel tab the worksheet goes to, when it is not named after the worksheet
+                                const tab = item.config.stackedSheetName?.trim() || item.config.worksheetName;
+                                return (
+                                    <SortableItem
+                                        key={item.name}
+                                        id={item.name}
+                                        name={tab ? `${item.name} → ${tab}` : item.name}
+                                        checked={item.checked}
+                                        onCheck={(checked) => setChecked(item.name, checked)}
+                                        badge={describeSheetOutput(item.config)}
+                                    />
+                                );
+                            })}
+                        </SortableContext>
+                    </DndContext>
+                </div>
+            </CModalBody>
+            <CModalFooter>
+                <CButton color="secondary" variant="ghost" onClick={onClose}>
+                    Cancel
+                </CButton>
+                <CButton color="primary" onClick={handleExport} disabled={checkedCount === 0}>
+                    Export {checkedCount} of {items.length}
+                </CButton>
+            </CModalFooter>
+        </CModal>
+    );
+};
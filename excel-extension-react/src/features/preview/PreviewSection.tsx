@@ -1,8 +1,9 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import { CTable, CTableHead, CTableBody, CTableRow, CTableHeaderCell, CTableDataCell, CButton, CModal, CModalHeader, CModalTitle, CModalBody, CModalFooter } from '@coreui/react';
 import type { Config } from '../../types';
 import { processPivotData } from '../../utils/pivotHelper';
 import { formatNumberValue, formatDateValue } from '../../utils/formatValue';
+import { buildPivotHtml, buildPivotText, copyHtmlToClipboard } from '../../utils/exportToHTML';
 
 interface PreviewSectionProps {
     visible: boolean;
@@ -29,7 +30,9 @@ export const PreviewSection: React.FC<PreviewSectionProps> = ({
     filters = [],
     allFields = []
 }) => {
-    const { headerRows, rowHeaders, dataMatrix } = useMemo(() => {
+    const [copyStatus, setCopyStatus] = useState<'idle' | 'copied' | 'error'>('idle');
+
+    const pivotResult = useMemo(() => {
         return processPivotData(
             previewData,
             config.groupColumns,
@@ -40,10 +43,14 @@ export const PreviewSection: React.FC<PreviewSectionProps> = ({
                 rowTotalsPosition: config.rowTotalsPosition,
                 showColumnTotals: config.showColumnTotals,
                 columnTotalsPosition: config.columnTotalsPosition,
-                showSubtotals: config.showSubtotals
+                showSubtotals: config.showSubtotals,
+                subtotalLevels: config.subtotalLevels,
+                subtotalLabels: config.subtotalLabels,
+                useCustomSubtotalLabels: config.useCustomSubtotalLabels
             },
             gcData || undefined,
-            rcData || undefined
+            rcData || undefined,
+            config.metricGroups
         );
     }, [
         previewData,
@@ -56,8 +63,26 @@ export const PreviewSection: React.FC<PreviewSectionProps> = ({
         config.rowTotalsPosition,
         config.showColumnTotals,
         config.columnTotalsPosition,
-        config.showSubtotals
+        config.showSubtotals,
+        config.subtotalLevels,
+        config.subtotalLabels,
+        config.useCustomSubtotalLabels,
+        config.metricGroups
     ]);
+    const { headerRows, rowHeaders, dataMatrix, valueColumns = config.valueColumns, totalsSource } = pivotResult;
+
+    // Copy the previewed pivot as an email-ready HTML table (with a tab-separated text fallback)
+    const handleCopy = async () => {
+        const sheet = { config, pivotResult, filters, allFields, sheetName: config.worksheetName || config.selectedWorksheet };
+        try {
+            await copyHtmlToClipboard({ html: buildPivotHtml(sheet), text: buildPivotText(sheet) });
+            setCopyStatus('copied');
+        } catch (error) {
+            console.error('Copy failed:', error);
+            setCopyStatus('error');
+        }
+        setTimeout(() => setCopyStatus('idle'), 2000);
+    };
 
     // Helper to get header content
     const getHeaderContent = (row: any): string | React.ReactNode => {
@@ -212,7 +237,7 @@ export const PreviewSection: React.FC<PreviewSectionProps> = ({
 
                                         {/* Render Data Cells */}
                                         {dataMatrix[rowIndex]?.map((cell, valIndex) => {
-                                            const valueCol = config.valueColumns[valIndex % config.valueColumns.length];
+                                            const valueCol = valueColumns[valIndex % valueColumns.length];
                                             let formattedValue = cell?.value !== null && cell?.value !== undefined ? String(cell.value) : '';
 
                                             if (valueCol && cell && cell.value !== null && cell.value !== undefined) {
@@ -229,6 +254,11 @@ export const PreviewSection: React.FC<PreviewSectionProps> = ({
                                                     className="text-right"
                                                     style={cell?.style}
                                                 >
+                                                    {cell?.icon && (
+                                                        <span className="mr-1" style={{ color: cell.icon.color }}>
+                                                            {cell.icon.glyph}
+                                                        </span>
+                                                    )}
                                                     {formattedValue}
                                                 </CTableDataCell>
                                             );
@@ -250,6 +280,22 @@ export const PreviewSection: React.FC<PreviewSectionProps> = ({
                 )}
             </CModalBody>
             <CModalFooter>
+                {!isLoading && (totalsSource?.row || totalsSource?.column) && (
+                    <span className="text-xs text-gray-500 me-auto">
+                        {totalsSource.row && <>Row totals: {totalsSource.row === 'companion' ? `RC_${config.selectedWorksheet} worksheet` : 'calculated from data'}. </>}
+                        {totalsSource.column && <>Column totals: {totalsSource.column === 'companion' ? `GC_${config.selectedWorksheet} worksheet` : 'calculated from data'}.</>}
+                    </span>
+                )}
+                {copyStatus === 'copied' && <span className="text-green-600 font-medium">Copied!</span>}
+                {copyStatus === 'error' && <span className="text-red-600 font-medium">Copy failed</span>}
+                <CButton
+                    color="primary"
+                    variant="outline"
+                    onClick={handleCopy}
+                    disabled={isLoading || previewData.length === 0}
+                >
+                    Copy as HTML
+                </CButton>
                 <CButton color="secondary" onClick={onClose}>
                     Close
                 </CButton>
@@ -1,12 +1,35 @@
 import { useState } from 'react';
-import type { Config, Column } from '../types';
+import type { Config, Column, PageSetupSettings } from '../types';
+
+export const defaultPageSetup: PageSetupSettings = {
+    orientation: 'landscape',
+    paperSize: 'letter',
+    margins: 'normal',
+    fitToPagesWide: 1,
+    fitToPagesTall: 0,
+    repeatHeaderRows: true,
+    repeatRowHeaders: false,
+    headerText: '',
+    footerText: '',
+    showPageNumbers: true,
+    setPrintArea: true
+};
 
 export const defaultConfig: Config = {
+    schemaVersion: 1, // CONFIG_SCHEMA_VERSION
     selectedWorksheet: '',
     worksheet: '',
     exportMode: 'formatted',
+    pivotTableOutput: 'static',
+    formattedFormat: 'excel',
+    spreadsheetFormat: 'xlsx',
+    datadumpFormat: 'csv',
+    flatExcelLayout: 'table',
+    flatExcelTableStyle: 'TableStyleMedium2',
+    flatExcelBandedRows: true,
     workbookName: '',
     worksheetName: '',
+    stackedSheetName: '',
     fileName: 'pivot_data',
     sheetName: 'Sheet1',
     headerRowsCount: 0,
@@ -37,7 +60,14 @@ export const defaultConfig: Config = {
         fontColor: '#000000',
         bgColor: '#F3F4F6', // gray-100
         textAlign: 'center'
-    }
+    },
+    conditionalFormattingMode: 'native',
+    totalsAsFormulas: false,
+    summaryPageSize: 10000,
+    maxExportRows: 0,
+    columnWidthMin: 8,
+    columnWidthMax: 50,
+    pageSetup: defaultPageSetup
 };
 
 export const useConfigState = () => {
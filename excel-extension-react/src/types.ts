@@ -44,6 +44,8 @@ export interface IconSetRule {
     type: 'iconSet';
     iconSet: 'arrows' | 'trafficLights' | 'flags' | 'shapes';
     reverse: boolean;
+    thresholdType?: 'percent' | 'number'; // percent = position between column min and max
+    thresholds?: [number, number];        // lower bounds of the middle and top icon
 }
 
 export type ConditionalFormatRule = CellValueRule | TopBottomRule | ColorScaleRule | IconSetRule;
@@ -69,9 +71,28 @@ export interface Column {
     role?: string;
     isCalculatedField?: boolean;
     isCustom?: boolean;
+    formula?: string;                     // Custom field expression, e.g. "[Sales] / [Quantity]"
+    formulaRefs?: Record<string, string>; // Field name used in the formula -> field ID
+    totalAggregation?: TotalAggregation;  // How locally calculated totals combine this column (default sum)
+    sort?: SortSettings;                  // Member order when used as a group or pivot column
     conditionalFormats?: ConditionalFormatRule[];
     numberFormat?: NumberFormat;
     dateFormat?: DateFormat;
+    width?: number;                       // Fixed Excel column width, overrides auto-fit
+}
+
+export interface SortSettings {
+    direction: 'asc' | 'desc';
+    method: 'natural' | 'numeric' | 'date' | 'value' | 'manual';
+    valueColumnId?: string;  // 'value': order members by this value column's total
+    manualOrder?: string[];  // 'manual': listed members first, in this order
+}
+
+export type TotalAggregation = 'sum' | 'avg' | 'min' | 'max' | 'count' | 'countDistinct';
+
+export interface CustomFieldDefinition {
+    formula: string;
+    formulaRefs: Record<string, string>;
 }
 
 export interface MetricGroup {
@@ -112,18 +133,52 @@ export interface HeaderSettings {
     textAlign?: 'left' | 'center' | 'right';
 }
 
+export interface WorksheetFilter {
+    id: string;    // Field name
+    name: string;
+    value: string; // Applied values as shown in the header, e.g. "East, West"
+}
+
 export interface PivotHeaderFormat {
     fontColor: string;
     bgColor: string;
     textAlign: 'left' | 'center' | 'right';
 }
 
+export interface PageSetupSettings {
+    orientation: 'portrait' | 'landscape';
+    paperSize: 'letter' | 'legal' | 'tabloid' | 'a3' | 'a4';
+    margins: 'normal' | 'narrow' | 'wide';
+    fitToPagesWide: number; // 0 = do not fit
+    fitToPagesTall: number; // 0 = as many as needed
+    repeatHeaderRows: boolean; // Print custom header and pivot header rows on every page
+    repeatRowHeaders: boolean; // Print the group columns on every page
+    headerText: string; // Supports {page}, {pages}, {date} and {sheet}
+    footerText: string;
+    showPageNumbers: boolean; // "Page x of y" in the footer
+    setPrintArea: boolean; // Limit printing to the exported table
+}
+
+export type FlatFileFormatId = 'csv' | 'tsv' | 'json' | 'json-split' | 'ndjson' | 'parquet'; // See utils/fileFormats
+
 export interface Config {
+    schemaVersion?: number; // Saved schema version, see utils/configSchema (missing = saved before versioning)
     selectedWorksheet: string;
     worksheet: string;
-    exportMode: 'formatted' | 'datadump';
+    exportMode: 'formatted' | 'datadump' | 'underlying';
+    pivotTableOutput?: 'static' | 'native'; // 'native': Excel PivotTable over a hidden data sheet
+    formattedFormat?: 'excel' | 'pdf' | 'both' | 'html'; // File(s) a 'formatted' sheet is exported to ('both': Excel + PDF)
+    spreadsheetFormat?: 'xlsx' | 'ods'; // Workbook file the Excel sheets are written to ('ods' if any sheet picks it)
+    underlyingTableId?: string; // Logical table for 'underlying' exports
+    underlyingColumns?: string[]; // Field IDs to include (empty = all columns)
+    underlyingFormat?: 'excel' | FlatFileFormatId;
+    datadumpFormat?: 'excel' | FlatFileFormatId;
+    flatExcelLayout?: 'table' | 'autofilter'; // Data dump / underlying data written to Excel
+    flatExcelTableStyle?: string; // Built-in table style, e.g. 'TableStyleMedium2'
+    flatExcelBandedRows?: boolean;
     workbookName?: string;
     worksheetName?: string;
+    stackedSheetName?: string; // Excel tab shared with other formatted sheets of the same name, stacked top to bottom ('' = own tab)
     fileName: string;
     sheetName: string;
     headerRowsCount: number;
@@ -159,4 +214,17 @@ export interface Config {
     fieldRenames: Record<string, string>;
     formatSettings: Record<string, FormatSettings>;
     pivotHeaderFormat: PivotHeaderFormat;
+
+    // 'native' writes value-column rules as Excel conditional formatting, 'static' bakes the fills.
+    // Missing counts as 'static', which is how configs saved before the option were exported.
+    conditionalFormattingMode?: 'native' | 'static';
+    totalsAsFormulas?: boolean; // Write totals and subtotals as SUM formulas in Excel
+
+    summaryPageSize?: number; // Rows per page when reading summary data from Tableau
+    maxExportRows?: number; // Hard cap on rows read per worksheet (0 = no cap)
+
+    columnWidthMin?: number; // Auto-fit limits for Excel column widths (character units)
+    columnWidthMax?: number;
+
+    pageSetup?: PageSetupSettings; // Print layout of formatted Excel sheets
 }
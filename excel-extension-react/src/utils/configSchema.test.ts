@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { CONFIG_SCHEMA_VERSION, ConfigError, migrateConfig, parseConfig, serializeConfig, validateConfig } from './configSchema';
+import { defaultConfig } from '../hooks/useConfigState';
+
+describe('migrateConfig', () => {
+    it('fills the fields missing from configs saved before versioning', () => {
+        const migrated = migrateConfig({
+            worksheet: 'Sales',
+            exportMode: 'formatted',
+            groupColumns: [{ id: 'Region', name: 'Region' }],
+            pivotHeaderFormat: { bgColor: '#FF0000' }
+        });
+
+        expect(migrated.schemaVersion).toBe(CONFIG_SCHEMA_VERSION);
+        expect(migrated.selectedWorksheet).toBe('Sales');
+        expect(migrated.groupColumns).toEqual([{ id: 'Region', name: 'Region' }]);
+        expect(migrated.valueColumns).toEqual([]);
+        expect(migrated.pivotHeaderFormat).toEqual({ ...defaultConfig.pivotHeaderFormat, bgColor: '#FF0000' });
+        expect(validateConfig(migrated)).toEqual([]);
+    });
+
+    it('leaves optional fields missing so they keep their saved behaviour', () => {
+        const migrated = migrateConfig({ worksheet: 'Sales', exportMode: 'formatted' });
+        expect(migrated.conditionalFormattingMode).toBeUndefined();
+        expect(migrated.pageSetup).toBeUndefined();
+    });
+
+    it('does not share default objects between migrated configs', () => {
+        const first = migrateConfig({ exportMode: 'formatted' });
+        const second = migrateConfig({ exportMode: 'formatted' });
+        expect(first.groupColumns).not.toBe(second.groupColumns);
+    });
+
+    it('refuses configs from a newer schema', () => {
+        expect(() => migrateConfig({ schemaVersion: CONFIG_SCHEMA_VERSION + 1 })).toThrow(ConfigError);
+    });
+});
+
+describe('validateConfig', () => {
+    it('reports each problem', () => {
+        const problems = validateConfig({ ...defaultConfig, exportMode: 'everything', groupColumns: [{ name: 'Region' }], showSubtotals: 'yes' });
+        expect(problems).toEqual([
+            '"exportMode" has an unknown value "everything"',
+            '"showSubtotals" should be a boolean',
+            '"groupColumns" contains a field without an id'
+        ]);
+    });
+});
+
+describe('parseConfig', () => {
+    it('round-trips a serialized config', () => {
+        const config = { ...defaultConfig, selectedWorksheet: 'Sales', valueColumns: [{ id: 'SUM(Sales)', name: 'Sales' }] };
+        expect(parseConfig(serializeConfig(config))).toEqual({ ...config, schemaVersion: CONFIG_SCHEMA_VERSION });
+    });
+
+    it('names the worksheet of a corrupt config', () => {
+        expect(() => parseConfig('{"exportMode":', 'Sales')).toThrow('The saved configuration for "Sales" is corrupt: it is not valid JSON.');
+        expect(() => parseConfig('[]')).toThrow('The saved configuration is corrupt: it is not an object.');
+        expect(() => parseConfig(JSON.stringify({ ...defaultConfig, titleAlignment: 'justify' }))).toThrow('"titleAlignment" has an unknown value "justify"');
+    });
+});
@@ -0,0 +1,181 @@
+/**
+ * Config Schema Utility
+ * Versioning, migration and validation of the configs saved in the Tableau settings.
+ * Configs are stored as JSON under config_<worksheet>; every load goes through parseConfig
+ * so configs saved by older versions of the extension are upgraded before use.
+ */
+
+import type { Config } from '../types';
+import { defaultConfig } from '../hooks/useConfigState';
+
+/**
+ * Version written with every saved config. Bump it together with a new entry in `migrations`.
+ */
+export const CONFIG_SCHEMA_VERSION = 1;
+
+export class ConfigError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ConfigError';
+    }
+}
+
+/**
+ * Non-optional Config fields. Optional fields are left out on purpose: a missing value
+ * keeps the behaviour the config was saved with (e.g. no page setup).
+ */
+const REQUIRED_FIELDS: (keyof Config)[] = [
+    'selectedWorksheet', 'worksheet', 'exportMode', 'fileName', 'sheetName',
+    'headerRowsCount', 'headerRowSettings', 'tableTitle', 'titleAlignment', 'titleFontColor', 'titleBgColor',
+    'groupColumns', 'pivotColumns', 'valueColumns', 'customFields', 'metricGroups',
+    'showSubtotals', 'subtotalLevels', 'subtotalLabels', 'useCustomSubtotalLabels',
+    'showRowTotals', 'rowTotalsPosition', 'rowTotalsLabel', 'showColumnTotals', 'columnTotalsPosition', 'columnTotalsLabel',
+    'rowFormatRules', 'fieldRenames', 'formatSettings', 'pivotHeaderFormat'
+];
+
+type RawConfig = Record<string, unknown>;
+
+type ConfigMigration = (config: RawConfig) => RawConfig;
+
+/**
+ * Migrations keyed by the version they upgrade from. Configs saved before versioning count as version 0.
+ */
+const migrations: Record<number, ConfigMigration> = {
+    // 0 -> 1: fill the fields added since the first release and complete the nested header format
+    0: config => {
+        const migrated: RawConfig = { ...config };
+        REQUIRED_FIELDS.forEach(key => {
+            if (migrated[key] === undefined || migrated[key] === null) {
+                migrated[key] = structuredClone(defaultConfig[key]);
+            }
+        });
+        if (!migrated.selectedWorksheet && typeof migrated.worksheet === 'string') {
+            migrated.selectedWorksheet = migrated.worksheet;
+        }
+        migrated.pivotHeaderFormat = { ...defaultConfig.pivotHeaderFormat, ...(migrated.pivotHeaderFormat as object) };
+        return migrated;
+    }
+};
+
+const isObject = (value: unknown): value is RawConfig =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Check the shape of a (migrated) config. Returns one message per problem; empty when valid.
+ */
+export function validateConfig(value: unknown): string[] {
+    if (!isObject(value)) return ['The configuration is not an object'];
+
+    const problems: string[] = [];
+    const expectType = (key: string, type: 'string' | 'number' | 'boolean', optional = false) => {
+        const field = value[key];
+        if (field === undefined && optional) return;
+        if (typeof field !== type) problems.push(`"${key}" should be a ${type}`);
+    };
+    const expectOneOf = (key: string, allowed: string[], optional = false) => {
+        const field = value[key];
+        if (field === undefined && optional) return;
+        if (!allowed.includes(field as string)) problems.push(`"${key}" has an unknown value "${String(field)}"`);
+    };
+    const expectObject = (key: string, optional = false) => {
+        if (value[key] === undefined && optional) return;
+        if (!isObject(value[key])) problems.push(`"${key}" should be an object`);
+    };
+
+    expectType('selectedWorksheet', 'string');
+    expectOneOf('exportMode', ['formatted', 'datadump', 'underlying']);
+    expectOneOf('formattedFormat', ['excel', 'pdf', 'both', 'html'], true);
+    expectOneOf('pivotTableOutput', ['static', 'native'], true);
+    expectOneOf('spreadsheetFormat', ['xlsx', 'ods'], true);
+    expectOneOf('titleAlignment', ['left', 'center', 'right']);
+    expectOneOf('rowTotalsPosition', ['left', 'right']);
+    expectOneOf('columnTotalsPosition', ['top', 'bottom']);
+    expectType('headerRowsCount', 'number');
+    expectType('showSubtotals', 'boolean');
+    expectType('showRowTotals', 'boolean');
+    expectType('showColumnTotals', 'boolean');
+    expectType('summaryPageSize', 'number', true);
+    expectType('maxExportRows', 'number', true);
+    expectObject('subtotalLabels');
+    expectObject('rowFormatRules');
+    expectObject('fieldRenames');
+    expectObject('formatSettings');
+    expectObject('pivotHeaderFormat');
+    expectObject('pageSetup', true);
+
+    (['groupColumns', 'pivotColumns', 'valueColumns', 'customFields'] as const).forEach(key => {
+        const columns = value[key];
+        if (!Array.isArray(columns)) {
+            problems.push(`"${key}" should be a list of fields`);
+        } else if (columns.some(c => !isObject(c) || typeof c.id !== 'string')) {
+            problems.push(`"${key}" contains a field without an id`);
+        }
+    });
+
+    if (!Array.isArray(value.metricGroups) || value.metricGroups.some(g => !isObject(g) || !Array.isArray(g.fields))) {
+        problems.push('"metricGroups" should be a list of groups with fields');
+    }
+    if (!Array.isArray(value.headerRowSettings) || value.headerRowSettings.some(h => !isObject(h))) {
+        problems.push('"headerRowSettings" should be a list of header rows');
+    }
+    if (!Array.isArray(value.subtotalLevels) || value.subtotalLevels.some(l => typeof l !== 'number')) {
+        problems.push('"subtotalLevels" should be a list of numbers');
+    }
+
+    return problems;
+}
+
+/**
+ * Upgrade a parsed config to the current schema version
+ */
+export function migrateConfig(value: RawConfig): RawConfig {
+    let version = typeof value.schemaVersion === 'number' ? value.schemaVersion : 0;
+    if (version > CONFIG_SCHEMA_VERSION) {
+        throw new ConfigError(`it was saved by a newer version of the extension (schema ${version}, this version reads up to ${CONFIG_SCHEMA_VERSION})`);
+    }
+
+    let migrated = value;
+    while (version < CONFIG_SCHEMA_VERSION) {
+        migrated = migrations[version](migrated);
+        version++;
+    }
+    return { ...migrated, schemaVersion: CONFIG_SCHEMA_VERSION };
+}
+
+/**
+ * Parse, migrate and validate a saved config. Throws a ConfigError describing what is wrong,
+ * prefixed with the worksheet name when given.
+ */
+export function parseConfig(json: string, worksheetName?: string): Config {
+    const prefix = worksheetName ? `The saved configuration for "${worksheetName}"` : 'The saved configuration';
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        throw new ConfigError(`${prefix} is corrupt: it is not valid JSON.`);
+    }
+    if (!isObject(parsed)) {
+        throw new ConfigError(`${prefix} is corrupt: it is not an object.`);
+    }
+
+    let migrated: RawConfig;
+    try {
+        migrated = migrateConfig(parsed);
+    } catch (error) {
+        throw new ConfigError(`${prefix} cannot be loaded: ${(error as Error).message}.`);
+    }
+
+    const problems = validateConfig(migrated);
+    if (problems.length > 0) {
+        throw new ConfigError(`${prefix} is corrupt: ${problems.join('; ')}.`);
+    }
+    return migrated as unknown as Config;
+}
+
+/**
+ * Serialize a config for the Tableau settings, stamped with the current schema version
+ */
+export function serializeConfig(config: Config): string {
+    return JSON.stringify({ ...config, schemaVersion: CONFIG_SCHEMA_VERSION });
+}
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { CONFIG_SCHEMA_VERSION, ConfigError, parseConfig } from './configSchema';
+import { encodeConfig, measureConfig, readConfigJson, readTemplates, writeConfig, writeTemplates, SETTINGS_SIZE_LIMIT } from './configStorage';
+import type { ExtensionSettings } from './configStorage';
+import { serializeTemplates } from './configTemplates';
+import { defaultConfig } from '../hooks/useConfigState';
+import type { Config } from '../types';
+
+const createSettings = (initial: Record<string, string> = {}): ExtensionSettings & { values: Record<string, string> } => {
+    const values = { ...initial };
+    return {
+        values,
+        get: key => values[key],
+        set: (key, value) => { values[key] = value; },
+        erase: key => { delete values[key]; },
+        getAll: () => ({ ...values }),
+        saveAsync: async () => ({ ...values })
+    };
+};
+
+// Pseudo-random field renames that gzip cannot shrink much, to spread a config over several keys
+const largeConfig = (renames: number): Config => {
+    let seed = 42;
+    const random = () => {
+        seed = (seed * 1103515245 + 12345) % 2147483648;
+        return seed.toString(36);
+    };
+    const fieldRenames: Record<string, string> = {};
+    for (let i = 0; i < renames; i++) fieldRenames[`field_${i}`] = random() + random() + random();
+    return { ...defaultConfig, selectedWorksheet: 'Sales', fieldRenames };
+};
+
+describe('writeConfig', () => {
+    it('stores a small config compressed in a single key', async () => {
+        const settings = createSettings();
+        const config = { ...defaultConfig, selectedWorksheet: 'Sales' };
+        await writeConfig(settings, 'Sales', config);
+
+        expect(Object.keys(settings.values)).toEqual(['config_Sales']);
+        expect(settings.values.config_Sales).toMatch(/^gz1:1:/);
+        expect(parseConfig((await readConfigJson(settings, 'config_Sales'))!)).toEqual({ ...config, schemaVersion: CONFIG_SCHEMA_VERSION });
+    });
+
+    it('splits a large config over numbered parts and reads it back', async () => {
+        const settings = createSettings();
+        const config = largeConfig(8000);
+        const usage = await writeConfig(settings, 'Sales', config);
+        const parts = (await encodeConfig(config)).length;
+
+        expect(parts).toBeGreaterThan(1);
+        expect(Object.keys(settings.values).sort()).toEqual(
+            ['config_Sales', ...Array.from({ length: parts - 1 }, (_, i) => `config_Sales#${i + 2}`)].sort()
+        );
+        expect(usage.configSize).toBe(Object.entries(settings.values).reduce((sum, [k, v]) => sum + k.length + v.length, 0));
+        expect(parseConfig((await readConfigJson(settings, 'config_Sales'))!).fieldRenames).toEqual(config.fieldRenames);
+    });
+
+    it('erases parts left over from a larger config', async () => {
+        const settings = createSettings({ other: 'x' });
+        await writeConfig(settings, 'Sales', largeConfig(8000));
+        await writeConfig(settings, 'Sales', { ...defaultConfig, selectedWorksheet: 'Sales' });
+
+        expect(Object.keys(settings.values).sort()).toEqual(['config_Sales', 'other']);
+    });
+
+    it('refuses configs that would go over the settings limit without touching the settings', async () => {
+        const settings = createSettings({ templates: 'x'.repeat(SETTINGS_SIZE_LIMIT - 100) });
+        await expect(writeConfig(settings, 'Sales', defaultConfig)).rejects.toThrow(ConfigError);
+        expect(Object.keys(settings.values)).toEqual(['templates']);
+    });
+});
+
+describe('measureConfig', () => {
+    it('counts the new config in place of the saved one', async () => {
+        const settings = createSettings({ other: 'abc' });
+        await writeConfig(settings, 'Sales', largeConfig(8000));
+        const usage = await measureConfig(settings, 'Sales', defaultConfig);
+
+        expect(usage.totalSize).toBe('other'.length + 3 + usage.configSize);
+    });
+});
+
+describe('readConfigJson', () => {
+    it('returns plain JSON saved by earlier versions as-is, and null when nothing is saved', async () => {
+        const settings = createSettings({ config_Sales: '{"exportMode":"formatted"}' });
+        expect(await readConfigJson(settings, 'config_Sales')).toBe('{"exportMode":"formatted"}');
+        expect(await readConfigJson(settings, 'config_Profit')).toBeNull();
+    });
+
+    it('reports a missing part', async () => {
+        const settings = createSettings();
+        await writeConfig(settings, 'Sales', largeConfig(8000));
+        settings.erase('config_Sales#2');
+
+        await expect(readConfigJson(settings, 'config_Sales')).rejects.toThrow(/for "Sales" is corrupt: part 2 of \d+ is missing/);
+    });
+});
+
+describe('writeTemplates', () => {
+    const templates = [{ name: 'Monthly', savedAt: '2024-01-01T00:00:00.000Z', config: largeConfig(8000) }];
+
+    it('stores the library compressed over numbered parts and reads it back', async () => {
+        const settings = createSettings();
+        await writeTemplates(settings, templates);
+
+        expect(settings.values.templates).toMatch(/^gz1:\d+:/);
+        expect(settings.values['templates#2']).toBeDefined();
+        expect((await readTemplates(settings)).map(t => t.name)).toEqual(['Monthly']);
+    });
+
+    it('reads a library saved as plain JSON by earlier versions', async () => {
+        const settings = createSettings({ templates: serializeTemplates(templates) });
+        expect((await readTemplates(settings)).map(t => t.name)).toEqual(['Monthly']);
+    });
+
+    it('refuses a library that would go over the settings limit without touching the settings', async () => {
+        const settings = createSettings({ config_Sales: 'x'.repeat(SETTINGS_SIZE_LIMIT - 100) });
+        await expect(writeTemplates(settings, templates)).rejects.toThrow(/^The template library is too large to save/);
+        expect(Object.keys(settings.values)).toEqual(['config_Sales']);
+    });
+});
@@ -0,0 +1,227 @@
+/**
+ * Config Storage Utility
+ * Reads and writes worksheet configs in the Tableau extension settings. Configs are gzip
+ * compressed, base64 encoded and split over several keys when large:
+ *   config_<worksheet>        "gz1:<part count>:<first part>"
+ *   config_<worksheet>#<n>    remaining parts (n = 2, 3, ...)
+ * The template library is stored the same way under its own key.
+ * Plain JSON values written by earlier versions are still read as-is.
+ */
+
+import type { Config } from '../types';
+import { ConfigError, serializeConfig } from './configSchema';
+import { TEMPLATES_SETTINGS_KEY, parseTemplates, serializeTemplates } from './configTemplates';
+import type { ConfigTemplate } from './configTemplates';
+
+export const SETTINGS_SIZE_LIMIT = 2 * 1024 * 1024; // Tableau's limit on all extension settings together
+const PART_SIZE = 64 * 1024; // Characters per settings key
+const COMPRESSED_PREFIX = 'gz1:';
+
+export interface SettingsUsage {
+    configSize: number; // Characters the worksheet's config takes in the settings (all parts)
+    totalSize: number; // Characters of all settings, including this config
+    limit: number;
+}
+
+/**
+ * The parts of tableau.extensions.settings used to store configs
+ */
+export interface ExtensionSettings {
+    get(key: string): string | undefined;
+    set(key: string, value: string): void;
+    erase(key: string): void;
+    getAll(): Record<string, string>;
+    saveAsync(): Promise<Record<string, string>>;
+}
+
+const partKey = (key: string, part: number) => `${key}#${part}`;
+
+function bytesToBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+}
+
+async function gzip(text: string): Promise<string> {
+    const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'));
+    return bytesToBase64(new Uint8Array(await new Response(stream).arrayBuffer()));
+}
+
+async function gunzip(base64: string): Promise<string> {
+    const stream = new Blob([base64ToBytes(base64)]).stream().pipeThrough(new DecompressionStream('gzip'));
+    return new Response(stream).text();
+}
+
+/**
+ * Encode a config into the values of its settings keys (main key first).
+ * Without CompressionStream the config is stored as plain JSON in one key.
+ */
+export async function encodeConfig(config: Config): Promise<string[]> {
+    return encodeJson(serializeConfig(config));
+}
+
+async function encodeJson(json: string): Promise<string[]> {
+    if (typeof CompressionStream === 'undefined') return [json];
+
+    const encoded = await gzip(json);
+    const parts: string[] = [];
+    for (let i = 0; i < encoded.length; i += PART_SIZE) {
+        parts.push(encoded.slice(i, i + PART_SIZE));
+    }
+    if (parts.length === 0) parts.push('');
+    parts[0] = `${COMPRESSED_PREFIX}${parts.length}:${parts[0]}`;
+    return parts;
+}
+
+/**
+ * Number of extra part keys stored after a main key value
+ */
+function extraPartCount(value: string | undefined): number {
+    if (!value?.startsWith(COMPRESSED_PREFIX)) return 0;
+    const count = parseInt(value.slice(COMPRESSED_PREFIX.length), 10);
+    return isNaN(count) ? 0 : Math.max(count - 1, 0);
+}
+
+/**
+ * Read the JSON text of the config saved under a key (e.g. config_<worksheet>), or null when there is none
+ */
+export async function readConfigJson(settings: ExtensionSettings, key: string): Promise<string | null> {
+    const value = settings.get(key);
+    if (!value) return null;
+    if (!value.startsWith(COMPRESSED_PREFIX)) return value;
+
+    const label = key.startsWith('config_') ? `for "${key.slice('config_'.length)}"` : `under "${key}"`;
+    const header = value.slice(COMPRESSED_PREFIX.length);
+    const separator = header.indexOf(':');
+    const count = parseInt(header.slice(0, separator), 10);
+    let encoded = header.slice(separator + 1);
+    for (let part = 2; part <= count; part++) {
+        const chunk = settings.get(partKey(key, part));
+        if (chunk === undefined) {
+            throw new ConfigError(`The saved configuration ${label} is corrupt: part ${part} of ${count} is missing.`);
+        }
+        encoded += chunk;
+    }
+
+    if (typeof DecompressionStream === 'undefined') {
+        throw new ConfigError('This browser cannot read compressed configurations. Please use a current version of Tableau.');
+    }
+    try {
+        return await gunzip(encoded);
+    } catch {
+        throw new ConfigError(`The saved configuration ${label} is corrupt: it cannot be decompressed.`);
+    }
+}
+
+/**
+ * Total characters of all settings keys and values
+ */
+function settingsSize(settings: ExtensionSettings): number {
+    const all = settings.getAll() || {};
+    return Object.entries(all).reduce((sum, [key, value]) => sum + key.length + (value?.length || 0), 0);
+}
+
+/**
+ * Characters taken by a config's keys, as they are saved now
+ */
+function storedConfigSize(settings: ExtensionSettings, key: string): number {
+    const value = settings.get(key);
+    if (value === undefined) return 0;
+
+    let size = key.length + value.length;
+    for (let part = 2; part <= extraPartCount(value) + 1; part++) {
+        size += partKey(key, part).length + (settings.get(partKey(key, part))?.length || 0);
+    }
+    return size;
+}
+
+/**
+ * Settings usage if the worksheet's config were saved as it is now (used for the size meter)
+ */
+export async function measureConfig(settings: ExtensionSettings, worksheetName: string, config: Config): Promise<SettingsUsage> {
+    return measureParts(settings, `config_${worksheetName}`, await encodeConfig(config));
+}
+
+/**
+ * Settings usage with the encoded parts in place of the config saved under key
+ */
+function measureParts(settings: ExtensionSettings, key: string, parts: string[]): SettingsUsage {
+    const configSize = parts.reduce((sum, value, idx) => sum + (idx === 0 ? key : partKey(key, idx + 1)).length + value.length, 0);
+
+    return {
+        configSize,
+        totalSize: settingsSize(settings) - storedConfigSize(settings, key) + configSize,
+        limit: SETTINGS_SIZE_LIMIT
+    };
+}
+
+export const formatSize = (chars: number) =>
+    chars >= 1024 * 1024 ? `${(chars / 1024 / 1024).toFixed(2)} MB` : `${Math.ceil(chars / 1024)} KB`;
+
+/**
+ * Put the worksheet's config into the settings (the caller still has to call saveAsync).
+ * Throws a ConfigError naming the worksheet, without touching the settings, if all settings
+ * together would go over the size limit.
+ */
+export async function writeConfig(settings: ExtensionSettings, worksheetName: string, config: Config): Promise<SettingsUsage> {
+    return writeParts(
+        settings,
+        `config_${worksheetName}`,
+        await encodeConfig(config),
+        `The configuration of "${worksheetName}"`,
+        'Remove conditional formatting rules, custom headers or fields, or delete unused templates.'
+    );
+}
+
+/**
+ * Put the template library into the settings, stored like a config (the caller still
+ * has to call saveAsync). Throws a ConfigError if it would go over the size limit.
+ */
+export async function writeTemplates(settings: ExtensionSettings, templates: ConfigTemplate[]): Promise<SettingsUsage> {
+    return writeParts(
+        settings,
+        TEMPLATES_SETTINGS_KEY,
+        await encodeJson(serializeTemplates(templates)),
+        'The template library',
+        'Delete templates that are no longer used.'
+    );
+}
+
+/**
+ * Read the template library, compressed or saved as plain JSON by earlier versions
+ */
+export async function readTemplates(settings: ExtensionSettings): Promise<ConfigTemplate[]> {
+    return parseTemplates(await readConfigJson(settings, TEMPLATES_SETTINGS_KEY));
+}
+
+/**
+ * Put encoded parts under key and erase the parts a longer value left behind. Over the
+ * size limit, throws a ConfigError starting with subject and leaves the settings alone.
+ */
+function writeParts(settings: ExtensionSettings, key: string, parts: string[], subject: string, advice: string): SettingsUsage {
+    const usage = measureParts(settings, key, parts);
+    if (usage.totalSize > usage.limit) {
+        const available = usage.limit - (usage.totalSize - usage.configSize);
+        throw new ConfigError(
+            `${subject} is too large to save: it needs ${formatSize(usage.configSize)} ` +
+            `compressed, but only ${formatSize(Math.max(available, 0))} of the ${formatSize(usage.limit)} settings limit is left. ` +
+            advice
+        );
+    }
+
+    const staleParts = extraPartCount(settings.get(key));
+    parts.forEach((value, idx) => settings.set(idx === 0 ? key : partKey(key, idx + 1), value));
+    for (let part = parts.length + 1; part <= staleParts + 1; part++) {
+        settings.erase(partKey(key, part));
+    }
+    return usage;
+}
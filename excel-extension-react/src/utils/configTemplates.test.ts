@@ -0,0 +1,102 @@
+import { describe, it, expect, vi } from 'vitest';
+import { applyConfigToWorksheet, parseTemplates, serializeTemplates } from './configTemplates';
+import type { ConfigTemplate } from './configTemplates';
+import { CONFIG_SCHEMA_VERSION } from './configSchema';
+import { defaultConfig } from '../hooks/useConfigState';
+import type { Config, Column } from '../types';
+
+const source: Config = {
+    ...defaultConfig,
+    selectedWorksheet: 'Sales EU',
+    worksheet: 'Sales EU',
+    worksheetName: 'EU',
+    underlyingTableId: 'Orders_EU',
+    underlyingColumns: ['Region (EU)'],
+    groupColumns: [{ id: 'Region (EU)', name: 'Region', sort: { direction: 'desc', method: 'value', valueColumnId: 'SUM(Profit EU)' } }],
+    pivotColumns: [{ id: 'Segment (EU)', name: 'Segment' }],
+    valueColumns: [
+        { id: 'SUM(Sales EU)', name: 'Sales' },
+        { id: 'SUM(Profit EU)', name: 'Profit' },
+        { id: 'custom_margin', name: 'Margin', isCustom: true }
+    ],
+    customFields: [{
+        id: 'custom_margin',
+        name: 'Margin',
+        isCustom: true,
+        formula: '[Profit] / [Sales]',
+        formulaRefs: { Profit: 'SUM(Profit EU)', Sales: 'SUM(Sales EU)' }
+    }],
+    metricGroups: [{ id: 1, name: 'Money', fields: ['SUM(Sales EU)', 'SUM(Profit EU)', 'custom_margin'], collapsed: false }],
+    headerRowSettings: [{ type: 'column', column: 'Region (EU)' }],
+    formatSettings: { 'SUM(Sales EU)': { decimals: 2 }, 'SUM(Profit EU)': { decimals: 0 } },
+    fieldRenames: { 'Segment (EU)': 'Customer segment' }
+};
+
+// The target worksheet uses other field IDs, different caption casing and has no Profit
+const fields: Column[] = [
+    { id: 'Region (US)', name: 'region' },
+    { id: 'Segment (US)', name: 'Segment' },
+    { id: 'SUM(Sales US)', name: 'Sales' }
+];
+
+describe('applyConfigToWorksheet', () => {
+    const { config, unmatched } = applyConfigToWorksheet(source, 'Sales US', fields);
+
+    it('matches fields by caption and reports the ones it removed', () => {
+        expect(config.groupColumns.map(c => c.id)).toEqual(['Region (US)']);
+        expect(config.pivotColumns.map(c => c.id)).toEqual(['Segment (US)']);
+        expect(config.valueColumns.map(c => c.id)).toEqual(['SUM(Sales US)', 'custom_margin']);
+        expect(unmatched).toEqual(['Profit']);
+    });
+
+    it('remaps formula references and keeps unmatched ones as they were', () => {
+        expect(config.customFields[0].formulaRefs).toEqual({ Profit: 'SUM(Profit EU)', Sales: 'SUM(Sales US)' });
+    });
+
+    it('remaps the field IDs used elsewhere in the config', () => {
+        expect(config.metricGroups[0].fields).toEqual(['SUM(Sales US)', 'custom_margin']);
+        expect(config.headerRowSettings[0].column).toBe('Region (US)');
+        expect(config.formatSettings).toEqual({ 'SUM(Sales US)': { decimals: 2 } });
+        expect(config.fieldRenames).toEqual({ 'Segment (US)': 'Customer segment' });
+    });
+
+    it('falls back to natural order when the value sort column is gone', () => {
+        expect(config.groupColumns[0].sort).toEqual({ direction: 'desc', method: 'natural', valueColumnId: undefined });
+    });
+
+    it('targets the new worksheet and clears what belongs to the source', () => {
+        expect(config.selectedWorksheet).toBe('Sales US');
+        expect(config.worksheet).toBe('Sales US');
+        expect(config.worksheetName).toBe('');
+        expect(config.underlyingTableId).toBeUndefined();
+        expect(config.underlyingColumns).toEqual([]);
+    });
+
+    it('keeps everything when applied to its own worksheet', () => {
+        const ownFields: Column[] = [
+            { id: 'Region (EU)', name: 'Region' },
+            { id: 'Segment (EU)', name: 'Segment' },
+            { id: 'SUM(Sales EU)', name: 'Sales' },
+            { id: 'SUM(Profit EU)', name: 'Profit' }
+        ];
+        const applied = applyConfigToWorksheet(source, 'Sales EU', ownFields);
+        expect(applied.unmatched).toEqual([]);
+        expect(applied.config).toEqual(source);
+    });
+});
+
+describe('parseTemplates', () => {
+    it('round-trips templates and skips invalid ones', () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const template: ConfigTemplate = { name: 'EU layout', savedAt: '2026-01-01T00:00:00.000Z', config: source };
+        const json = JSON.stringify([
+            ...JSON.parse(serializeTemplates([template])),
+            { name: 'Broken', config: { ...source, exportMode: 'everything' } }
+        ]);
+
+        expect(parseTemplates(json)).toEqual([{ ...template, config: { ...source, schemaVersion: CONFIG_SCHEMA_VERSION } }]);
+        expect(parseTemplates('not json')).toEqual([]);
+        expect(parseTemplates(undefined)).toEqual([]);
+    });
+});
@@ -0,0 +1,147 @@
+/**
+ * Config Template Utility
+ * Reusing a worksheet's configuration elsewhere: as a JSON file or as a named template
+ * kept in the extension settings. Field IDs differ between worksheets and data sources,
+ * so a config applied to another worksheet has its fields matched up again by caption.
+ */
+
+import type { Config, Column } from '../types';
+import { CONFIG_SCHEMA_VERSION, migrateConfig, validateConfig } from './configSchema';
+
+export const TEMPLATES_SETTINGS_KEY = 'templates'; // Not config_<name>, which could clash with a worksheet's config
+
+export interface ConfigTemplate {
+    name: string;
+    savedAt: string; // ISO timestamp
+    config: Config;
+}
+
+export interface AppliedConfig {
+    config: Config;
+    unmatched: string[]; // Captions of the fields not found on the target worksheet
+}
+
+/**
+ * Read the template library. Templates that fail validation are skipped.
+ */
+export function parseTemplates(json: string | null | undefined): ConfigTemplate[] {
+    if (!json) return [];
+    try {
+        const list = JSON.parse(json);
+        if (!Array.isArray(list)) return [];
+        return list.flatMap(template => {
+            try {
+                const config = migrateConfig(template.config);
+                if (typeof template.name !== 'string' || validateConfig(config).length > 0) throw new Error('Invalid template');
+                return [{ name: template.name, savedAt: String(template.savedAt || ''), config: config as unknown as Config }];
+            } catch (error) {
+                console.warn('Skipping invalid config template:', template?.name, error);
+                return [];
+            }
+        });
+    } catch (error) {
+        console.error('Error reading config templates:', error);
+        return [];
+    }
+}
+
+export function serializeTemplates(templates: ConfigTemplate[]): string {
+    return JSON.stringify(templates.map(t => ({ ...t, config: { ...t.config, schemaVersion: CONFIG_SCHEMA_VERSION } })));
+}
+
+const normalizeCaption = (caption: string) => caption.trim().toLowerCase();
+
+/**
+ * Apply a config taken from another worksheet (or data source) to a worksheet.
+ * Every field is looked up by caption among the worksheet's fields, then by ID. Fields
+ * without a match are removed and reported; custom fields are kept with their
+ * formula references remapped.
+ */
+export function applyConfigToWorksheet(source: Config, worksheetName: string, fields: Column[]): AppliedConfig {
+    const byCaption = new Map<string, Column>();
+    fields.forEach(f => {
+        const key = normalizeCaption(f.name || f.id);
+        if (!byCaption.has(key)) byCaption.set(key, f);
+    });
+    const byId = new Map(fields.map(f => [f.id, f]));
+
+    // Template field ID -> worksheet field ID (null when it cannot be matched)
+    const idMap = new Map<string, string | null>();
+    const unmatched: string[] = [];
+    const customIds = new Set((source.customFields || []).map(c => c.id));
+
+    const resolve = (id: string, caption?: string): string | null => {
+        if (customIds.has(id)) return id;
+        if (!idMap.has(id)) {
+            const match = (caption && byCaption.get(normalizeCaption(caption))) || byId.get(id);
+            idMap.set(id, match ? match.id : null);
+            if (!match) unmatched.push(caption || id);
+        }
+        return idMap.get(id)!;
+    };
+
+    const remapColumn = (c: Column): Column | null => {
+        const id = resolve(c.id, c.name);
+        if (id === null) return null;
+
+        const column: Column = { ...c, id };
+        if (c.formulaRefs) {
+            column.formulaRefs = Object.fromEntries(Object.entries(c.formulaRefs).map(
+                ([name, refId]) => [name, resolve(refId, name) ?? refId]
+            ));
+        }
+        return column;
+    };
+    const remapColumns = (columns: Column[]) =>
+        columns.map(remapColumn).filter((c): c is Column => c !== null);
+
+    const customFields = remapColumns(source.customFields || []);
+    const groupColumns = remapColumns(source.groupColumns);
+    const pivotColumns = remapColumns(source.pivotColumns);
+    const valueColumns = remapColumns(source.valueColumns);
+
+    // Captions of the removed fields are no longer known, so the remaining references are resolved by ID
+    const mapId = (id: string) => idMap.has(id) ? idMap.get(id)! : (customIds.has(id) || byId.has(id) ? id : null);
+    const remapKeys = <T>(record: Record<string, T>) => Object.fromEntries(
+        Object.entries(record || {}).flatMap(([id, value]) => {
+            const mapped = mapId(id);
+            return mapped === null ? [] : [[mapped, value]];
+        })
+    );
+
+    [...groupColumns, ...pivotColumns].forEach(c => {
+        if (c.sort?.valueColumnId) {
+            const valueColumnId = mapId(c.sort.valueColumnId);
+            c.sort = valueColumnId ? { ...c.sort, valueColumnId } : { ...c.sort, method: 'natural', valueColumnId: undefined };
+        }
+    });
+
+    const config: Config = {
+        ...source,
+        selectedWorksheet: worksheetName,
+        worksheet: worksheetName,
+        worksheetName: source.selectedWorksheet === worksheetName ? source.worksheetName : '',
+        customFields,
+        groupColumns,
+        pivotColumns,
+        valueColumns,
+        metricGroups: source.metricGroups.map(g => ({
+            ...g,
+            fields: g.fields.map(mapId).filter((id): id is string => id !== null)
+        })),
+        headerRowSettings: source.headerRowSettings.map(h => h.type === 'column' && h.column
+            ? { ...h, column: mapId(h.column) ?? h.column }
+            : h
+        ),
+        formatSettings: remapKeys(source.formatSettings),
+        fieldRenames: remapKeys(source.fieldRenames)
+    };
+
+    // Logical tables belong to the source's data source and have to be picked again
+    if (source.selectedWorksheet !== worksheetName) {
+        config.underlyingTableId = undefined;
+        config.underlyingColumns = [];
+    }
+
+    return { config, unmatched };
+}
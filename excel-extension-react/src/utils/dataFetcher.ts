@@ -2,84 +2,296 @@
  * Utility to fetch full dataset from Tableau worksheet
  */
 
-export async function fetchFullDataset(worksheetName: string, maxRows: number = 0): Promise<{ main: any[], rawMain?: any, gcData: any[] | null, rcData: any[] | null }> {
+export const DEFAULT_SUMMARY_PAGE_SIZE = 10000;
+
+/**
+ * Plain copy of a Tableau DataTable (or one page of it) that can be posted to the export worker
+ */
+export interface SerializedDataTable {
+    columns: Array<{ fieldName: string, index: number, dataType?: string }>;
+    data: Array<Array<{ value: unknown, formattedValue?: string }>>;
+    totalRowCount?: number; // Rows across all pages, when read page by page
+}
+
+/**
+ * The parts of a Tableau DataTable (or one page of a DataTableReader) read here
+ */
+export interface TableauDataTable {
+    columns: Array<{ fieldName: string, fieldId?: string, index?: number, dataType?: string }>;
+    data: Array<Array<{ value: unknown, formattedValue?: string }>>;
+}
+
+/**
+ * The parts of a Tableau DataTableReader read here
+ */
+interface TableauDataTableReader {
+    totalRowCount: number;
+    pageCount: number;
+    getPageAsync(pageNumber: number): Promise<TableauDataTable>;
+    releaseAsync(): Promise<void>;
+}
+
+interface UnderlyingDataOptions {
+    ignoreSelection: boolean;
+    includeAllColumns: boolean;
+    columnsToIncludeById?: string[];
+    maxRows?: number;
+}
+
+/**
+ * The data methods of a Tableau Worksheet used by the paged readers; the reader
+ * methods are missing on Tableau versions before 2022.4
+ */
+export interface TableauDataWorksheet {
+    getSummaryDataAsync(options: { maxRows: number }): Promise<TableauDataTable>;
+    getSummaryDataReaderAsync?(pageSize: number): Promise<TableauDataTableReader>;
+    getUnderlyingTableDataAsync(logicalTableId: string, options: UnderlyingDataOptions): Promise<TableauDataTable>;
+    getUnderlyingTableDataReaderAsync?(logicalTableId: string, pageSize: number, options: UnderlyingDataOptions): Promise<TableauDataTableReader>;
+}
+
+/**
+ * Copy the columns and cell values of a Tableau DataTable into plain objects
+ */
+export function serializeDataTable(table: TableauDataTable, totalRowCount?: number): SerializedDataTable {
+    return {
+        columns: table.columns.map((c, idx) => ({
+            fieldName: c.fieldName,
+            index: c.index ?? idx,
+            dataType: c.dataType
+        })),
+        data: table.data.map(row =>
+            row.map(cell => ({ value: cell.value, formattedValue: cell.formattedValue }))
+        ),
+        totalRowCount
+    };
+}
+
+export interface SummaryPageOptions {
+    pageSize?: number; // Rows per page (default DEFAULT_SUMMARY_PAGE_SIZE)
+    maxRows?: number; // Stop after this many rows (0 = no cap)
+}
+
+// Only one summary data reader may be open at a time, so reads are queued
+let readerQueue: Promise<unknown> = Promise.resolve();
+
+type PageCallback = (page: TableauDataTable, totalRows: number) => void | Promise<void>;
+
+/**
+ * Read every page of a Tableau DataTableReader, stopping at maxRows (0 = no cap).
+ * The reader is always released; reads are queued so only one reader is open.
+ */
+const readPages = (
+    openReader: (pageSize: number) => Promise<TableauDataTableReader>,
+    options: SummaryPageOptions,
+    onPage: PageCallback
+): Promise<number> => {
+    const pageSize = options.pageSize && options.pageSize > 0 ? options.pageSize : DEFAULT_SUMMARY_PAGE_SIZE;
+    const maxRows = options.maxRows && options.maxRows > 0 ? options.maxRows : 0;
+
+    const read = async (): Promise<number> => {
+        const reader = await openReader(pageSize);
+        try {
+            const totalRows = maxRows > 0 ? Math.min(maxRows, reader.totalRowCount) : reader.totalRowCount;
+            let rowsRead = 0;
+
+            for (let pageNumber = 0; pageNumber < reader.pageCount && rowsRead < totalRows; pageNumber++) {
+                const page = await reader.getPageAsync(pageNumber);
+                const remaining = totalRows - rowsRead;
+                const data = page.data.length > remaining ? page.data.slice(0, remaining) : page.data;
+                rowsRead += data.length;
+                await onPage({ columns: page.columns, data }, totalRows);
+            }
+
+            return rowsRead;
+        } finally {
+            await reader.releaseAsync();
+        }
+    };
+
+    const result = readerQueue.then(read, read);
+    readerQueue = result.catch(() => undefined);
+    return result;
+};
+
+/**
+ * Read a worksheet's summary data page by page with getSummaryDataReaderAsync, so the
+ * whole DataTable is never held at once. onPage receives each page ({ columns, data })
+ * and the number of rows that will be read in total; returns the number of rows read.
+ * Falls back to a single getSummaryDataAsync page on Tableau versions without the reader.
+ */
+export async function readSummaryDataPages(
+    worksheet: TableauDataWorksheet,
+    options: SummaryPageOptions,
+    onPage: PageCallback
+): Promise<number> {
+    const { getSummaryDataReaderAsync } = worksheet;
+    if (typeof getSummaryDataReaderAsync !== 'function') {
+        const table = await worksheet.getSummaryDataAsync({ maxRows: options.maxRows || 0 });
+        await onPage(table, table.data.length);
+        return table.data.length;
+    }
+
+    return readPages(pageSize => getSummaryDataReaderAsync.call(worksheet, pageSize), options, onPage);
+}
+
+/**
+ * Read the row-level records of one logical table behind a worksheet, page by page.
+ * columnIds limits the export to those field IDs (empty = all columns).
+ */
+export async function readUnderlyingDataPages(
+    worksheet: TableauDataWorksheet,
+    logicalTableId: string,
+    columnIds: string[],
+    options: SummaryPageOptions,
+    onPage: PageCallback
+): Promise<number> {
+    const dataOptions: UnderlyingDataOptions = {
+        ignoreSelection: true,
+        includeAllColumns: columnIds.length === 0,
+        columnsToIncludeById: columnIds.length > 0 ? columnIds : undefined
+    };
+
+    const { getUnderlyingTableDataReaderAsync } = worksheet;
+    if (typeof getUnderlyingTableDataReaderAsync !== 'function') {
+        const table = await worksheet.getUnderlyingTableDataAsync(logicalTableId, { ...dataOptions, maxRows: options.maxRows || 0 });
+        await onPage(table, table.data.length);
+        return table.data.length;
+    }
+
+    return readPages(
+        pageSize => getUnderlyingTableDataReaderAsync.call(worksheet, logicalTableId, pageSize, dataOptions),
+        options,
+        onPage
+    );
+}
+
+/**
+ * The parts of a Tableau Worksheet used to list and read its logical tables
+ */
+interface TableauUnderlyingWorksheet extends TableauDataWorksheet {
+    name: string;
+    getUnderlyingTablesAsync(): Promise<Array<{ id: string, caption: string }>>;
+}
+
+const findWorksheet = (worksheetName: string): TableauUnderlyingWorksheet => {
+    const worksheets: TableauUnderlyingWorksheet[] | undefined = window.tableau?.extensions?.dashboardContent?.dashboard?.worksheets;
+    const worksheet = worksheets?.find(w => w.name === worksheetName);
+    if (!worksheet) {
+        throw new Error(`Worksheet "${worksheetName}" not found`);
+    }
+    return worksheet;
+};
+
+/**
+ * List the logical tables behind a worksheet
+ */
+export async function fetchUnderlyingTables(worksheetName: string): Promise<Array<{ id: string, caption: string }>> {
+    const tables = await findWorksheet(worksheetName).getUnderlyingTablesAsync();
+    return tables.map(t => ({ id: t.id, caption: t.caption }));
+}
+
+/**
+ * List the columns of a logical table (id is the field ID used to pick columns)
+ */
+export async function fetchUnderlyingColumns(
+    worksheetName: string,
+    logicalTableId: string
+): Promise<Array<{ id: string, name: string, dataType?: string }>> {
+    const table = await findWorksheet(worksheetName).getUnderlyingTableDataAsync(logicalTableId, {
+        maxRows: 1,
+        includeAllColumns: true,
+        ignoreSelection: true
+    });
+    return table.columns.map(c => ({
+        id: c.fieldId || c.fieldName,
+        name: c.fieldName,
+        dataType: c.dataType
+    }));
+}
+
+// One summary data row keyed by field name (Measure Names unpivoted into one key per measure)
+type DataRow = Record<string, unknown>;
+
+export async function fetchFullDataset(
+    worksheetName: string,
+    maxRows: number = 0,
+    pageSize: number = DEFAULT_SUMMARY_PAGE_SIZE
+): Promise<{ main: DataRow[], gcData: DataRow[] | null, rcData: DataRow[] | null }> {
     try {
         const worksheets = window.tableau?.extensions?.dashboardContent?.dashboard?.worksheets;
         if (!worksheets) {
             throw new Error('Unable to access Tableau worksheets');
         }
 
-        const fetchSheetData = async (name: string, returnRaw: boolean = false): Promise<{ data: any[], raw?: any }> => {
+        const fetchSheetData = async (name: string): Promise<{ data: DataRow[] }> => {
             const worksheet = worksheets.find((w: any) => w.name === name);
             if (!worksheet) {
                 console.log(`Worksheet "${name}" not found`);
                 return { data: [] };
             }
 
-            // Fetch data with maxRows limit (0 = unlimited)
-            const summaryData = await worksheet.getSummaryDataAsync({ maxRows: maxRows });
-
-            // Check if using Measure Names/Measure Values structure
-            const hasMeasureNames = summaryData.columns.some((col: any) => col.fieldName === 'Measure Names');
-            const hasMeasureValues = summaryData.columns.some((col: any) => col.fieldName === 'Measure Values');
-
-            // Transform to simple objects
-            const data: any[] = [];
-
-            if (hasMeasureNames && hasMeasureValues) {
-                // Handle Measure Names/Measure Values pivot structure
-                const measureNameIdx = summaryData.columns.findIndex((col: any) => col.fieldName === 'Measure Names');
-                const measureValueIdx = summaryData.columns.findIndex((col: any) => col.fieldName === 'Measure Values');
-
-                // Get dimension columns (excluding Measure Names and Measure Values)
-                const dimensionCols = summaryData.columns.filter(
-                    (col: any) => col.fieldName !== 'Measure Names' && col.fieldName !== 'Measure Values'
-                );
-
-                // Group rows by dimensions to unpivot
-                const rowGroups = new Map<string, any>();
-
-                for (const row of summaryData.data) {
-                    // Build dimension key
-                    const dimKey = dimensionCols.map((col: any) => {
-                        const colIndex = summaryData.columns.findIndex((c: any) => c.fieldName === col.fieldName);
-                        return row[colIndex].value;
-                    }).join('|||');
-
-                    // Get or create row object
-                    if (!rowGroups.has(dimKey)) {
-                        const rowObj: any = {};
-                        dimensionCols.forEach((col: any) => {
-                            const colIndex = summaryData.columns.findIndex((c: any) => c.fieldName === col.fieldName);
-                            rowObj[col.fieldName] = row[colIndex].value;
+            // Transform to simple objects, page by page (maxRows 0 = unlimited)
+            const data: DataRow[] = [];
+            const rowGroups = new Map<string, DataRow>(); // Measure Names unpivot, across pages
+
+            await readSummaryDataPages(worksheet, { pageSize, maxRows }, summaryData => {
+                // Check if using Measure Names/Measure Values structure
+                const hasMeasureNames = summaryData.columns.some(col => col.fieldName === 'Measure Names');
+                const hasMeasureValues = summaryData.columns.some(col => col.fieldName === 'Measure Values');
+
+                if (hasMeasureNames && hasMeasureValues) {
+                    // Handle Measure Names/Measure Values pivot structure
+                    const measureNameIdx = summaryData.columns.findIndex(col => col.fieldName === 'Measure Names');
+                    const measureValueIdx = summaryData.columns.findIndex(col => col.fieldName === 'Measure Values');
+
+                    // Get dimension columns (excluding Measure Names and Measure Values)
+                    const dimensionCols = summaryData.columns.filter(
+                        col => col.fieldName !== 'Measure Names' && col.fieldName !== 'Measure Values'
+                    );
+
+                    // Group rows by dimensions to unpivot
+                    for (const row of summaryData.data) {
+                        // Build dimension key
+                        const dimKey = dimensionCols.map(col => {
+                            const colIndex = summaryData.columns.findIndex(c => c.fieldName === col.fieldName);
+                            return row[colIndex].value;
+                        }).join('|||');
+
+                        // Get or create row object
+                        if (!rowGroups.has(dimKey)) {
+                            const rowObj: DataRow = {};
+                            dimensionCols.forEach(col => {
+                                const colIndex = summaryData.columns.findIndex(c => c.fieldName === col.fieldName);
+                                rowObj[col.fieldName] = row[colIndex].value;
+                            });
+                            rowGroups.set(dimKey, rowObj);
+                        }
+
+                        // Add measure value to the appropriate field
+                        const rowObj = rowGroups.get(dimKey)!;
+                        const measureName = String(row[measureNameIdx].value);
+                        const measureValue = row[measureValueIdx].value;
+                        rowObj[measureName] = measureValue;
+                    }
+                } else {
+                    // Standard structure - no unpivoting needed
+                    for (const row of summaryData.data) {
+                        const rowObj: DataRow = {};
+                        summaryData.columns.forEach((col, idx) => {
+                            const value = row[idx].value;
+                            rowObj[col.fieldName] = value;
                         });
-                        rowGroups.set(dimKey, rowObj);
+                        data.push(rowObj);
                     }
-
-                    // Add measure value to the appropriate field
-                    const rowObj = rowGroups.get(dimKey)!;
-                    const measureName = row[measureNameIdx].value;
-                    const measureValue = row[measureValueIdx].value;
-                    rowObj[measureName] = measureValue;
                 }
+            });
 
-                data.push(...Array.from(rowGroups.values()));
-            } else {
-                // Standard structure - no unpivoting needed
-                for (const row of summaryData.data) {
-                    const rowObj: any = {};
-                    summaryData.columns.forEach((col: any, idx: number) => {
-                        const value = row[idx].value;
-                        rowObj[col.fieldName] = value;
-                    });
-                    data.push(rowObj);
-                }
-            }
-            return { data, raw: returnRaw ? summaryData : undefined };
+            rowGroups.forEach(rowObj => data.push(rowObj));
+            return { data };
         };
 
         console.log(`Fetching main data for "${worksheetName}"...`);
-        const mainResult = await fetchSheetData(worksheetName, true);
+        const mainResult = await fetchSheetData(worksheetName);
         const mainData = mainResult.data;
 
         if (mainData.length === 0) {
@@ -98,7 +310,6 @@ export async function fetchFullDataset(worksheetName: string, maxRows: number =
 
         return {
             main: mainData,
-            rawMain: mainResult.raw,
             gcData: gcData.length > 0 ? gcData : null,
             rcData: rcData.length > 0 ? rcData : null
         };
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import ExcelJS from 'exceljs';
+import JSZip from 'jszip';
+import { addNativePivotTables } from './excelPivotTable';
+import type { NativePivotSpec } from './excelPivotTable';
+
+const records: NativePivotSpec['records'] = [
+    ['West', 'LA', 5, 1],
+    ['East', 'NYC', 30, 4],
+    ['East', 'Boston', 10, 2]
+];
+
+const buildPackage = async (overrides: Partial<NativePivotSpec> = {}) => {
+    const workbook = new ExcelJS.Workbook();
+    const pivotSheet = workbook.addWorksheet('Pivot');
+    const dataSheet = workbook.addWorksheet('Data');
+    dataSheet.addRow(['Region', 'City', 'Sales', 'Qty']);
+    records.forEach(record => dataSheet.addRow(record));
+
+    const spec: NativePivotSpec = {
+        sheetId: pivotSheet.id,
+        dataSheetName: 'Data',
+        location: { row: 3, column: 1 },
+        fields: ['Region', 'City', 'Sales', 'Qty'],
+        records,
+        rowFields: [0, 1],
+        colFields: [],
+        dataFields: [{ field: 2, name: 'Sum of Sales', subtotal: 'sum' }],
+        sortDescending: [],
+        showSubtotals: true,
+        rowGrandTotals: true,
+        colGrandTotals: true,
+        ...overrides
+    };
+    const buffer = await addNativePivotTables(await workbook.xlsx.writeBuffer(), [spec]);
+    const zip = await JSZip.loadAsync(buffer);
+    return (path: string) => zip.file(path)!.async('string');
+};
+
+describe('addNativePivotTables', () => {
+    it('adds the pivot parts with their relationships and content types', async () => {
+        const read = await buildPackage();
+
+        const contentTypes = await read('[Content_Types].xml');
+        expect(contentTypes).toContain('PartName="/xl/pivotTables/pivotTable1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.pivotTable+xml"');
+        expect(contentTypes).toContain('PartName="/xl/pivotCache/pivotCacheDefinition1.xml"');
+        expect(contentTypes).toContain('PartName="/xl/pivotCache/pivotCacheRecords1.xml"');
+
+        expect(await read('xl/workbook.xml')).toContain('<pivotCaches><pivotCache cacheId="1" r:id="rIdPivotCache1"/></pivotCaches>');
+        expect(await read('xl/_rels/workbook.xml.rels')).toMatch(/Id="rIdPivotCache1" Type="[^"]+\/pivotCacheDefinition" Target="pivotCache\/pivotCacheDefinition1.xml"/);
+        expect(await read('xl/worksheets/_rels/sheet1.xml.rels')).toMatch(/Type="[^"]+\/pivotTable" Target="..\/pivotTables\/pivotTable1.xml"/);
+        expect(await read('xl/pivotTables/_rels/pivotTable1.xml.rels')).toContain('Target="../pivotCache/pivotCacheDefinition1.xml"');
+        expect(await read('xl/pivotCache/_rels/pivotCacheDefinition1.xml.rels')).toContain('Target="pivotCacheRecords1.xml"');
+
+        const definition = await read('xl/pivotCache/pivotCacheDefinition1.xml');
+        expect(definition).toContain('<worksheetSource ref="A1:D4" sheet="Data"/>');
+        expect(definition).toContain('<sharedItems count="2"><s v="West"/><s v="East"/></sharedItems>');
+        expect(await read('xl/pivotCache/pivotCacheRecords1.xml')).toContain('<r><x v="0"/><x v="0"/><n v="5"/><n v="1"/></r>');
+    });
+
+    it('lists items in sort order and lays out the row and column items', async () => {
+        const pivotTable = await (await buildPackage())('xl/pivotTables/pivotTable1.xml');
+
+        // Region items: East (1), West (0); City items: Boston (2), LA (0), NYC (1)
+        expect(pivotTable).toContain('<items count="3"><item x="1"/><item x="0"/><item t="default"/></items>');
+        expect(pivotTable).toContain('<items count="4"><item x="2"/><item x="0"/><item x="1"/><item t="default"/></items>');
+        expect(pivotTable).toContain('<rowItems count="6"><i><x/><x/></i><i r="1"><x v="2"/></i><i t="default"><x/></i>' +
+            '<i><x v="1"/><x v="1"/></i><i t="default"><x v="1"/></i><i t="grand"><x/></i></rowItems>');
+        expect(pivotTable).toContain('<colItems count="1"><i/></colItems>');
+        expect(pivotTable).toContain('<location ref="A3:C9" firstHeaderRow="1" firstDataRow="1" firstDataCol="2"/>');
+    });
+
+    it('repeats column items per data field and sizes the location to match', async () => {
+        const pivotTable = await (await buildPackage({
+            rowFields: [1],
+            colFields: [0],
+            dataFields: [{ field: 2, name: 'Sum of Sales', subtotal: 'sum' }, { field: 3, name: 'Max of Qty', subtotal: 'max' }],
+            sortDescending: [0],
+            showSubtotals: false
+        }))('xl/pivotTables/pivotTable1.xml');
+
+        expect(pivotTable).toContain('<items count="2"><item x="0"/><item x="1"/></items>');
+        expect(pivotTable).toContain('<colFields count="2"><field x="0"/><field x="-2"/></colFields>');
+        expect(pivotTable).toContain('<colItems count="6"><i><x/><x/></i><i r="1" i="1"><x v="1"/></i>' +
+            '<i><x v="1"/><x/></i><i r="1" i="1"><x v="1"/></i><i t="grand"><x/></i><i t="grand" i="1"><x/></i></colItems>');
+        // Caption row, two column header rows, three cities and the grand total row
+        expect(pivotTable).toContain('<location ref="A3:G9" firstHeaderRow="1" firstDataRow="3" firstDataCol="1"/>');
+    });
+});
@@ -0,0 +1,414 @@
+/**
+ * Native Excel PivotTable Utility
+ * ExcelJS cannot write pivot tables, so the pivot cache and pivot table parts are added
+ * to the finished workbook package with JSZip
+ */
+
+import JSZip from 'jszip';
+import type ExcelJS from 'exceljs';
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const CONTENT_TYPE_PREFIX = 'application/vnd.openxmlformats-officedocument.spreadsheetml';
+
+// Number formats Excel knows by id; ExcelJS only lists custom formats in styles.xml
+const BUILT_IN_NUM_FMTS: Record<string, number> = {
+    'General': 0,
+    '0': 1,
+    '0.00': 2,
+    '#,##0': 3,
+    '#,##0.00': 4,
+    '0%': 9,
+    '0.00%': 10,
+    '0.00E+00': 11
+};
+
+export type PivotSubtotal = 'sum' | 'average' | 'min' | 'max' | 'count';
+
+export interface NativePivotDataField {
+    field: number; // Index into fields
+    name: string; // Caption, must differ from every field name
+    subtotal: PivotSubtotal;
+    numFmt?: string; // Excel format code, also applied to the data sheet column
+}
+
+/**
+ * One PivotTable and the cache over its source range
+ */
+export interface NativePivotSpec {
+    sheetId: number; // ExcelJS worksheet id of the sheet holding the pivot table
+    dataSheetName: string; // Sheet with the source rows, header in row 1
+    location: { row: number, column: number }; // Top-left cell of the pivot table
+    fields: string[]; // Source column headers, in sheet order
+    records: Array<Array<string | number | null>>; // Source rows, in sheet order
+    rowFields: number[];
+    colFields: number[];
+    dataFields: NativePivotDataField[];
+    sortDescending: number[]; // Axis fields whose items are sorted descending (others ascending)
+    showSubtotals: boolean;
+    rowGrandTotals: boolean; // Grand total column at the right
+    colGrandTotals: boolean; // Grand total row at the bottom
+}
+
+const escapeXml = (value: string): string => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const unescapeXml = (value: string): string => value
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+
+function columnLetter(column: number): string {
+    let letter = '';
+    for (let n = column; n > 0; n = Math.floor((n - 1) / 26)) {
+        letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+    }
+    return letter;
+}
+
+/**
+ * Describe the values of one cache field. Axis fields share their distinct values
+ * (records point at them by index), other fields only get their type flags.
+ */
+function buildSharedItems(values: Array<string | number | null>, shared: boolean) {
+    let hasString = false, hasNumber = false, hasBlank = false, allIntegers = true;
+    let min = Infinity, max = -Infinity;
+    const items: Array<string | number | null> = [];
+    const index = new Map<string | number | null, number>();
+
+    values.forEach(value => {
+        if (value === null) hasBlank = true;
+        else if (typeof value === 'number') {
+            hasNumber = true;
+            if (!Number.isInteger(value)) allIntegers = false;
+            min = Math.min(min, value);
+            max = Math.max(max, value);
+        } else hasString = true;
+
+        if (shared && !index.has(value)) {
+            index.set(value, items.length);
+            items.push(value);
+        }
+    });
+
+    const attrs: string[] = [];
+    if (!hasString) {
+        attrs.push(hasBlank && !hasNumber ? 'containsString="0"' : 'containsSemiMixedTypes="0" containsString="0"');
+    }
+    if (hasNumber) {
+        if (hasString) attrs.push('containsMixedTypes="1"');
+        attrs.push('containsNumber="1"');
+        if (allIntegers) attrs.push('containsInteger="1"');
+        attrs.push(`minValue="${min}" maxValue="${max}"`);
+    }
+    if (hasBlank) attrs.push('containsBlank="1"');
+
+    const itemXml = items.map(item => item === null ? '<m/>'
+        : typeof item === 'number' ? `<n v="${item}"/>`
+            : `<s v="${escapeXml(item)}"/>`).join('');
+
+    if (shared) attrs.push(`count="${items.length}"`);
+    const open = ['sharedItems', ...attrs].join(' ');
+
+    return {
+        xml: shared ? `<${open}>${itemXml}</sharedItems>` : `<${open}/>`,
+        items,
+        index
+    };
+}
+
+function buildCacheParts(spec: NativePivotSpec, recordsRelId: string) {
+    const axisFields = new Set([...spec.rowFields, ...spec.colFields]);
+    const lastRow = spec.records.length + 1;
+    const sourceRef = `A1:${columnLetter(spec.fields.length)}${lastRow}`;
+
+    const sharedItems = spec.fields.map((_, fieldIdx) =>
+        buildSharedItems(spec.records.map(record => record[fieldIdx] ?? null), axisFields.has(fieldIdx)));
+
+    const cacheFields = spec.fields.map((name, fieldIdx) =>
+        `<cacheField name="${escapeXml(name)}" numFmtId="0">${sharedItems[fieldIdx].xml}</cacheField>`).join('');
+
+    // refreshOnLoad lets Excel rebuild the cache (and the pivot layout) when the file is opened
+    const definition = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        `<pivotCacheDefinition xmlns="${MAIN_NS}" xmlns:r="${REL_NS}" r:id="${recordsRelId}" refreshOnLoad="1" ` +
+        `createdVersion="6" refreshedVersion="6" minRefreshableVersion="3" recordCount="${spec.records.length}">` +
+        `<cacheSource type="worksheet"><worksheetSource ref="${sourceRef}" sheet="${escapeXml(spec.dataSheetName)}"/></cacheSource>` +
+        `<cacheFields count="${spec.fields.length}">${cacheFields}</cacheFields>` +
+        '</pivotCacheDefinition>';
+
+    const recordXml: string[] = spec.records.map(record => '<r>' + spec.fields.map((_, fieldIdx) => {
+        const value = record[fieldIdx] ?? null;
+        if (axisFields.has(fieldIdx)) return `<x v="${sharedItems[fieldIdx].index.get(value)}"/>`;
+        if (value === null) return '<m/>';
+        return typeof value === 'number' ? `<n v="${value}"/>` : `<s v="${escapeXml(value)}"/>`;
+    }).join('') + '</r>');
+
+    const records = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        `<pivotCacheRecords xmlns="${MAIN_NS}" xmlns:r="${REL_NS}" count="${spec.records.length}">` +
+        recordXml.join('') +
+        '</pivotCacheRecords>';
+
+    return { definition, records, sharedItems };
+}
+
+type SharedItems = ReturnType<typeof buildSharedItems>;
+
+/**
+ * Compare cache items the way Excel sorts pivot items: numbers before text, text
+ * without regard to case, blanks last in either direction
+ */
+function compareItems(a: string | number | null, b: string | number | null, descending: boolean): number {
+    if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+
+    let result: number;
+    if (typeof a === 'number' && typeof b === 'number') result = a - b;
+    else if (typeof a === 'number') result = -1;
+    else if (typeof b === 'number') result = 1;
+    else result = a.localeCompare(b, undefined, { sensitivity: 'base' });
+    return descending ? -result : result;
+}
+
+/**
+ * Lines of one pivot axis (rowItems or colItems) in tabular form: each member combination
+ * found in the records in item order, the subtotals of its groups and the grand total.
+ * tuples hold positions in the pivotField items of the axis fields; with the "Values"
+ * field (-2) every line is repeated once per data field.
+ */
+function buildAxisItems(
+    tag: string,
+    tuples: number[][],
+    fieldCount: number,
+    dataFieldCount: number,
+    showSubtotals: boolean,
+    grandTotal: boolean
+): { xml: string, count: number } {
+    const x = (v: number) => v === 0 ? '<x/>' : `<x v="${v}"/>`;
+    const line = (members: number[], attrs: { t?: string, r?: number, i?: number }) =>
+        `<i${attrs.t ? ` t="${attrs.t}"` : ''}${attrs.r ? ` r="${attrs.r}"` : ''}${attrs.i ? ` i="${attrs.i}"` : ''}>` +
+        `${members.map(x).join('')}</i>`;
+    const dataIdxs = Array.from({ length: dataFieldCount }, (_, i) => i);
+    const withValues = dataFieldCount > 1;
+    const lines: string[] = [];
+
+    if (fieldCount === 0 && !withValues) {
+        lines.push('<i/>');
+    } else if (fieldCount === 0) {
+        dataIdxs.forEach(i => lines.push(line([i], { i })));
+    } else {
+        let previous: number[] = [];
+        tuples.forEach((tuple, tupleIdx) => {
+            (withValues ? dataIdxs : [0]).forEach(i => {
+                const members = withValues ? [...tuple, i] : tuple;
+                let r = 0;
+                while (r < members.length - 1 && members[r] === previous[r]) r++;
+                lines.push(line(members.slice(r), { r, i }));
+                previous = members;
+            });
+
+            // Close the groups that end here, innermost first
+            const next = tuples[tupleIdx + 1];
+            for (let level = fieldCount - 2; showSubtotals && level >= 0; level--) {
+                if (next && next.slice(0, level + 1).every((v, idx) => v === tuple[idx])) break;
+                (withValues ? dataIdxs : [0]).forEach(i => lines.push(line([tuple[level]], { t: 'default', r: level, i })));
+            }
+        });
+        if (grandTotal) {
+            (withValues ? dataIdxs : [0]).forEach(i => lines.push(line([0], { t: 'grand', i })));
+        }
+    }
+
+    return { xml: `<${tag} count="${lines.length}">${lines.join('')}</${tag}>`, count: lines.length };
+}
+
+function buildPivotTable(
+    spec: NativePivotSpec,
+    name: string,
+    cacheId: number,
+    sharedItems: SharedItems[],
+    numFmtIds: number[]
+): string {
+    const rowAxis = new Set(spec.rowFields);
+    const colAxis = new Set(spec.colFields);
+    const dataFieldIdx = new Set(spec.dataFields.map(df => df.field));
+    const subtotal = spec.showSubtotals ? '' : ' defaultSubtotal="0"';
+
+    // Axis items are listed in sort order, as Excel does for sortType; positions map
+    // each shared item to its place in that list
+    const positions = spec.fields.map((_, fieldIdx) => {
+        const order = sharedItems[fieldIdx].items.map((_, i) => i);
+        const descending = spec.sortDescending.includes(fieldIdx);
+        order.sort((a, b) => compareItems(sharedItems[fieldIdx].items[a], sharedItems[fieldIdx].items[b], descending));
+        return order;
+    });
+
+    const pivotFields = spec.fields.map((_, fieldIdx) => {
+        const axis = rowAxis.has(fieldIdx) ? 'axisRow' : colAxis.has(fieldIdx) ? 'axisCol' : null;
+        const dataField = dataFieldIdx.has(fieldIdx) ? ' dataField="1"' : '';
+        if (!axis) return `<pivotField${dataField} compact="0" outline="0" showAll="0"${subtotal}/>`;
+
+        const items = positions[fieldIdx].map(itemIdx => `<item x="${itemIdx}"/>`);
+        if (spec.showSubtotals) items.push('<item t="default"/>');
+        const sortType = spec.sortDescending.includes(fieldIdx) ? 'descending' : 'ascending';
+        return `<pivotField axis="${axis}"${dataField} compact="0" outline="0" showAll="0" sortType="${sortType}"${subtotal}>` +
+            `<items count="${items.length}">${items.join('')}</items></pivotField>`;
+    }).join('');
+
+    // Distinct member combinations of an axis, as item positions in sort order
+    const axisTuples = (fields: number[]) => {
+        const itemPosition = fields.map(fieldIdx => {
+            const byItem = new Map<number, number>();
+            positions[fieldIdx].forEach((itemIdx, position) => byItem.set(itemIdx, position));
+            return byItem;
+        });
+        const tuples = new Map<string, number[]>();
+        spec.records.forEach(record => {
+            const tuple = fields.map((fieldIdx, level) =>
+                itemPosition[level].get(sharedItems[fieldIdx].index.get(record[fieldIdx] ?? null)!)!);
+            tuples.set(tuple.join(','), tuple);
+        });
+        return Array.from(tuples.values()).sort((a, b) => {
+            const level = a.findIndex((v, idx) => v !== b[idx]);
+            return level === -1 ? 0 : a[level] - b[level];
+        });
+    };
+
+    // Several value fields need the "Values" pseudo field (-2) on the column axis
+    const dataFieldCount = Math.max(1, spec.dataFields.length);
+    const colFields = spec.dataFields.length > 1 ? [...spec.colFields, -2] : spec.colFields;
+    const fieldList = (tag: string, fields: number[]) => fields.length > 0
+        ? `<${tag} count="${fields.length}">${fields.map(x => `<field x="${x}"/>`).join('')}</${tag}>`
+        : '';
+    const rowItems = buildAxisItems('rowItems', axisTuples(spec.rowFields), spec.rowFields.length, 1,
+        spec.showSubtotals, spec.colGrandTotals && spec.rowFields.length > 0);
+    const colItems = buildAxisItems('colItems', axisTuples(spec.colFields), spec.colFields.length, dataFieldCount,
+        spec.showSubtotals, spec.rowGrandTotals && spec.colFields.length > 0);
+
+    const dataFields = spec.dataFields.map((df, idx) => {
+        const fn = df.subtotal === 'sum' ? '' : ` subtotal="${df.subtotal}"`;
+        const fmt = numFmtIds[idx] ? ` numFmtId="${numFmtIds[idx]}"` : '';
+        return `<dataField name="${escapeXml(df.name)}" fld="${df.field}"${fn} baseField="0" baseItem="0"${fmt}/>`;
+    }).join('');
+
+    // Tabular layout: a caption row and one header row per column field, one label
+    // column per row field, then a line per row and column item
+    const firstDataRow = 1 + colFields.length;
+    const firstDataCol = Math.max(1, spec.rowFields.length);
+    const { row, column } = spec.location;
+    const lastRow = row + firstDataRow + rowItems.count - 1;
+    const lastColumn = column + firstDataCol + colItems.count - 1;
+    const ref = `${columnLetter(column)}${row}:${columnLetter(lastColumn)}${lastRow}`;
+
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        `<pivotTableDefinition xmlns="${MAIN_NS}" name="${escapeXml(name)}" cacheId="${cacheId}" ` +
+        'applyNumberFormats="0" applyBorderFormats="0" applyFontFormats="0" applyPatternFormats="0" ' +
+        'applyAlignmentFormats="0" applyWidthHeightFormats="1" dataCaption="Values" updatedVersion="6" ' +
+        'minRefreshableVersion="3" useAutoFormatting="1" itemPrintTitles="1" createdVersion="6" indent="0" ' +
+        `compact="0" compactData="0" multipleFieldFilters="0"` +
+        `${spec.rowGrandTotals ? '' : ' rowGrandTotals="0"'}${spec.colGrandTotals ? '' : ' colGrandTotals="0"'}>` +
+        `<location ref="${ref}" firstHeaderRow="1" firstDataRow="${firstDataRow}" firstDataCol="${firstDataCol}"/>` +
+        `<pivotFields count="${spec.fields.length}">${pivotFields}</pivotFields>` +
+        fieldList('rowFields', spec.rowFields) +
+        rowItems.xml +
+        fieldList('colFields', colFields) +
+        colItems.xml +
+        (dataFields ? `<dataFields count="${spec.dataFields.length}">${dataFields}</dataFields>` : '') +
+        '<pivotTableStyleInfo name="PivotStyleLight16" showRowHeaders="1" showColHeaders="1" ' +
+        'showRowStripes="0" showColStripes="0" showLastColumn="1"/>' +
+        '</pivotTableDefinition>';
+}
+
+/**
+ * Map each data field's format code to its id in styles.xml (the data sheet cells
+ * carrying the format make ExcelJS register it there)
+ */
+function resolveNumFmtIds(stylesXml: string, dataFields: NativePivotDataField[]): number[] {
+    const custom = new Map<string, number>();
+    for (const match of stylesXml.matchAll(/<numFmt numFmtId="(\d+)" formatCode="([^"]*)"\/>/g)) {
+        custom.set(unescapeXml(match[2]), Number(match[1]));
+    }
+    return dataFields.map(df => df.numFmt ? BUILT_IN_NUM_FMTS[df.numFmt] ?? custom.get(df.numFmt) ?? 0 : 0);
+}
+
+function addRelationship(relsXml: string | null, id: string, type: string, target: string): string {
+    const rel = `<Relationship Id="${id}" Type="${REL_NS}/${type}" Target="${target}"/>`;
+    if (!relsXml) {
+        return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Relationships xmlns="${PACKAGE_REL_NS}">${rel}</Relationships>`;
+    }
+    return relsXml.replace('</Relationships>', `${rel}</Relationships>`);
+}
+
+/**
+ * Add a native PivotTable (with its pivot cache) for every spec to an xlsx package
+ * written by ExcelJS
+ */
+export async function addNativePivotTables(buffer: ExcelJS.Buffer, specs: NativePivotSpec[]): Promise<ExcelJS.Buffer> {
+    if (specs.length === 0) return buffer;
+
+    const zip = await JSZip.loadAsync(buffer);
+    const read = async (path: string) => (await zip.file(path)?.async('string')) ?? null;
+
+    let workbookXml = (await read('xl/workbook.xml'))!;
+    let workbookRels = (await read('xl/_rels/workbook.xml.rels'))!;
+    let contentTypes = (await read('[Content_Types].xml'))!;
+    const stylesXml = (await read('xl/styles.xml')) || '';
+
+    const pivotCaches: string[] = [];
+    const overrides: string[] = [];
+
+    for (const [idx, spec] of specs.entries()) {
+        const n = idx + 1;
+        const cacheId = n;
+        const cacheRelId = `rIdPivotCache${n}`;
+
+        // Worksheet part of the pivot sheet: sheetId -> r:id -> target
+        const sheetRelId = new RegExp(`<sheet [^>]*sheetId="${spec.sheetId}"[^>]*r:id="([^"]+)"`).exec(workbookXml)?.[1];
+        const sheetTarget = sheetRelId && new RegExp(`<Relationship [^>]*Id="${sheetRelId}"[^>]*Target="([^"]+)"`).exec(workbookRels)?.[1];
+        if (!sheetTarget) throw new Error(`Could not locate the worksheet for pivot table ${n}`);
+        const sheetPath = `xl/${sheetTarget.replace(/^\/?xl\//, '')}`;
+        const sheetFile = sheetPath.split('/').pop()!;
+        const sheetRelsPath = sheetPath.replace(sheetFile, `_rels/${sheetFile}.rels`);
+
+        // 1. Pivot cache definition and records
+        const { definition, records, sharedItems } = buildCacheParts(spec, 'rId1');
+        zip.file(`xl/pivotCache/pivotCacheDefinition${n}.xml`, definition);
+        zip.file(`xl/pivotCache/pivotCacheRecords${n}.xml`, records);
+        zip.file(`xl/pivotCache/_rels/pivotCacheDefinition${n}.xml.rels`,
+            addRelationship(null, 'rId1', 'pivotCacheRecords', `pivotCacheRecords${n}.xml`));
+
+        // 2. Pivot table, related to its sheet and its cache
+        const numFmtIds = resolveNumFmtIds(stylesXml, spec.dataFields);
+        zip.file(`xl/pivotTables/pivotTable${n}.xml`, buildPivotTable(spec, `PivotTable${n}`, cacheId, sharedItems, numFmtIds));
+        zip.file(`xl/pivotTables/_rels/pivotTable${n}.xml.rels`,
+            addRelationship(null, 'rId1', 'pivotCacheDefinition', `../pivotCache/pivotCacheDefinition${n}.xml`));
+        zip.file(sheetRelsPath, addRelationship(await read(sheetRelsPath), `rIdPivotTable${n}`, 'pivotTable', `../pivotTables/pivotTable${n}.xml`));
+
+        // 3. Workbook registration
+        workbookRels = addRelationship(workbookRels, cacheRelId, 'pivotCacheDefinition', `pivotCache/pivotCacheDefinition${n}.xml`);
+        pivotCaches.push(`<pivotCache cacheId="${cacheId}" r:id="${cacheRelId}"/>`);
+        overrides.push(
+            `<Override PartName="/xl/pivotCache/pivotCacheDefinition${n}.xml" ContentType="${CONTENT_TYPE_PREFIX}.pivotCacheDefinition+xml"/>`,
+            `<Override PartName="/xl/pivotCache/pivotCacheRecords${n}.xml" ContentType="${CONTENT_TYPE_PREFIX}.pivotCacheRecords+xml"/>`,
+            `<Override PartName="/xl/pivotTables/pivotTable${n}.xml" ContentType="${CONTENT_TYPE_PREFIX}.pivotTable+xml"/>`
+        );
+    }
+
+    // pivotCaches follows calcPr in the workbook schema
+    const pivotCachesXml = `<pivotCaches>${pivotCaches.join('')}</pivotCaches>`;
+    const calcPr = /<calcPr[^>]*\/>/.exec(workbookXml);
+    workbookXml = calcPr
+        ? workbookXml.replace(calcPr[0], calcPr[0] + pivotCachesXml)
+        : workbookXml.replace('</workbook>', `${pivotCachesXml}</workbook>`);
+    contentTypes = contentTypes.replace('</Types>', `${overrides.join('')}</Types>`);
+
+    zip.file('xl/workbook.xml', workbookXml);
+    zip.file('xl/_rels/workbook.xml.rels', workbookRels);
+    zip.file('[Content_Types].xml', contentTypes);
+
+    return zip.generateAsync({ type: 'arraybuffer', compression: 'DEFLATE' });
+}
@@ -1,6 +1,12 @@
 import JSZip from 'jszip';
 import { exportToExcel } from './exportToExcel';
+import { exportToPDF } from './exportToPDF';
+import { exportToODS } from './exportToODS';
+import { exportToHTML } from './exportToHTML';
 import { exportToCSV, exportRawDataToCSV, exportStreamingPivotToCSV } from './exportToCSV';
+import type { DataPages } from './exportToCSV';
+import { getSheetFileFormat } from './fileFormats';
+import { processPivotData } from './pivotHelper';
 import type { Config, Column } from '../types';
 import type { PivotDataResult } from './pivotHelper';
 
@@ -10,13 +16,41 @@ interface ExportSheetData {
     filters: any[];
     allFields: Column[];
     sheetName: string;
-    rawDataSource?: any; // Tableau DataTable
+    rawDataSource?: DataPages;
+    sourceRows?: Record<string, unknown>[];
+}
+
+/**
+ * Everything needed to export one worksheet. Built on the main thread (which owns
+ * the Tableau API) and processed in the export worker.
+ */
+export interface ExportSheetInput {
+    config: Config;
+    rows: Record<string, unknown>[]; // getSummaryDataAsync rows keyed by fieldName
+    gcData: Record<string, unknown>[] | null;
+    rcData: Record<string, unknown>[] | null;
+    rawData?: DataPages; // Only for 'datadump' and 'underlying' sheets
+    streamsPages?: boolean; // rawData arrives page by page after the export starts (see exportWorkerClient)
+    filters: any[];
+    allFields: Column[];
+    sheetName: string;
+}
+
+export interface ExportProgress {
+    phase: 'fetching' | 'processing' | 'writing' | 'packaging';
+    percent: number; // 0-100
+    message: string;
+}
+
+export interface ExportFile {
+    filename: string;
+    blob: Blob;
 }
 
 /**
  * Helper to trigger file download
  */
-function downloadFile(filename: string, content: Blob | string, mimeType: string) {
+export function downloadFile(filename: string, content: Blob | string, mimeType: string) {
     const blob = content instanceof Blob
         ? content
         : new Blob([content], { type: mimeType });
@@ -29,53 +63,230 @@ function downloadFile(filename: string, content: Blob | string, mimeType: string
     document.body.removeChild(link);
 }
 
+const isFormattedSheet = (config: Config) => config.exportMode === 'formatted' || !config.exportMode;
+
+const isExcelSheet = (config: Config) =>
+    (isFormattedSheet(config) && (!config.formattedFormat || config.formattedFormat === 'excel' || config.formattedFormat === 'both')) ||
+    (config.exportMode === 'underlying' && config.underlyingFormat === 'excel') ||
+    (config.exportMode === 'datadump' && config.datadumpFormat === 'excel');
+
+const isPdfSheet = (config: Config) =>
+    isFormattedSheet(config) && (config.formattedFormat === 'pdf' || config.formattedFormat === 'both');
+
+const isHtmlSheet = (config: Config) => isFormattedSheet(config) && config.formattedFormat === 'html';
+
+// CSV, TSV, JSON, split JSON, NDJSON or Parquet (see fileFormats)
+const isFlatFileSheet = (config: Config) => !isFormattedSheet(config) && !isExcelSheet(config);
+
+/**
+ * Short description of the file(s) a sheet is exported to, e.g. "Excel + PDF" or "Parquet"
+ */
+export function describeSheetOutput(config: Config): string {
+    const outputs: string[] = [];
+    if (isExcelSheet(config)) {
+        if (config.spreadsheetFormat === 'ods') outputs.push('ODS');
+        else outputs.push(isFormattedSheet(config) && config.pivotTableOutput === 'native' ? 'Excel PivotTable' : 'Excel');
+    }
+    if (isPdfSheet(config)) outputs.push('PDF');
+    if (isHtmlSheet(config)) outputs.push('HTML');
+    if (isFlatFileSheet(config)) outputs.push(getSheetFileFormat(config).label);
+    return outputs.join(' + ');
+}
+
+// Excel sheets share one workbook file, written as .ods when any of them asks for it
+const getSpreadsheetFormat = (inputs: ExportSheetInput[]) =>
+    inputs.some(i => isExcelSheet(i.config) && i.config.spreadsheetFormat === 'ods') ? 'ods' : 'xlsx';
+
+const usesRawData = (input: ExportSheetInput) =>
+    (input.config.exportMode === 'datadump' || input.config.exportMode === 'underlying') && !!input.rawData;
+
+/**
+ * Indices of the streamsPages sheets in the order buildExportFiles reads their pages:
+ * spreadsheet sheets first, then flat files. Their pages have to be sent in this order,
+ * as each page is only read from Tableau once the previous one has been taken.
+ */
+export function getPageReadOrder(inputs: ExportSheetInput[]): number[] {
+    const paged = inputs.map((input, idx) => input.streamsPages ? idx : -1).filter(idx => idx !== -1);
+    return [
+        ...paged.filter(idx => isExcelSheet(inputs[idx].config)),
+        ...paged.filter(idx => !isExcelSheet(inputs[idx].config))
+    ];
+}
+
 /**
- * Manages the export process for both Excel and CSV formats.
- * - Excel sheets are ALWAYS downloaded as a separate .xlsx file.
- * - CSV sheets are downloaded separately:
- *   - If 1 CSV sheet: Download as .csv
- *   - If > 1 CSV sheets: Zip them and download as .zip
+ * Pivot a formatted sheet's rows with the totals and subtotals from its config
  */
-export async function exportData(
-    sheets: ExportSheetData[],
-    workbookName: string = 'Report'
-): Promise<void> {
+export function buildPivotResult(input: ExportSheetInput): PivotDataResult {
+    const { config, rows, gcData, rcData } = input;
+    return processPivotData(
+        rows,
+        config.groupColumns,
+        config.pivotColumns,
+        config.valueColumns,
+        {
+            showRowTotals: config.showRowTotals,
+            rowTotalsPosition: config.rowTotalsPosition,
+            showColumnTotals: config.showColumnTotals,
+            columnTotalsPosition: config.columnTotalsPosition,
+            showSubtotals: config.showSubtotals,
+            subtotalLevels: config.subtotalLevels,
+            subtotalLabels: config.subtotalLabels,
+            useCustomSubtotalLabels: config.useCustomSubtotalLabels
+        },
+        gcData || undefined,
+        rcData || undefined,
+        config.metricGroups
+    );
+}
+
+/**
+ * Turn a worksheet input into export data, running the pivot unless the raw table is exported
+ */
+async function prepareSheet(input: ExportSheetInput, spreadsheetFormat: 'xlsx' | 'ods'): Promise<ExportSheetData> {
+    const { config, rows, rawData, filters, allFields, sheetName } = input;
+
+    // Raw data is written as-is: a flat Excel table or CSV
+    if (usesRawData(input)) {
+        return {
+            config,
+            pivotResult: { headerRows: [], rowHeaders: [], dataMatrix: [] }, // Dummy pivot result
+            filters,
+            allFields,
+            sheetName,
+            rawDataSource: rawData
+        };
+    }
+
+    // Native pivot tables are built by Excel from the source rows; a PDF still needs the pivot.
+    // ODS has no pivot tables, so the formatted cross-tab is written instead.
+    const nativePivot = config.pivotTableOutput === 'native' && isExcelSheet(config) && spreadsheetFormat === 'xlsx';
+    if (nativePivot && !isPdfSheet(config)) {
+        return {
+            config,
+            pivotResult: { headerRows: [], rowHeaders: [], dataMatrix: [] },
+            filters,
+            allFields,
+            sheetName,
+            sourceRows: rows
+        };
+    }
+
+    const pivotResult = buildPivotResult(input);
+
+    return { config, pivotResult, filters, allFields, sheetName, sourceRows: nativePivot ? rows : undefined };
+}
+
+/**
+ * Builds the export files for the Excel, PDF and flat file formats. Runs without the DOM or
+ * the Tableau API so it can run inside the export worker.
+ * - Excel sheets are ALWAYS returned as a separate .xlsx (or .ods, see Config.spreadsheetFormat) file.
+ * - PDF sheets are returned together as one .pdf file.
+ * - HTML sheets are returned together as one self-contained .html file.
+ * - Flat file sheets (CSV, TSV, JSON, split JSON, NDJSON, Parquet) are returned separately:
+ *   - If 1 flat file sheet: a file in that sheet's format
+ *   - If > 1 flat file sheets: zipped into one .zip file
+ */
+export async function buildExportFiles(
+    inputs: ExportSheetInput[],
+    workbookName: string = 'Report',
+    onProgress?: (progress: ExportProgress) => void
+): Promise<ExportFile[]> {
     try {
-        const excelSheets = sheets.filter(s => s.config.exportMode === 'formatted' || !s.config.exportMode);
-        const csvSheets = sheets.filter(s => s.config.exportMode === 'datadump');
+        const files: ExportFile[] = [];
+        const excelCount = inputs.filter(i => isExcelSheet(i.config)).length;
+        const pdfCount = inputs.filter(i => isPdfSheet(i.config)).length;
+        const htmlCount = inputs.filter(i => isHtmlSheet(i.config)).length;
+        const csvCount = inputs.filter(i => isFlatFileSheet(i.config)).length;
         const timestamp = new Date().toISOString().replace(/[:.]/g, '-').split('T')[0];
+        const spreadsheetFormat = getSpreadsheetFormat(inputs);
 
-        // 1. Handle Excel Export
-        if (excelSheets.length > 0) {
-            const { filename, buffer } = await exportToExcel(excelSheets, workbookName);
-            downloadFile(
+        // Progress is counted in steps: one per pivot, per sheet written, per workbook written
+        // and per zip. Raw data is streamed straight to its file and needs no preparation.
+        const pivotCount = inputs.filter(i => !usesRawData(i)).length;
+        const totalSteps = Math.max(1, pivotCount + (excelCount > 0 ? excelCount + 1 : 0) + pdfCount + htmlCount + csvCount + (csvCount > 1 ? 1 : 0));
+        let completedSteps = 0;
+        const report = (phase: ExportProgress['phase'], message: string, fraction: number = 0) => {
+            onProgress?.({
+                phase,
+                message,
+                percent: Math.min(100, Math.round(((completedSteps + fraction) / totalSteps) * 100))
+            });
+        };
+
+        // 1. Process pivots
+        const sheets: ExportSheetData[] = [];
+        for (const input of inputs) {
+            const prepares = !usesRawData(input);
+            if (prepares) report('processing', `Processing ${input.sheetName}...`);
+            sheets.push(await prepareSheet(input, spreadsheetFormat));
+            if (prepares) completedSteps++;
+        }
+
+        const excelSheets = sheets.filter((_, idx) => isExcelSheet(inputs[idx].config));
+        const pdfSheets = sheets.filter((_, idx) => isPdfSheet(inputs[idx].config));
+        const htmlSheets = sheets.filter((_, idx) => isHtmlSheet(inputs[idx].config));
+        const csvSheets = sheets.filter((_, idx) => isFlatFileSheet(inputs[idx].config));
+
+        // 2. Handle Excel Export (OpenDocument when selected for the workbook)
+        if (excelSheets.length > 0 && spreadsheetFormat === 'ods') {
+            report('writing', 'Building OpenDocument spreadsheet...');
+            const { filename, content } = await exportToODS(excelSheets, workbookName, (completed) => {
+                report('writing', `Building OpenDocument spreadsheet (${completed}/${excelSheets.length} sheets)...`, completed);
+            });
+            completedSteps += excelSheets.length + 1;
+            files.push({ filename, blob: content });
+        } else if (excelSheets.length > 0) {
+            report('writing', 'Building Excel workbook...');
+            const { filename, buffer } = await exportToExcel(excelSheets, workbookName, {
+                onProgress: (completed) => {
+                    report('writing', completed < excelSheets.length
+                        ? `Building Excel workbook (${completed}/${excelSheets.length} sheets)...`
+                        : 'Writing Excel file...', completed);
+                }
+            });
+            completedSteps += excelSheets.length + 1;
+            files.push({
                 filename,
-                new Blob([buffer]),
-                'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
-            );
+                blob: new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' })
+            });
+        }
+
+        // 3. Handle PDF Export
+        if (pdfSheets.length > 0) {
+            report('writing', 'Building PDF report...');
+            const { filename, content } = await exportToPDF(pdfSheets, workbookName, (completed) => {
+                report('writing', `Building PDF report (${completed}/${pdfSheets.length} sheets)...`, completed);
+            });
+            completedSteps += pdfSheets.length;
+            files.push({ filename, blob: content });
         }
 
-        // 2. Handle CSV Export
+        // 4. Handle HTML Export
+        if (htmlSheets.length > 0) {
+            report('writing', 'Building HTML report...');
+            const { filename, content } = await exportToHTML(htmlSheets, workbookName, (completed) => {
+                report('writing', `Building HTML report (${completed}/${htmlSheets.length} sheets)...`, completed);
+            });
+            completedSteps += htmlSheets.length;
+            files.push({ filename, blob: content });
+        }
+
+        // 5. Handle CSV / flat file Export
         if (csvSheets.length > 0) {
             const csvFiles: Array<{ filename: string, content: Blob }> = [];
 
             for (const sheet of csvSheets) {
+                const onRows = (processed: number, total: number) => {
+                    report('writing', `Writing ${sheet.sheetName} (${processed.toLocaleString()} of ${total.toLocaleString()} rows)...`,
+                        total > 0 ? processed / total : 1);
+                };
+
                 let result;
                 if (sheet.rawDataSource) {
-                    // Use optimized path for raw data
-                    // If exportMode is 'datadump' AND we have pivot columns configured, user might want pivot structure?
-                    // Actually, 'datadump' usually means "Raw Data".
-                    // But the user asked "What If I want the output to follow my pivot configurations?".
-                    // If they select "Data Dump" mode in config, they usually expect raw data.
-                    // If they select "Formatted" (Excel), they get Excel.
-                    // We might need a new mode or just infer.
-                    // For now, let's assume if they are in 'datadump' mode but have rawDataSource, we check if they have pivot columns.
-                    // If they have pivot columns, we use Streaming Pivot.
-                    // If NOT, we use Raw Data Export.
-
-                    // However, 'datadump' is often used for "CSV Export".
-                    // Let's check if the config has pivot columns.
-                    const hasPivot = sheet.config.pivotColumns.length > 0 || sheet.config.groupColumns.length > 0;
+                    // Data Dump with pivot columns keeps the pivot structure via the streaming pivot,
+                    // otherwise (and always for underlying data) the raw table is written as-is
+                    const hasPivot = sheet.config.exportMode !== 'underlying' &&
+                        (sheet.config.pivotColumns.length > 0 || sheet.config.groupColumns.length > 0);
 
                     if (hasPivot) {
                         console.log('Using Streaming Pivot for CSV export');
@@ -83,7 +294,8 @@ export async function exportData(
                             sheet.config,
                             sheet.rawDataSource,
                             sheet.filters,
-                            sheet.allFields
+                            sheet.allFields,
+                            onRows
                         );
                     } else {
                         console.log('Using Raw Data Export for CSV');
@@ -91,7 +303,8 @@ export async function exportData(
                             sheet.config,
                             sheet.rawDataSource,
                             sheet.filters,
-                            sheet.allFields
+                            sheet.allFields,
+                            onRows
                         );
                     }
                 } else {
@@ -100,41 +313,41 @@ export async function exportData(
                         sheet.config,
                         sheet.pivotResult,
                         sheet.filters,
-                        sheet.allFields
+                        sheet.allFields,
+                        onRows
                     );
                 }
+                completedSteps++;
                 csvFiles.push(result);
             }
 
             if (csvFiles.length === 1) {
-                // Single CSV: Download directly
-                downloadFile(
-                    csvFiles[0].filename,
-                    csvFiles[0].content,
-                    'text/csv;charset=utf-8;'
-                );
+                files.push({ filename: csvFiles[0].filename, blob: csvFiles[0].content });
             } else {
-                // Multiple CSVs: Zip them
+                // Multiple files: Zip them, named after their format when they all share one
+                const labels = new Set(csvSheets.map(sheet => getSheetFileFormat(sheet.config).label.toUpperCase()));
+                const zipLabel = labels.size === 1 ? [...labels][0] : 'Data';
+                report('packaging', `Compressing ${zipLabel} files...`);
                 const zip = new JSZip();
                 csvFiles.forEach(file => {
                     zip.file(file.filename, file.content);
                 });
 
-                const zipFilename = `${workbookName}_CSV_Export_${timestamp}.zip`;
-                const blob = await zip.generateAsync({ type: 'blob' });
-
-                downloadFile(
-                    zipFilename,
-                    blob,
-                    'application/zip'
-                );
+                const blob = await zip.generateAsync({ type: 'blob' }, metadata => {
+                    report('packaging', `Compressing ${zipLabel} files...`, metadata.percent / 100);
+                });
+                completedSteps++;
+                files.push({ filename: `${workbookName}_${zipLabel}_Export_${timestamp}.zip`, blob });
             }
         }
 
-        if (excelSheets.length === 0 && csvSheets.length === 0) {
+        if (files.length === 0) {
             console.warn('No files generated for export.');
         }
 
+        report('packaging', 'Export complete');
+        return files;
+
     } catch (error) {
         console.error('Export Manager failed:', error);
         throw error;
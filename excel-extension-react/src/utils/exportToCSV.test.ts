@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { exportStreamingPivotToCSV } from './exportToCSV';
+import type { SerializedDataTable } from './dataFetcher';
+import { defaultConfig } from '../hooks/useConfigState';
+import type { Config } from '../types';
+
+const columns: SerializedDataTable['columns'] = [
+    { fieldName: 'Region', index: 0 },
+    { fieldName: 'City', index: 1 },
+    { fieldName: 'Sales', index: 2 },
+    { fieldName: 'Qty', index: 3 }
+];
+
+const page = (rows: unknown[][]): SerializedDataTable => ({
+    columns,
+    data: rows.map(row => row.map(value => ({ value })))
+});
+
+// Pages arrive out of group order, as the summary data reader may return them
+async function* pages() {
+    yield page([['West', 'LA', 5, 1], ['East', 'NYC', 30, 4]]);
+    yield page([['East', 'Boston', 10, 2]]);
+}
+
+const config: Config = {
+    ...defaultConfig,
+    exportMode: 'datadump',
+    datadumpFormat: 'csv',
+    groupColumns: [{ id: 'Region', name: 'Region' }, { id: 'City', name: 'City' }],
+    valueColumns: [
+        { id: 'Sales', name: 'Sales', totalAggregation: 'avg' },
+        { id: 'Qty', name: 'Qty', totalAggregation: 'max' },
+        { id: 'custom_price', name: 'Price', isCustom: true, formula: '[Sales] / [Qty]', formulaRefs: { Sales: 'Sales', Qty: 'Qty' } }
+    ],
+    showSubtotals: true
+};
+
+const exportLines = async (exportConfig: Config) => {
+    const { content } = await exportStreamingPivotToCSV(exportConfig, pages(), [], []);
+    return (await content.text()).trim().split(/\r?\n/);
+};
+
+describe('exportStreamingPivotToCSV', () => {
+    it('sorts the groups and aggregates subtotals with each column\'s total aggregation', async () => {
+        expect(await exportLines(config)).toEqual([
+            'Region,City,Sales,Qty,Price',
+            'East,Boston,10,2,5',
+            'East,NYC,30,4,7.5',
+            'East Total,,20,4,5',
+            'West,LA,5,1,5',
+            'West Total,,5,1,5'
+        ]);
+    });
+
+    it('spreads pivot members over columns', async () => {
+        const lines = await exportLines({
+            ...config,
+            groupColumns: [{ id: 'Region', name: 'Region' }],
+            pivotColumns: [{ id: 'City', name: 'City' }],
+            valueColumns: [{ id: 'Sales', name: 'Sales' }]
+        });
+        expect(lines).toEqual([
+            'Region,Boston - Sales,LA - Sales,NYC - Sales',
+            'East,10,,30',
+            'West,,5,'
+        ]);
+    });
+});
@@ -1,26 +1,37 @@
 /**
  * CSV Export Utility
- * Transforms processed pivot data into CSV format
+ * Transforms processed pivot data into CSV or another flat file format (see fileFormats)
  * Optimized for large datasets using Blobs and chunked processing
  */
 
 import type { Config, Column } from '../types';
 import type { PivotDataResult } from './pivotHelper';
+import { getSubtotalLevels, getSubtotalLabel, getMetricGroupLayout, aggregateValues } from './pivotHelper';
+import { createKeyComparator, createPrefixTotals, getSortValueColumnIds } from './sortHelper';
+import { parseFormula, getFormulaFieldRefs, evaluateFormula, type FormulaNode, type FormulaValue } from './formulaEngine';
+import type { SerializedDataTable } from './dataFetcher';
+import { getSheetFileFormat } from './fileFormats';
+import type { FlatColumn } from './fileFormats';
 
 /**
- * Escape CSV value (handle quotes and commas)
+ * Raw data for the streaming exporters: a whole table, or pages as they arrive
+ * from the summary data reader
  */
-function escapeCSV(value: any): string {
-    if (value === null || value === undefined) return '';
-    const str = String(value);
-    if (str.includes('"') || str.includes(',') || str.includes('\n')) {
-        return `"${str.replace(/"/g, '""')}"`;
+export type DataPages = SerializedDataTable | AsyncIterable<SerializedDataTable>;
+
+/**
+ * Iterate the pages of a data source (a whole table is a single page)
+ */
+export async function* toPages(source: DataPages): AsyncGenerator<SerializedDataTable> {
+    if (Symbol.asyncIterator in source) {
+        yield* source;
+    } else {
+        yield source;
     }
-    return str;
 }
 
 /**
- * Build custom header rows for CSV
+ * Build custom header rows (plain text, escaped by the file writer)
  */
 function buildCustomHeaders(
     config: Config,
@@ -63,105 +74,104 @@ function buildCustomHeaders(
                 break;
         }
 
-        headerLines.push(escapeCSV(content));
+        headerLines.push(content);
     });
 
     return headerLines;
 }
 
+/**
+ * Build the output file name: <workbook>_<worksheet>_<date><suffix>.<extension>
+ */
+function buildFilename(config: Config, suffix: string, extension: string): string {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').split('T')[0];
+    const workbookName = config.workbookName || 'Report';
+    const worksheetName = config.worksheetName || config.selectedWorksheet || 'Sheet';
+    return `${workbookName}_${worksheetName}_${timestamp}${suffix}.${extension}`;
+}
+
 /**
  * Main CSV export function
- * Returns the filename and CSV content as a Blob
+ * Writes the pivot in the sheet's flat file format and returns the filename and content as a Blob
  */
 export async function exportToCSV(
     config: Config,
     pivotResult: PivotDataResult,
     filters: any[],
-    allFields: Column[]
+    allFields: Column[],
+    onProgress?: (processedRows: number, totalRows: number) => void
 ): Promise<{ filename: string, content: Blob }> {
     try {
-        const chunks: string[] = [];
+        const format = getSheetFileFormat(config);
         const CHUNK_SIZE = 2000; // Process 2000 rows at a time
 
-        // 1. Add custom headers
-        const customHeaders = buildCustomHeaders(config, filters, allFields);
-        if (customHeaders.length > 0) {
-            chunks.push(customHeaders.join('\n') + '\n');
-            // Add blank line after custom headers
-            chunks.push('\n');
-        }
-
-        // 2. Column headers
+        // 1. Column headers: one text row per header level, and a flattened name per column
         const numGroupCols = pivotResult.rowHeaders[0]?.length || 0;
-        const headerLines: string[] = [];
+        const headerRows: string[][] = [];
+        const columnLabels: string[][] = [];
 
         pivotResult.headerRows.forEach(headerRow => {
-            const csvRow: string[] = [];
-
             // Empty cells for row header columns
-            for (let i = 0; i < numGroupCols; i++) {
-                csvRow.push('');
-            }
+            const textRow: string[] = new Array(numGroupCols).fill('');
+            let colIdx = 0;
 
-            // Column header labels
+            // Column header labels, with empty cells for colSpan > 1
             headerRow.forEach(header => {
-                csvRow.push(escapeCSV(header.label));
-                // Add empty cells for colSpan > 1
+                textRow.push(header.label);
                 for (let i = 1; i < header.colSpan; i++) {
-                    csvRow.push('');
+                    textRow.push('');
+                }
+                for (let i = 0; i < header.colSpan; i++, colIdx++) {
+                    (columnLabels[colIdx] ??= []).push(header.label);
                 }
             });
 
-            headerLines.push(csvRow.join(','));
+            headerRows.push(textRow);
         });
 
-        chunks.push(headerLines.join('\n') + '\n');
+        const dataColCount = Math.max(columnLabels.length, pivotResult.dataMatrix[0]?.length || 0);
+        const columns: FlatColumn[] = [
+            ...Array.from({ length: numGroupCols }, (_, idx) => ({ name: config.groupColumns[idx]?.name || '', dataType: 'string' })),
+            ...Array.from({ length: dataColCount }, (_, idx) => ({ name: (columnLabels[idx] || []).filter(Boolean).join(' - ') }))
+        ];
+
+        // 2. Custom headers and column headers go to the writer first
+        const writer = format.createWriter({
+            columns,
+            headerRows,
+            customHeaders: buildCustomHeaders(config, filters, allFields)
+        });
 
         // 3. Data rows (Chunked Processing)
+        const repeatLabels = format.layout === 'records';
         const totalRows = pivotResult.rowHeaders.length;
 
         for (let i = 0; i < totalRows; i += CHUNK_SIZE) {
-            const chunkLines: string[] = [];
+            const chunkRows: unknown[][] = [];
             const end = Math.min(i + CHUNK_SIZE, totalRows);
 
             for (let rowIdx = i; rowIdx < end; rowIdx++) {
-                const csvRow: string[] = [];
-                const rowHeaderCells = pivotResult.rowHeaders[rowIdx];
-
-                // Row headers
-                rowHeaderCells.forEach(cell => {
-                    if (cell.isVisible) {
-                        csvRow.push(escapeCSV(cell.value));
-                    } else {
-                        csvRow.push(''); // Empty cell for merged rows
-                    }
-                });
+                // Row headers: merged cells are empty in text formats, records repeat the label
+                const row: unknown[] = pivotResult.rowHeaders[rowIdx].map(cell =>
+                    cell.isVisible || repeatLabels ? cell.value : ''
+                );
 
                 // Data cells
                 const dataRow = pivotResult.dataMatrix[rowIdx] || [];
                 dataRow.forEach(cell => {
-                    csvRow.push(escapeCSV(cell?.value ?? ''));
+                    row.push(cell?.value ?? null);
                 });
 
-                chunkLines.push(csvRow.join(','));
+                chunkRows.push(row);
             }
 
-            chunks.push(chunkLines.join('\n') + '\n');
-
-            // Yield to main thread to prevent UI freeze
-            if (i + CHUNK_SIZE < totalRows) {
-                await new Promise(resolve => setTimeout(resolve, 0));
-            }
+            writer.writeRows(chunkRows);
+            onProgress?.(end, totalRows);
         }
 
-        // 4. Create Blob
-        const blob = new Blob(chunks, { type: 'text/csv;charset=utf-8;' });
-
-        // 5. Create filename
-        const timestamp = new Date().toISOString().replace(/[:.]/g, '-').split('T')[0];
-        const workbookName = config.workbookName || 'Report';
-        const worksheetName = config.worksheetName || config.selectedWorksheet || 'Sheet';
-        const filename = `${workbookName}_${worksheetName}_${timestamp}.csv`;
+        // 4. Create Blob and filename
+        const blob = await writer.finish();
+        const filename = buildFilename(config, '', format.extension);
 
         return { filename, content: blob };
     } catch (error) {
@@ -171,66 +181,66 @@ export async function exportToCSV(
 }
 
 /**
- * Export raw Tableau data directly to CSV
+ * Export raw Tableau data directly to CSV (or the sheet's flat file format)
  * Bypasses pivot processing for maximum performance
  */
 export async function exportRawDataToCSV(
     config: Config,
-    rawDataSource: any, // Tableau DataTable
+    rawDataSource: DataPages,
     filters: any[],
-    allFields: Column[]
+    allFields: Column[],
+    onProgress?: (processedRows: number, totalRows: number) => void
 ): Promise<{ filename: string, content: Blob }> {
     try {
-        const chunks: string[] = [];
+        const format = getSheetFileFormat(config);
+        const customHeaders = buildCustomHeaders(config, filters, allFields);
         const CHUNK_SIZE = 2000;
 
-        // 1. Add custom headers
-        const customHeaders = buildCustomHeaders(config, filters, allFields);
-        if (customHeaders.length > 0) {
-            chunks.push(customHeaders.join('\n') + '\n');
-            chunks.push('\n');
-        }
+        // 1. Pages: the writer is created with the columns of the first page, rows are written as each page arrives
+        let writer: ReturnType<typeof format.createWriter> | null = null;
+        let processedRows = 0;
+        let columnCount = -1;
+
+        for await (const page of toPages(rawDataSource)) {
+            if (!writer) {
+                columnCount = page.columns.length;
+                writer = format.createWriter({
+                    columns: page.columns.map(c => ({ name: c.fieldName, dataType: c.dataType })),
+                    headerRows: [page.columns.map(c => c.fieldName)],
+                    customHeaders
+                });
+            }
 
-        // 2. Column Headers
-        const columns = rawDataSource.columns;
-        const headerRow = columns.map((c: any) => escapeCSV(c.fieldName)).join(',');
-        chunks.push(headerRow + '\n');
+            // 2. Data Rows (Chunked)
+            const data = page.data;
+            const totalRows = page.totalRowCount ?? data.length;
 
-        // 3. Data Rows (Chunked)
-        const data = rawDataSource.data;
+            for (let i = 0; i < data.length; i += CHUNK_SIZE) {
+                const chunkRows: unknown[][] = [];
+                const end = Math.min(i + CHUNK_SIZE, data.length);
 
-        for (let i = 0; i < data.length; i += CHUNK_SIZE) {
-            const chunkLines: string[] = [];
-            const end = Math.min(i + CHUNK_SIZE, data.length);
+                for (let rowIdx = i; rowIdx < end; rowIdx++) {
+                    const row = data[rowIdx];
+                    const values: unknown[] = [];
 
-            for (let rowIdx = i; rowIdx < end; rowIdx++) {
-                const row = data[rowIdx];
-                const csvRow: string[] = [];
+                    // Direct access to values, no object creation
+                    for (let colIdx = 0; colIdx < columnCount; colIdx++) {
+                        values.push(row[colIdx].value);
+                    }
 
-                // Direct access to values, no object creation
-                for (let colIdx = 0; colIdx < columns.length; colIdx++) {
-                    csvRow.push(escapeCSV(row[colIdx].value));
+                    chunkRows.push(values);
                 }
 
-                chunkLines.push(csvRow.join(','));
-            }
-
-            chunks.push(chunkLines.join('\n') + '\n');
-
-            // Yield to main thread
-            if (i + CHUNK_SIZE < data.length) {
-                await new Promise(resolve => setTimeout(resolve, 0));
+                writer.writeRows(chunkRows);
+                onProgress?.(processedRows + end, Math.max(totalRows, processedRows + end));
             }
+            processedRows += data.length;
         }
 
-        // 4. Create Blob
-        const blob = new Blob(chunks, { type: 'text/csv;charset=utf-8;' });
-
-        // 5. Create filename
-        const timestamp = new Date().toISOString().replace(/[:.]/g, '-').split('T')[0];
-        const workbookName = config.workbookName || 'Report';
-        const worksheetName = config.worksheetName || config.selectedWorksheet || 'Sheet';
-        const filename = `${workbookName}_${worksheetName}_${timestamp}_Raw.csv`;
+        // 3. Create Blob (an empty source still gets the custom headers)
+        writer ??= format.createWriter({ columns: [], headerRows: [], customHeaders });
+        const blob = await writer.finish();
+        const filename = buildFilename(config, '_Raw', format.extension);
 
         return { filename, content: blob };
 
@@ -241,199 +251,258 @@ export async function exportRawDataToCSV(
 }
 
 /**
- * Export Streaming Pivot to CSV
+ * Export Streaming Pivot to CSV (or the sheet's flat file format)
  * Performs a streaming pivot (Sort -> Group -> Emit) to handle large datasets with pivot structure.
  */
 export async function exportStreamingPivotToCSV(
     config: Config,
-    rawDataSource: any, // Tableau DataTable
+    rawDataSource: DataPages,
     filters: any[],
-    allFields: Column[]
+    allFields: Column[],
+    onProgress?: (processedRows: number, totalRows: number) => void
 ): Promise<{ filename: string, content: Blob }> {
     try {
-        const chunks: string[] = [];
+        const format = getSheetFileFormat(config);
         const CHUNK_SIZE = 2000;
-        const data = rawDataSource.data;
-        const columns = rawDataSource.columns;
+        let columns: SerializedDataTable['columns'] = [];
+        const columnIndex = new Map<string, number>(); // fieldName -> position in the row
 
         // Helper to get value from row by field ID
-        const getVal = (row: any, fieldId: string) => {
-            const colIdx = columns.findIndex((c: any) => c.fieldName === fieldId);
-            return colIdx >= 0 ? row[colIdx].value : null;
+        const getVal = (row: SerializedDataTable['data'][number], fieldId: string) => {
+            const colIdx = columnIndex.get(fieldId);
+            return colIdx !== undefined ? row[colIdx].value : null;
         };
 
-        // 1. Pre-pass: Identify Pivot Headers (if any)
-        // We need unique combinations of pivot columns to build the header
+        // 1. Pass over the pages as they arrive: every row is added to its group's bucket
+        // right away, so only the value column values are kept, never the pages themselves
         let pivotHeaders: string[] = ['']; // Default to one column if no pivot cols
         const pivotCols = config.pivotColumns;
-        const valueCols = config.valueColumns;
         const groupCols = config.groupColumns;
 
-        if (pivotCols.length > 0) {
-            const pivotKeys = new Set<string>();
-            // We have to scan all data to find all pivot keys.
-            // For 1M rows, this is fast enough (just reading).
-            for (const row of data) {
-                const key = pivotCols.map(c => getVal(row, c.id)).join('|||');
-                pivotKeys.add(key);
+        // Metric groups reorder/hide value columns and prefix their flattened labels
+        const { valueCols } = getMetricGroupLayout(config.valueColumns, config.metricGroups);
+        const groupNameOf = new Map<string, string>();
+        config.metricGroups?.forEach(group => {
+            group.fields.forEach(fieldId => {
+                if (!groupNameOf.has(fieldId)) groupNameOf.set(fieldId, group.name);
+            });
+        });
+
+        // Custom fields are evaluated per cell from the values of the fields they reference,
+        // so those fields are read alongside the value columns even when not shown (as in processPivotData)
+        const formulaCols = new Map<string, { tree: FormulaNode, resolve: (name: string) => string }>();
+        const storedCols: Column[] = valueCols.filter(vc => !vc.isCustom);
+        valueCols.forEach(vc => {
+            if (!vc.isCustom || !vc.formula) return;
+            try {
+                const tree = parseFormula(vc.formula);
+                const resolve = (name: string) => vc.formulaRefs?.[name] || name;
+                formulaCols.set(vc.id, { tree, resolve });
+                getFormulaFieldRefs(tree).forEach(name => {
+                    if (!storedCols.some(c => c.id === resolve(name))) storedCols.push({ id: resolve(name), name });
+                });
+            } catch (error) {
+                console.warn(`Custom field "${vc.name}" has an invalid formula:`, error);
+            }
+        });
+
+        // Totals per key prefix for 'value' sorts, matching processPivotData
+        const rowSortTotals = createPrefixTotals();
+        const colSortTotals = createPrefixTotals();
+        const rowSortValueIds = getSortValueColumnIds(groupCols);
+        const colSortValueIds = getSortValueColumnIds(pivotCols);
+        const hasValueSorts = rowSortValueIds.length > 0 || colSortValueIds.length > 0;
+
+        // Group key -> the group's values and, per PivotKey|||FieldId, every source value
+        // (the cell shows the last one; subtotals aggregate all of them, like processPivotData)
+        const groups = new Map<string, { groupValues: unknown[], cells: Map<string, unknown[]> }>();
+        const pivotKeys = new Set<string>();
+        let measureNameIdx = -1;
+        let measureValueIdx = -1;
+
+        for await (const page of toPages(rawDataSource)) {
+            if (columns.length === 0) {
+                columns = page.columns;
+                columns.forEach((c, idx) => columnIndex.set(c.fieldName, idx));
+                // Measure Names/Values data has one row per measure
+                measureNameIdx = columns.find(c => c.fieldName === 'Measure Names')?.index ?? -1;
+                measureValueIdx = columns.find(c => c.fieldName === 'Measure Values')?.index ?? -1;
+            }
+
+            for (const row of page.data) {
+                const rowKey = groupCols.map(c => getVal(row, c.id)).join('|||');
+                const pivotKey = pivotCols.map(c => getVal(row, c.id)).join('|||');
+
+                if (hasValueSorts) {
+                    const rParts = rowKey.split('|||');
+                    const cParts = pivotKey.split('|||');
+                    rowSortValueIds.forEach(id => rowSortTotals.add(rParts, id, getVal(row, id)));
+                    colSortValueIds.forEach(id => colSortTotals.add(cParts, id, getVal(row, id)));
+                }
+                if (pivotCols.length > 0) pivotKeys.add(pivotKey);
+
+                let group = groups.get(rowKey);
+                if (!group) {
+                    group = { groupValues: groupCols.map(c => getVal(row, c.id)), cells: new Map() };
+                    groups.set(rowKey, group);
+                }
+                const cells = group.cells;
+                const addValue = (fieldId: string, value: unknown) => {
+                    const valKey = `${pivotKey}|||${fieldId}`;
+                    if (!cells.has(valKey)) cells.set(valKey, []);
+                    cells.get(valKey)!.push(value);
+                };
+
+                storedCols.forEach(vc => {
+                    if (measureNameIdx !== -1 && measureValueIdx !== -1) {
+                        // This row represents ONE measure; match it to the value column by name
+                        if (row[measureNameIdx]?.value === vc.name) addValue(vc.id, row[measureValueIdx]?.value);
+                    } else {
+                        addValue(vc.id, getVal(row, vc.id));
+                    }
+                });
             }
-            pivotHeaders = Array.from(pivotKeys).sort();
         }
 
-        // 2. Build CSV Headers
-        // Custom Headers
-        const customHeaders = buildCustomHeaders(config, filters, allFields);
-        if (customHeaders.length > 0) {
-            chunks.push(customHeaders.join('\n') + '\n\n');
+        if (pivotCols.length > 0) {
+            pivotHeaders = Array.from(pivotKeys).sort(createKeyComparator(pivotCols, colSortTotals.lookup));
         }
 
+        // 2. Build Headers
         // Main Table Headers
         // Row 1: Pivot Labels (if pivot cols exist)
         // For simplicity in streaming export, we flatten the header to:
         // GroupCols... | PivotKey1 - ValueCol1 | PivotKey1 - ValueCol2 ...
 
-        const headerRow: string[] = [];
+        const dataTypeOf = (fieldId: string) => columns.find(c => c.fieldName === fieldId)?.dataType;
+        const measureValuesType = dataTypeOf('Measure Values');
+        const headerColumns: FlatColumn[] = [];
 
         // Group Columns Headers
-        groupCols.forEach(c => headerRow.push(escapeCSV(c.name)));
+        groupCols.forEach(c => headerColumns.push({ name: c.name, dataType: dataTypeOf(c.id) }));
 
         // Pivot/Value Columns Headers
         pivotHeaders.forEach(pKey => {
             const pLabel = pKey ? pKey.replace(/\|\|\|/g, ' - ') : '';
             valueCols.forEach(vc => {
-                const label = pLabel ? `${pLabel} - ${vc.name}` : vc.name;
-                headerRow.push(escapeCSV(label));
+                const groupName = groupNameOf.get(vc.id);
+                const vcLabel = groupName ? `${groupName} - ${vc.name}` : vc.name;
+                const label = pLabel ? `${pLabel} - ${vcLabel}` : vcLabel;
+                headerColumns.push({ name: label, dataType: vc.isCustom ? undefined : dataTypeOf(vc.id) ?? measureValuesType });
             });
         });
 
-        chunks.push(headerRow.join(',') + '\n');
-
-        // 3. Sort Data by Group Columns
-        // This is crucial for streaming aggregation
-        // We create an index array to sort, to avoid moving heavy row objects
-        const indices = new Uint32Array(data.length);
-        for (let i = 0; i < data.length; i++) indices[i] = i;
-
-        indices.sort((a, b) => {
-            const rowA = data[a];
-            const rowB = data[b];
-            for (const col of groupCols) {
-                const valA = getVal(rowA, col.id);
-                const valB = getVal(rowB, col.id);
-                if (valA < valB) return -1;
-                if (valA > valB) return 1;
-            }
-            return 0;
+        // Custom headers and the flattened header row go to the writer first
+        const writer = format.createWriter({
+            columns: headerColumns,
+            headerRows: [headerColumns.map(c => c.name)],
+            customHeaders: buildCustomHeaders(config, filters, allFields)
         });
 
-        // 4. Stream & Aggregate
-        let currentRowKey: string | null = null;
-        let currentRowData: Map<string, any> = new Map(); // Key: PivotKey|||ValueColId -> Value
-        let currentRowGroupValues: string[] = [];
-
-        // Buffer for CSV lines
-        let chunkLines: string[] = [];
-
-        for (let i = 0; i < indices.length; i++) {
-            const rowIdx = indices[i];
-            const row = data[rowIdx];
+        // 3. Emit the groups in sort order, with subtotal rows when a group prefix changes
+        const compareRowKeys = createKeyComparator(groupCols, rowSortTotals.lookup);
+        const sortedKeys = Array.from(groups.keys()).sort(compareRowKeys);
 
-            // Construct Group Key
-            const groupKey = groupCols.map(c => getVal(row, c.id)).join('|||');
+        // Subtotals: the source values of each open group per level, aggregated per value
+        // column (see Column.totalAggregation) when the group prefix changes
+        const subtotalLevels = getSubtotalLevels(config, groupCols.length);
+        const subtotalSources = new Map<number, Map<string, unknown[]>>(); // level -> PivotKey|||FieldId -> values
 
-            // Check if we moved to a new group
-            if (currentRowKey !== null && groupKey !== currentRowKey) {
-                // Flush previous row
-                const csvRow: string[] = [...currentRowGroupValues.map(escapeCSV)];
+        // Buffer for output rows
+        let chunkRows: unknown[][] = [];
 
-                pivotHeaders.forEach(pKey => {
-                    valueCols.forEach(vc => {
-                        const valKey = `${pKey}|||${vc.id}`;
-                        const val = currentRowData.get(valKey);
-                        csvRow.push(escapeCSV(val ?? ''));
+        // Output values of a row per pivot header; custom fields are evaluated from the stored values
+        const buildValues = (getStored: (pKey: string, fieldId: string) => unknown): unknown[] => {
+            const values: unknown[] = [];
+            pivotHeaders.forEach(pKey => {
+                valueCols.forEach(vc => {
+                    const formula = formulaCols.get(vc.id);
+                    if (!formula) {
+                        values.push(getStored(pKey, vc.id) ?? null);
+                        return;
+                    }
+                    const result = evaluateFormula(formula.tree, {
+                        getField: name => (getStored(pKey, formula.resolve(name)) ?? null) as FormulaValue,
+                        getRowTotal: name => aggregateValues(pivotHeaders.map(key => getStored(key, formula.resolve(name))))
                     });
+                    values.push(typeof result === 'boolean' ? (result ? 'True' : 'False') : result);
+                });
+            });
+            return values;
+        };
+
+        const writeGroupRow = (group: { groupValues: unknown[], cells: Map<string, unknown[]> }) => {
+            chunkRows.push([
+                ...group.groupValues,
+                ...buildValues((pKey, fieldId) => group.cells.get(`${pKey}|||${fieldId}`)?.at(-1))
+            ]);
+
+            // Roll the group's source values into every open subtotal
+            subtotalLevels.forEach(level => {
+                if (!subtotalSources.has(level)) subtotalSources.set(level, new Map());
+                const sources = subtotalSources.get(level)!;
+                group.cells.forEach((values, valKey) => {
+                    if (!sources.has(valKey)) sources.set(valKey, []);
+                    const target = sources.get(valKey)!;
+                    values.forEach(v => target.push(v));
                 });
+            });
+        };
 
-                chunkLines.push(csvRow.join(','));
+        // Emit subtotal rows (innermost first) for every level at or below fromLevel
+        const flushSubtotals = (fromLevel: number, groupValues: unknown[]) => {
+            [...subtotalLevels].reverse().forEach(level => {
+                if (level < fromLevel) return;
+                const sources = subtotalSources.get(level) || new Map<string, unknown[]>();
+                const outRow: unknown[] = groupCols.map((_, idx) => {
+                    if (idx < level) return groupValues[idx];
+                    if (idx === level) return getSubtotalLabel(String(groupValues[idx] || '(Blank)'), level, config);
+                    return null;
+                });
 
-                // Reset
-                currentRowData.clear();
-            }
+                outRow.push(...buildValues((pKey, fieldId) => aggregateValues(
+                    sources.get(`${pKey}|||${fieldId}`) || [],
+                    storedCols.find(c => c.id === fieldId)?.totalAggregation
+                )));
 
-            // Update current state
-            currentRowKey = groupKey;
-            if (currentRowData.size === 0) {
-                currentRowGroupValues = groupCols.map(c => getVal(row, c.id));
-            }
+                chunkRows.push(outRow);
+                subtotalSources.delete(level);
+            });
+        };
 
-            // Aggregate Value
-            // Note: This assumes source data is already aggregated (Summary Data).
-            // If we have multiple rows for the same Group+Pivot combination, we should probably take the last one or sum?
-            // Summary Data usually implies uniqueness unless we are unpivoting Measure Names.
-            // For safety, we'll overwrite (last wins) or we could sum if numeric.
-            // Given it's "Summary Data", let's overwrite.
+        let previousGroupValues: unknown[] | null = null;
+        sortedKeys.forEach((groupKey, i) => {
+            const group = groups.get(groupKey)!;
 
-            const pivotKey = pivotCols.length > 0 ? pivotCols.map(c => getVal(row, c.id)).join('|||') : '';
+            // Close any subtotal whose group prefix changed
+            if (previousGroupValues && subtotalLevels.length > 0) {
+                const changedLevel = previousGroupValues.findIndex((v, idx) => v !== group.groupValues[idx]);
+                if (changedLevel !== -1) flushSubtotals(changedLevel, previousGroupValues);
+            }
 
-            valueCols.forEach(vc => {
-                const val = getVal(row, vc.id);
-                // Handle Measure Names/Values special case if needed, but getVal handles ID lookup.
-                // If the value column relies on Measure Values, getVal might need adjustment?
-                // Actually, getVal looks up by fieldName. If valueCol.id is "Measure Values", it works.
-                // But usually valueCols are specific measures. 
-                // If using Measure Names/Values, the row has "Measure Names" = "Sales", "Measure Values" = 100.
-                // We need to check if this row matches the value column.
-
-                // Special handling for Measure Names/Values structure if present in data
-                const measureNameCol = columns.find((c: any) => c.fieldName === 'Measure Names');
-                const measureValueCol = columns.find((c: any) => c.fieldName === 'Measure Values');
-
-                if (measureNameCol && measureValueCol) {
-                    // This row represents ONE measure.
-                    const rowMeasureName = row[measureNameCol.index]?.value;
-                    const rowMeasureValue = row[measureValueCol.index]?.value;
-
-                    if (rowMeasureName === vc.name) { // Match by name
-                        currentRowData.set(`${pivotKey}|||${vc.id}`, rowMeasureValue);
-                    }
-                } else {
-                    // Standard structure
-                    currentRowData.set(`${pivotKey}|||${vc.id}`, val);
-                }
-            });
+            writeGroupRow(group);
+            groups.delete(groupKey); // Written groups are not needed any more
+            previousGroupValues = group.groupValues;
 
             // Flush chunk if full
-            if (chunkLines.length >= CHUNK_SIZE) {
-                chunks.push(chunkLines.join('\n') + '\n');
-                chunkLines = [];
-                await new Promise(resolve => setTimeout(resolve, 0));
+            if (chunkRows.length >= CHUNK_SIZE) {
+                writer.writeRows(chunkRows);
+                chunkRows = [];
+                onProgress?.(i + 1, sortedKeys.length);
             }
-        }
+        });
 
-        // Flush final row
-        if (currentRowKey !== null) {
-            const csvRow: string[] = [...currentRowGroupValues.map(escapeCSV)];
-            pivotHeaders.forEach(pKey => {
-                valueCols.forEach(vc => {
-                    const valKey = `${pKey}|||${vc.id}`;
-                    const val = currentRowData.get(valKey);
-                    csvRow.push(escapeCSV(val ?? ''));
-                });
-            });
-            chunkLines.push(csvRow.join(','));
-        }
+        // Close all open subtotals
+        if (previousGroupValues) flushSubtotals(0, previousGroupValues);
 
         // Flush final chunk
-        if (chunkLines.length > 0) {
-            chunks.push(chunkLines.join('\n') + '\n');
+        if (chunkRows.length > 0) {
+            writer.writeRows(chunkRows);
         }
+        onProgress?.(sortedKeys.length, sortedKeys.length);
 
-        const blob = new Blob(chunks, { type: 'text/csv;charset=utf-8;' });
-
-        const timestamp = new Date().toISOString().replace(/[:.]/g, '-').split('T')[0];
-        const workbookName = config.workbookName || 'Report';
-        const worksheetName = config.worksheetName || config.selectedWorksheet || 'Sheet';
-        const filename = `${workbookName}_${worksheetName}_${timestamp}_Pivot.csv`;
+        const blob = await writer.finish();
+        const filename = buildFilename(config, '_Pivot', format.extension);
 
         return { filename, content: blob };
 
@@ -4,8 +4,15 @@
  */
 
 import ExcelJS from 'exceljs';
-import type { Config, Column, NumberFormat, DateFormat } from '../types';
-import type { PivotDataResult } from './pivotHelper';
+import type { Config, Column, NumberFormat, DateFormat, ConditionalFormatRule, TotalAggregation, PageSetupSettings, WorksheetFilter } from '../types';
+import type { PivotDataResult, PivotRowMeta, PivotColumnMeta } from './pivotHelper';
+import { DEFAULT_ICON_THRESHOLDS, aggregateValues } from './pivotHelper';
+import { formatCellText } from './formatValue';
+import { toPages } from './exportToCSV';
+import type { DataPages } from './exportToCSV';
+import type { SerializedDataTable } from './dataFetcher';
+import { addNativePivotTables } from './excelPivotTable';
+import type { NativePivotSpec, PivotSubtotal } from './excelPivotTable';
 
 /**
  * Convert CSS color to Excel ARGB format
@@ -44,7 +51,7 @@ function getDefaultBorder(): Partial<ExcelJS.Borders> {
  * Assumes ~15 points per line for default font size 10
  * Adds padding for better appearance
  */
-function calculateRowHeight(text: string | null | undefined, defaultHeight: number = 15, padding: number = 6): number {
+export function calculateRowHeight(text: string | null | undefined, defaultHeight: number = 15, padding: number = 6): number {
     if (!text) return defaultHeight + padding;
     const lines = String(text).split('\n').length;
     // Base height + additional height for each extra line + padding
@@ -85,7 +92,7 @@ function buildExcelNumberFormat(fmt: NumberFormat): string {
 /**
  * Build Excel date format string
  */
-function buildExcelDateFormat(fmt?: DateFormat): string {
+export function buildExcelDateFormat(fmt?: DateFormat): string {
     if (!fmt || !fmt.pattern) return 'mm/dd/yyyy';
 
     if (fmt.pattern === 'custom' && fmt.customPattern) {
@@ -107,13 +114,314 @@ function buildExcelDateFormat(fmt?: DateFormat): string {
     return patterns[fmt.pattern] || 'mm/dd/yyyy';
 }
 
+/**
+ * Build the differential style (dxf) applied by a native conditional format rule
+ */
+function buildRuleStyle(style: { fontColor?: string, bgColor?: string, bold?: boolean, italic?: boolean }): Partial<ExcelJS.Style> {
+    const ruleStyle: Partial<ExcelJS.Style> = {
+        font: {
+            color: style.fontColor ? { argb: cssToArgb(style.fontColor) } : undefined,
+            bold: style.bold || undefined,
+            italic: style.italic || undefined
+        }
+    };
+    if (style.bgColor) {
+        // Conditional format fills use bgColor for solid patterns
+        ruleStyle.fill = { type: 'pattern', pattern: 'solid', bgColor: { argb: cssToArgb(style.bgColor) } };
+    }
+    return ruleStyle;
+}
+
+/**
+ * Convert a rule operand to a formula literal (numbers as-is, text quoted)
+ */
+function toFormulaOperand(value: number | string | undefined): string {
+    const str = String(value ?? '');
+    if (str.trim() !== '' && !isNaN(Number(str))) return str;
+    return `"${str.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Translate a value-column rule into an ExcelJS conditional formatting rule
+ */
+function buildNativeRule(rule: ConditionalFormatRule, priority: number): ExcelJS.ConditionalFormattingRule | null {
+    switch (rule.type) {
+        case 'cellValue': {
+            const style = buildRuleStyle(rule.style);
+            if (rule.operator === 'contains') {
+                return { type: 'containsText', operator: 'containsText', text: String(rule.value1), style, priority };
+            }
+            const operators: Record<string, string> = {
+                gt: 'greaterThan',
+                lt: 'lessThan',
+                gte: 'greaterThanOrEqual',
+                lte: 'lessThanOrEqual',
+                eq: 'equal',
+                neq: 'notEqual',
+                between: 'between'
+            };
+            const formulae = rule.operator === 'between'
+                ? [toFormulaOperand(rule.value1), toFormulaOperand(rule.value2 ?? 0)]
+                : [toFormulaOperand(rule.value1)];
+            return {
+                type: 'cellIs',
+                // The xlsx schema accepts every comparison operator, the typings only list four
+                operator: operators[rule.operator] as ExcelJS.CellIsOperators,
+                formulae,
+                style,
+                priority
+            };
+        }
+        case 'topBottom':
+            return {
+                type: 'top10',
+                rank: rule.count,
+                percent: rule.percent,
+                bottom: rule.mode === 'bottom',
+                style: buildRuleStyle(rule.style),
+                priority
+            };
+        case 'colorScale':
+            return rule.scaleType === '3-color' && rule.midColor
+                ? {
+                    type: 'colorScale',
+                    cfvo: [{ type: 'min' }, { type: 'percent', value: 50 }, { type: 'max' }],
+                    color: [{ argb: cssToArgb(rule.minColor) }, { argb: cssToArgb(rule.midColor) }, { argb: cssToArgb(rule.maxColor) }],
+                    priority
+                }
+                : {
+                    type: 'colorScale',
+                    cfvo: [{ type: 'min' }, { type: 'max' }],
+                    color: [{ argb: cssToArgb(rule.minColor) }, { argb: cssToArgb(rule.maxColor) }],
+                    priority
+                };
+        case 'iconSet': {
+            const iconSets: Record<typeof rule.iconSet, ExcelJS.IconSetTypes> = {
+                arrows: '3Arrows',
+                trafficLights: '3TrafficLights1',
+                flags: '3Flags',
+                shapes: '3Signs'
+            };
+            const cfvoType = (rule.thresholdType || 'percent') === 'percent' ? 'percent' : 'num';
+            const [lower, upper] = rule.thresholds || DEFAULT_ICON_THRESHOLDS;
+            return {
+                type: 'iconSet',
+                iconSet: iconSets[rule.iconSet],
+                reverse: rule.reverse,
+                showValue: true,
+                cfvo: [{ type: 'percent', value: 0 }, { type: cfvoType, value: lower }, { type: cfvoType, value: upper }],
+                priority
+            };
+        }
+        default:
+            return null;
+    }
+}
+
+/**
+ * Write value-column rules as native worksheet conditional formatting.
+ * Each pivot column gets its own range so Top/Bottom and color scales rank
+ * within that column, matching the static mode; total rows are left out.
+ * ruleTypes limits which rule types are written (static mode only needs icon sets).
+ */
+function addNativeConditionalFormatting(
+    worksheet: ExcelJS.Worksheet,
+    pivotResult: PivotDataResult,
+    config: Config,
+    startRow: number,
+    numGroupCols: number,
+    ruleTypes?: ConditionalFormatRule['type'][]
+): void {
+    const valueColumns = pivotResult.valueColumns || config.valueColumns;
+    const numDataCols = pivotResult.dataMatrix[0]?.length || 0;
+    if (valueColumns.length === 0) return;
+
+    // Contiguous runs of detail rows (subtotal and grand total rows break a run)
+    const rowRuns: [number, number][] = [];
+    pivotResult.dataMatrix.forEach((_, rowIdx) => {
+        const meta = pivotResult.rowMeta?.[rowIdx];
+        if (meta && meta.type !== 'data') return;
+        const excelRow = startRow + rowIdx;
+        const lastRun = rowRuns[rowRuns.length - 1];
+        if (lastRun && lastRun[1] === excelRow - 1) {
+            lastRun[1] = excelRow;
+        } else {
+            rowRuns.push([excelRow, excelRow]);
+        }
+    });
+    if (rowRuns.length === 0) return;
+
+    let priority = 1;
+    for (let dataIdx = 0; dataIdx < numDataCols; dataIdx++) {
+        const valueCol = valueColumns[dataIdx % valueColumns.length];
+        const rules = (valueCol?.conditionalFormats || []).filter(rule => !ruleTypes || ruleTypes.includes(rule.type));
+        if (rules.length === 0) continue;
+
+        const colLetter = worksheet.getColumn(numGroupCols + dataIdx + 1).letter;
+        const ref = rowRuns.map(([from, to]) => `${colLetter}${from}:${colLetter}${to}`).join(' ');
+
+        // Later rules win in the preview, so they get the higher Excel priority (lower number)
+        const nativeRules = [...rules].reverse()
+            .map(rule => buildNativeRule(rule, priority++))
+            .filter((rule): rule is ExcelJS.ConditionalFormattingRule => rule !== null);
+
+        if (nativeRules.length > 0) {
+            worksheet.addConditionalFormatting({ ref, rules: nativeRules });
+        }
+    }
+}
+
+// Excel functions matching each total aggregation (distinct count has no simple equivalent)
+const TOTAL_FORMULA_FUNCTIONS: Partial<Record<TotalAggregation, string>> = {
+    sum: 'SUM',
+    avg: 'AVERAGE',
+    min: 'MIN',
+    max: 'MAX',
+    count: 'COUNT'
+};
+
+/**
+ * Group sorted indexes into [first, last] runs of consecutive values
+ */
+function toRuns(indexes: number[]): [number, number][] {
+    const runs: [number, number][] = [];
+    indexes.forEach(idx => {
+        const last = runs[runs.length - 1];
+        if (last && last[1] === idx - 1) {
+            last[1] = idx;
+        } else {
+            runs.push([idx, idx]);
+        }
+    });
+    return runs;
+}
+
+/**
+ * Build an aggregate formula over every combination of the given Excel rows and columns.
+ * Consecutive rows/columns become rectangular ranges. Excel caps a function at 255
+ * arguments, so longer lists are passed as parenthesised unions.
+ */
+function buildTotalFormula(fn: string, rows: number[], cols: number[], worksheet: ExcelJS.Worksheet): string {
+    const ranges: string[] = [];
+    toRuns(rows).forEach(([fromRow, toRow]) => {
+        toRuns(cols).forEach(([fromCol, toCol]) => {
+            const from = `${worksheet.getColumn(fromCol).letter}${fromRow}`;
+            const to = `${worksheet.getColumn(toCol).letter}${toRow}`;
+            ranges.push(from === to ? from : `${from}:${to}`);
+        });
+    });
+
+    if (ranges.length <= 255) return `${fn}(${ranges.join(',')})`;
+
+    const unions: string[] = [];
+    for (let i = 0; i < ranges.length; i += 255) {
+        unions.push(`(${ranges.slice(i, i + 255).join(',')})`);
+    }
+    return `${fn}(${unions.join(',')})`;
+}
+
+/**
+ * Replace subtotal, column total, row total and grand total cells with formulas
+ * over the detail cells they summarise, using each value column's total aggregation.
+ * Cached results are computed from the written cells so viewers that do not
+ * recalculate still show numbers. Custom formula fields and distinct counts stay static,
+ * as do totals read from the GC_/RC_ worksheets: Tableau's value for a non-additive
+ * measure (COUNTD, ratios, averages of averages) is not an aggregate of the cells.
+ */
+function addTotalFormulas(
+    worksheet: ExcelJS.Worksheet,
+    pivotResult: PivotDataResult,
+    config: Config,
+    startRow: number,
+    numGroupCols: number
+): void {
+    const valueColumns = pivotResult.valueColumns || config.valueColumns;
+    const rowMeta = pivotResult.rowMeta;
+    const columnMeta = pivotResult.columnMeta;
+    const totalsSource = pivotResult.totalsSource || {};
+    if (!rowMeta || !columnMeta || valueColumns.length === 0) return;
+
+    // Grand total row values come from GC_, row totals of detail rows from RC_ (subtotals are always local)
+    const isCompanionTotal = (rowType: PivotRowMeta['type'], colType: PivotColumnMeta['type']) =>
+        rowType === 'grandTotal'
+            ? totalsSource.column === 'companion'
+            : rowType === 'data' && colType !== 'data' && totalsSource.row === 'companion';
+
+    const detailValue = (rowIdx: number, colIdx: number): number | null => {
+        const value = pivotResult.dataMatrix[rowIdx]?.[colIdx]?.value;
+        if (typeof value === 'number') return value;
+        if (value === null || value === undefined || value === '') return null;
+        const num = Number(value);
+        return isNaN(num) ? null : num;
+    };
+
+    // Detail rows summarised by each row (inner subtotals are skipped to avoid double counting)
+    const sourceRowsOf = (rowIdx: number): number[] => {
+        const meta = rowMeta[rowIdx];
+        if (meta.type === 'data') return [rowIdx];
+        if (meta.type === 'grandTotal') {
+            return rowMeta.map((m, idx) => m.type === 'data' ? idx : -1).filter(idx => idx !== -1);
+        }
+        const rows: number[] = [];
+        for (let idx = rowIdx - 1; idx >= 0; idx--) {
+            const m = rowMeta[idx];
+            if (m.type === 'grandTotal' || (m.type === 'subtotal' && m.level! <= meta.level!)) break;
+            if (m.type === 'data') rows.unshift(idx);
+        }
+        return rows;
+    };
+
+    // Detail columns summarised by each column (row totals span every pivot column of the value)
+    const sourceColsOf = (colIdx: number): number[] => {
+        const meta = columnMeta[colIdx];
+        if (meta.type === 'data') return [colIdx];
+        return columnMeta.map((m, idx) => m.type === 'data' && m.valueIndex === meta.valueIndex ? idx : -1).filter(idx => idx !== -1);
+    };
+
+    rowMeta.forEach((meta, rowIdx) => {
+        columnMeta.forEach((colMeta, colIdx) => {
+            if (meta.type === 'data' && colMeta.type === 'data') return;
+            if (isCompanionTotal(meta.type, colMeta.type)) return;
+
+            const valueCol = valueColumns[colMeta.valueIndex];
+            if (valueCol?.isCustom && valueCol.formula) return;
+            const aggregation = valueCol?.totalAggregation || 'sum';
+            const fn = TOTAL_FORMULA_FUNCTIONS[aggregation];
+            if (!fn) return;
+
+            const rows = sourceRowsOf(rowIdx);
+            const cols = sourceColsOf(colIdx);
+            if (rows.length === 0 || cols.length === 0) return;
+
+            const values: number[] = [];
+            rows.forEach(r => cols.forEach(c => {
+                const value = detailValue(r, c);
+                if (value !== null) values.push(value);
+            }));
+            // Totals without detail values stay empty, as in the preview and the static export
+            if (values.length === 0) return;
+            const result = aggregateValues(values, aggregation) ?? 0;
+
+            const cell = worksheet.getCell(startRow + rowIdx, numGroupCols + colIdx + 1);
+            cell.value = {
+                formula: buildTotalFormula(fn, rows.map(r => startRow + r), cols.map(c => numGroupCols + c + 1), worksheet),
+                result
+            };
+            cell.alignment = { horizontal: 'right', vertical: 'middle' };
+            if (valueCol?.numberFormat && !cell.numFmt) {
+                cell.numFmt = buildExcelNumberFormat(valueCol.numberFormat);
+            }
+        });
+    });
+}
+
 /**
  * Add custom header rows to worksheet
  */
 function addCustomHeaders(
     worksheet: ExcelJS.Worksheet,
     config: Config,
-    filters: any[],
+    filters: WorksheetFilter[],
     allFields: Column[],
     totalColumns: number,
     startRow: number
@@ -310,6 +618,9 @@ function addDataRows(
     startRow: number
 ): void {
     let currentRow = startRow;
+    // Value columns in the order the pivot emitted them (metric groups may reorder/hide some)
+    const valueColumns = pivotResult.valueColumns || config.valueColumns;
+    const useNativeRules = config.conditionalFormattingMode === 'native';
 
     console.log('addDataRows called with startRow:', startRow);
     console.log('Number of rows to add:', pivotResult.rowHeaders.length);
@@ -326,9 +637,10 @@ function addDataRows(
             if (headerCell.isVisible) {
                 cell.value = headerCell.value;
 
-                // Apply row spanning if needed
-                if (headerCell.rowSpan > 1) {
-                    worksheet.mergeCells(currentRow, colIdx, currentRow + headerCell.rowSpan - 1, colIdx);
+                // Apply row/column spanning if needed (subtotal and grand total labels span columns)
+                const colSpan = headerCell.colSpan || 1;
+                if (headerCell.rowSpan > 1 || colSpan > 1) {
+                    worksheet.mergeCells(currentRow, colIdx, currentRow + headerCell.rowSpan - 1, colIdx + colSpan - 1);
                 }
 
                 // Apply styling
@@ -378,8 +690,8 @@ function addDataRows(
             // Determine which value column this cell belongs to
             // The data matrix structure is: [val1_pivot1, val2_pivot1, ..., val1_pivot2, val2_pivot2, ...]
             // So we use modulo to get the value column index
-            const valueColIdx = dataIdx % config.valueColumns.length;
-            const valueCol = config.valueColumns[valueColIdx];
+            const valueColIdx = dataIdx % valueColumns.length;
+            const valueCol = valueColumns[valueColIdx];
 
             if (dataCell && dataCell.value !== null && dataCell.value !== undefined) {
                 // Set value directly to avoid parsing issues
@@ -418,31 +730,34 @@ function addDataRows(
                 }
 
                 // Apply cell styling from pivot result (conditional formatting)
+                // Native mode leaves value-column rules to Excel and only bakes the remaining style
+                const cellStyle = useNativeRules && dataCell.baseStyle ? dataCell.baseStyle : dataCell.style;
+
                 // Build font object with all properties at once to avoid overwriting
                 const fontProps: any = { size: 10 };
 
-                if (dataCell.style) {
+                if (cellStyle) {
                     // Apply background color
-                    if (dataCell.style.backgroundColor) {
+                    if (cellStyle.backgroundColor) {
                         cell.fill = {
                             type: 'pattern',
                             pattern: 'solid',
-                            fgColor: { argb: cssToArgb(dataCell.style.backgroundColor as string) }
+                            fgColor: { argb: cssToArgb(cellStyle.backgroundColor as string) }
                         };
                     }
 
                     // Apply font color
-                    if (dataCell.style.color) {
-                        fontProps.color = { argb: cssToArgb(dataCell.style.color as string) };
+                    if (cellStyle.color) {
+                        fontProps.color = { argb: cssToArgb(cellStyle.color as string) };
                     }
 
                     // Apply font weight (bold)
-                    if (dataCell.style.fontWeight === 'bold') {
+                    if (cellStyle.fontWeight === 'bold') {
                         fontProps.bold = true;
                     }
 
                     // Apply font style (italic)
-                    if (dataCell.style.fontStyle === 'italic') {
+                    if (cellStyle.fontStyle === 'italic') {
                         fontProps.italic = true;
                     }
                 }
@@ -477,22 +792,595 @@ function addDataRows(
     console.log('addDataRows completed. Final row:', currentRow);
 }
 
+const DEFAULT_MIN_COLUMN_WIDTH = 8;
+const DEFAULT_MAX_COLUMN_WIDTH = 50;
+
 /**
- * Main Excel export function
+ * Estimate the width (in Excel character units) a text needs, using its longest line
+ */
+function measureTextWidth(text: string, bold: boolean = false): number {
+    const longestLine = text.split('\n').reduce((max, line) => Math.max(max, line.length), 0);
+    return longestLine * (bold ? 1.1 : 1) + 2; // Padding for cell margins
+}
+
+/**
+ * Width of every column (in Excel character units) fitted to its content: header labels,
+ * row headers and formatted values, clamped to config.columnWidthMin/Max. Cells merged
+ * across several columns (group headers, pivot headers, subtotal labels) widen their
+ * columns evenly only when the columns are too narrow together. A width set on a Column
+ * always wins.
+ */
+export function computeColumnWidths(
+    pivotResult: PivotDataResult,
+    config: Config,
+    numGroupCols: number
+): number[] {
+    const numDataCols = pivotResult.dataMatrix[0]?.length || pivotResult.headerRows[pivotResult.headerRows.length - 1]
+        ?.reduce((sum, header) => sum + header.colSpan, 0) || 0;
+    const totalColumns = numGroupCols + numDataCols;
+    if (totalColumns === 0) return [];
+
+    const minWidth = config.columnWidthMin ?? DEFAULT_MIN_COLUMN_WIDTH;
+    const maxWidth = Math.max(minWidth, config.columnWidthMax ?? DEFAULT_MAX_COLUMN_WIDTH);
+    const valueColumns = pivotResult.valueColumns || config.valueColumns;
+    const valueColumnAt = (dataIdx: number): Column | undefined => {
+        if (valueColumns.length === 0) return undefined;
+        return valueColumns[pivotResult.columnMeta?.[dataIdx]?.valueIndex ?? dataIdx % valueColumns.length];
+    };
+
+    const needed = new Array<number>(totalColumns).fill(0);
+    const spans: { start: number, count: number, width: number }[] = [];
+    const require = (col: number, count: number, width: number) => {
+        if (count > 1) spans.push({ start: col, count, width });
+        else needed[col] = Math.max(needed[col], width);
+    };
+
+    // Group column labels and pivot headers
+    config.groupColumns.slice(0, numGroupCols).forEach((groupCol, idx) => {
+        require(idx, 1, measureTextWidth(groupCol.name || groupCol.id, true));
+    });
+    pivotResult.headerRows.forEach(headerRow => {
+        let col = numGroupCols;
+        headerRow.forEach(header => {
+            require(col, header.colSpan, measureTextWidth(header.label || '', true));
+            col += header.colSpan;
+        });
+    });
+
+    // Row headers (indented one level per column) and data cells
+    pivotResult.rowHeaders.forEach((rowHeaderCells, rowIdx) => {
+        rowHeaderCells.forEach((headerCell, idx) => {
+            if (!headerCell.isVisible || !headerCell.value) return;
+            require(idx, headerCell.colSpan || 1, measureTextWidth(String(headerCell.value), true) + idx);
+        });
+
+        (pivotResult.dataMatrix[rowIdx] || []).forEach((dataCell, dataIdx) => {
+            if (!dataCell || dataCell.value === null || dataCell.value === undefined) return;
+            const text = formatCellText(dataCell.value, valueColumnAt(dataIdx));
+            require(numGroupCols + dataIdx, 1, measureTextWidth(text) + (dataCell.icon ? 2 : 0));
+        });
+    });
+
+    const widths = needed.map(width => Math.min(maxWidth, Math.max(minWidth, Math.ceil(width))));
+
+    // Merged cells: spread any shortfall over the spanned columns
+    spans.forEach(({ start, count, width }) => {
+        const end = Math.min(start + count, totalColumns);
+        const current = widths.slice(start, end).reduce((sum, w) => sum + w, 0);
+        const shortfall = Math.min(width, maxWidth * (end - start)) - current;
+        if (shortfall <= 0) return;
+        const extra = Math.ceil(shortfall / (end - start));
+        for (let col = start; col < end; col++) {
+            widths[col] = Math.min(maxWidth, widths[col] + extra);
+        }
+    });
+
+    // Per-column overrides
+    config.groupColumns.slice(0, numGroupCols).forEach((groupCol, idx) => {
+        if (groupCol.width) widths[idx] = groupCol.width;
+    });
+    for (let dataIdx = 0; dataIdx < numDataCols; dataIdx++) {
+        const override = valueColumnAt(dataIdx)?.width;
+        if (override) widths[numGroupCols + dataIdx] = override;
+    }
+
+    return widths;
+}
+
+/**
+ * Size every column to its content (see computeColumnWidths)
+ */
+function autoFitColumns(
+    worksheet: ExcelJS.Worksheet,
+    pivotResult: PivotDataResult,
+    config: Config,
+    numGroupCols: number
+): void {
+    computeColumnWidths(pivotResult, config, numGroupCols).forEach((width, idx) => {
+        worksheet.getColumn(idx + 1).width = width;
+    });
+}
+
+// Excel paper size codes
+const PAPER_SIZES: Record<PageSetupSettings['paperSize'], number> = {
+    letter: 1,
+    tabloid: 3,
+    legal: 5,
+    a3: 8,
+    a4: 9
+};
+
+// Margins in inches, as in Excel's presets
+const PAGE_MARGINS: Record<PageSetupSettings['margins'], ExcelJS.Margins> = {
+    normal: { left: 0.7, right: 0.7, top: 0.75, bottom: 0.75, header: 0.3, footer: 0.3 },
+    narrow: { left: 0.25, right: 0.25, top: 0.75, bottom: 0.75, header: 0.3, footer: 0.3 },
+    wide: { left: 1, right: 1, top: 1, bottom: 1, header: 0.5, footer: 0.5 }
+};
+
+/**
+ * Convert header/footer text to Excel codes: {page}, {pages}, {date} and {sheet}
+ * become &P, &N, &D and &A; a literal & is escaped as &&
+ */
+function toHeaderFooterCode(text: string): string {
+    return text
+        .replace(/&/g, '&&')
+        .replace(/\{page\}/gi, '&P')
+        .replace(/\{pages\}/gi, '&N')
+        .replace(/\{date\}/gi, '&D')
+        .replace(/\{sheet\}/gi, '&A');
+}
+
+/**
+ * Write print settings: orientation, paper, margins, fit-to-pages, print titles,
+ * header/footer and print area
+ */
+function applyPageSetup(
+    worksheet: ExcelJS.Worksheet,
+    pageSetup: PageSetupSettings,
+    firstDataRow: number,
+    lastRow: number,
+    numGroupCols: number,
+    totalColumns: number
+): void {
+    const fitToPage = pageSetup.fitToPagesWide > 0 || pageSetup.fitToPagesTall > 0;
+
+    worksheet.pageSetup = {
+        ...worksheet.pageSetup,
+        orientation: pageSetup.orientation,
+        paperSize: PAPER_SIZES[pageSetup.paperSize] as ExcelJS.PageSetup['paperSize'],
+        margins: PAGE_MARGINS[pageSetup.margins],
+        fitToPage,
+        // 0 tells Excel to use as many pages as needed in that direction
+        fitToWidth: fitToPage ? pageSetup.fitToPagesWide : undefined,
+        fitToHeight: fitToPage ? pageSetup.fitToPagesTall : undefined
+    } as ExcelJS.PageSetup;
+
+    if (pageSetup.repeatHeaderRows && firstDataRow > 1) {
+        worksheet.pageSetup.printTitlesRow = `1:${firstDataRow - 1}`;
+    }
+    if (pageSetup.repeatRowHeaders && numGroupCols > 0) {
+        worksheet.pageSetup.printTitlesColumn = `A:${worksheet.getColumn(numGroupCols).letter}`;
+    }
+    if (pageSetup.setPrintArea && totalColumns > 0 && lastRow > 0) {
+        // ExcelJS prefixes each column with '$'; the row '$' makes the defined name fully absolute
+        worksheet.pageSetup.printArea = `A$1:${worksheet.getColumn(totalColumns).letter}$${lastRow}`;
+    }
+
+    const header = pageSetup.headerText.trim();
+    const footer = pageSetup.footerText.trim();
+    const pageNumbers = pageSetup.showPageNumbers ? '&RPage &P of &N' : '';
+    worksheet.headerFooter = {
+        oddHeader: header ? `&C${toHeaderFooterCode(header)}` : undefined,
+        oddFooter: footer || pageNumbers ? `${footer ? `&L${toHeaderFooterCode(footer)}` : ''}${pageNumbers}` : undefined
+    } as ExcelJS.HeaderFooter;
+}
+
+// Rows sampled per column when sizing flat sheets; enough to catch typical widths without scanning millions of cells
+const FLAT_WIDTH_SAMPLE_ROWS = 1000;
+
+/**
+ * Convert a Tableau data value to the native Excel type of its column.
+ * Dates arrive as ISO-like strings and are kept as UTC so Excel shows the same wall-clock time.
+ */
+function toNativeValue(value: unknown, dataType?: string): ExcelJS.CellValue {
+    if (value === null || value === undefined || value === '%null%' || value === '') return null;
+
+    switch (dataType) {
+        case 'int':
+        case 'float': {
+            const num = typeof value === 'number' ? value : Number(value);
+            return isNaN(num) ? String(value) : num;
+        }
+        case 'bool':
+            return typeof value === 'boolean' ? value : String(value).toLowerCase() === 'true';
+        case 'date':
+        case 'date-time': {
+            if (value instanceof Date) return value;
+            const text = String(value).replace(' ', 'T');
+            const date = new Date(/[zZ]|[+-]\d\d:?\d\d$/.test(text) ? text : `${text}${text.includes('T') ? '' : 'T00:00:00'}Z`);
+            return isNaN(date.getTime()) ? String(value) : date;
+        }
+        default:
+            return typeof value === 'number' || typeof value === 'boolean' ? value : String(value);
+    }
+}
+
+const FLAT_NUMBER_FORMATS: Record<string, string> = {
+    'date': 'yyyy-mm-dd',
+    'date-time': 'yyyy-mm-dd hh:mm:ss'
+};
+
+/**
+ * Excel table names must start with a letter or underscore and hold only letters, digits, '_' and '.'
+ */
+function toTableName(sheetName: string, index: number): string {
+    const name = sheetName.replace(/[^A-Za-z0-9_.]/g, '_').replace(/^[^A-Za-z_]/, '_');
+    return `${name || 'Table'}_${index + 1}`;
+}
+
+/**
+ * Write raw data pages (data dump and underlying data) as a flat sheet: custom header rows,
+ * then the data as an Excel Table or an AutoFilter range with typed columns and a frozen
+ * header row. Columns come from the first page, as in exportRawDataToCSV.
+ */
+async function addFlatTableSheet(
+    worksheet: ExcelJS.Worksheet,
+    config: Config,
+    rawDataSource: DataPages,
+    filters: WorksheetFilter[],
+    allFields: Column[],
+    tableIndex: number
+): Promise<void> {
+    let columns: SerializedDataTable['columns'] = [];
+    const rows: ExcelJS.CellValue[][] = [];
+
+    for await (const page of toPages(rawDataSource)) {
+        if (columns.length === 0) columns = page.columns;
+        for (const row of page.data) {
+            rows.push(columns.map((c, colIdx) => toNativeValue(row[colIdx]?.value, c.dataType)));
+        }
+    }
+    if (columns.length === 0) return;
+
+    // 1. Custom headers above the table
+    const headerRow = addCustomHeaders(worksheet, config, filters, allFields, columns.length, 1);
+    const lastRow = headerRow + Math.max(rows.length, 1);
+
+    // Table column names must be unique
+    const seen = new Map<string, number>();
+    const headers = columns.map(c => {
+        const count = seen.get(c.fieldName) || 0;
+        seen.set(c.fieldName, count + 1);
+        return count === 0 ? c.fieldName : `${c.fieldName} (${count + 1})`;
+    });
+
+    // 2. Data as a native Table or a plain AutoFilter range
+    const bandedRows = config.flatExcelBandedRows ?? true;
+    if ((config.flatExcelLayout || 'table') === 'table') {
+        worksheet.addTable({
+            name: toTableName(worksheet.name, tableIndex),
+            ref: `A${headerRow}`,
+            headerRow: true,
+            style: {
+                theme: (config.flatExcelTableStyle || 'TableStyleMedium2') as ExcelJS.TableStyleProperties['theme'],
+                showRowStripes: bandedRows
+            },
+            columns: headers.map((name, idx) => ({
+                name,
+                filterButton: true,
+                style: FLAT_NUMBER_FORMATS[columns[idx].dataType || ''] ? { numFmt: FLAT_NUMBER_FORMATS[columns[idx].dataType!] } : undefined
+            })),
+            // A table needs at least one data row
+            rows: rows.length > 0 ? rows : [headers.map(() => null)]
+        });
+    } else {
+        const header = worksheet.getRow(headerRow);
+        headers.forEach((name, idx) => {
+            const cell = header.getCell(idx + 1);
+            cell.value = name;
+            cell.font = { bold: true, color: { argb: cssToArgb(config.pivotHeaderFormat?.fontColor || '#000000') } };
+            cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: cssToArgb(config.pivotHeaderFormat?.bgColor || '#D9D9D9') } };
+            cell.border = getDefaultBorder();
+        });
+
+        const numFmts = columns.map(c => FLAT_NUMBER_FORMATS[c.dataType || '']);
+        rows.forEach((values, rowIdx) => {
+            const row = worksheet.getRow(headerRow + 1 + rowIdx);
+            values.forEach((value, colIdx) => {
+                const cell = row.getCell(colIdx + 1);
+                cell.value = value;
+                if (numFmts[colIdx]) cell.numFmt = numFmts[colIdx];
+                if (bandedRows && rowIdx % 2 === 1) {
+                    cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFF2F2F2' } };
+                }
+            });
+        });
+
+        worksheet.autoFilter = { from: { row: headerRow, column: 1 }, to: { row: headerRow, column: columns.length } };
+    }
+
+    // 3. Column widths from the header and a sample of the rows
+    const minWidth = config.columnWidthMin ?? DEFAULT_MIN_COLUMN_WIDTH;
+    const maxWidth = Math.max(minWidth, config.columnWidthMax ?? DEFAULT_MAX_COLUMN_WIDTH);
+    const sample = rows.slice(0, FLAT_WIDTH_SAMPLE_ROWS);
+    headers.forEach((name, idx) => {
+        const dataType = columns[idx].dataType || '';
+        const needed = sample.reduce<number>((max, values) => {
+            const value = values[idx];
+            if (value === null || value === undefined) return max;
+            const text = value instanceof Date ? FLAT_NUMBER_FORMATS[dataType] || '' : String(value);
+            return Math.max(max, measureTextWidth(text));
+        }, measureTextWidth(name, true) + 2); // Room for the filter button
+        worksheet.getColumn(idx + 1).width = Math.min(maxWidth, Math.max(minWidth, Math.ceil(needed)));
+    });
+
+    // 4. Page setup, frozen header row
+    if (config.pageSetup) {
+        applyPageSetup(worksheet, config.pageSetup, headerRow + 1, lastRow, 0, columns.length);
+    }
+    worksheet.views = [{ state: 'frozen', xSplit: 0, ySplit: headerRow }];
+}
+
+const PIVOT_SUBTOTALS: Record<TotalAggregation, PivotSubtotal> = {
+    sum: 'sum',
+    avg: 'average',
+    min: 'min',
+    max: 'max',
+    count: 'count',
+    countDistinct: 'count' // Distinct counts need the Data Model
+};
+
+const PIVOT_SUBTOTAL_CAPTIONS: Record<PivotSubtotal, string> = {
+    sum: 'Sum',
+    average: 'Average',
+    min: 'Min',
+    max: 'Max',
+    count: 'Count'
+};
+
+/**
+ * Write the source rows of a pivot sheet to a hidden data sheet and describe the native
+ * PivotTable over them: groupColumns on rows, pivotColumns on columns, valueColumns as values.
+ * The pivot table itself is added to the package after ExcelJS writes it (see excelPivotTable).
+ */
+function addNativePivotSheet(
+    workbook: ExcelJS.Workbook,
+    worksheet: ExcelJS.Worksheet,
+    config: Config,
+    sourceRows: Record<string, unknown>[],
+    filters: WorksheetFilter[],
+    allFields: Column[]
+): NativePivotSpec {
+    // Custom formula fields are evaluated on aggregated values and have no row-level data
+    const valueColumns = config.valueColumns.filter(vc => {
+        if (vc.isCustom && vc.formula) console.warn(`Custom field "${vc.name}" is not available in the native pivot table`);
+        return !(vc.isCustom && vc.formula);
+    });
+    const axisColumns = [...config.groupColumns, ...config.pivotColumns];
+    const sourceColumns = [...axisColumns, ...valueColumns];
+
+    // Cache field names must be unique
+    const seen = new Map<string, number>();
+    const fields = sourceColumns.map(col => {
+        const name = col.name || col.id;
+        const count = seen.get(name) || 0;
+        seen.set(name, count + 1);
+        return count === 0 ? name : `${name} (${count + 1})`;
+    });
+
+    const records = sourceRows.map(row => sourceColumns.map((col, colIdx) => {
+        const value = row[col.id];
+        if (value === null || value === undefined || value === '' || value === '%null%') return null;
+        if (colIdx >= axisColumns.length) {
+            const num = typeof value === 'number' ? value : Number(value);
+            return isNaN(num) ? null : num;
+        }
+        return typeof value === 'number' ? value : String(value);
+    }));
+
+    // 1. Hidden data sheet with the source rows, value columns in their number formats
+    let dataSheetName = `${worksheet.name.slice(0, 26)} Data`;
+    for (let counter = 1; workbook.getWorksheet(dataSheetName); counter++) {
+        dataSheetName = `${worksheet.name.slice(0, 22)} Data (${counter})`;
+    }
+    const dataSheet = workbook.addWorksheet(dataSheetName, { state: 'hidden' });
+    dataSheet.addRow(fields).font = { bold: true };
+    records.forEach(record => dataSheet.addRow(record));
+    valueColumns.forEach((vc, idx) => {
+        if (vc.numberFormat) dataSheet.getColumn(axisColumns.length + idx + 1).numFmt = buildExcelNumberFormat(vc.numberFormat);
+    });
+
+    // 2. Custom headers above the pivot table
+    const pivotWidth = Math.max(1, config.groupColumns.length) + Math.max(1, valueColumns.length);
+    const startRow = addCustomHeaders(worksheet, config, filters, allFields, pivotWidth, 1);
+    const location = { row: startRow + (startRow > 1 ? 1 : 0), column: 1 };
+
+    return {
+        sheetId: worksheet.id,
+        dataSheetName,
+        location,
+        fields,
+        records,
+        rowFields: config.groupColumns.map((_, idx) => idx),
+        colFields: config.pivotColumns.map((_, idx) => config.groupColumns.length + idx),
+        dataFields: valueColumns.map((vc, idx) => {
+            const subtotal = PIVOT_SUBTOTALS[vc.totalAggregation || 'sum'];
+            return {
+                field: axisColumns.length + idx,
+                name: `${PIVOT_SUBTOTAL_CAPTIONS[subtotal]} of ${fields[axisColumns.length + idx]}`,
+                subtotal,
+                numFmt: vc.numberFormat ? buildExcelNumberFormat(vc.numberFormat) : undefined
+            };
+        }),
+        sortDescending: axisColumns
+            .map((col, idx) => col.sort?.direction === 'desc' ? idx : -1)
+            .filter(idx => idx >= 0),
+        showSubtotals: !!config.showSubtotals,
+        rowGrandTotals: !!config.showRowTotals,
+        colGrandTotals: !!config.showColumnTotals
+    };
+}
+
+export interface ExcelSheetData {
+    config: Config;
+    pivotResult: PivotDataResult;
+    filters: WorksheetFilter[];
+    allFields: Column[];
+    sheetName: string;
+    rawDataSource?: DataPages; // Written as a flat table instead of the pivot
+    sourceRows?: Record<string, unknown>[]; // Source of a native PivotTable (config.pivotTableOutput 'native')
+}
+
+// Blank rows between the sections of a stacked sheet (see Config.stackedSheetName)
+const STACKED_SECTION_SPACING = 2;
+
+interface PivotSection {
+    firstDataRow: number;
+    lastRow: number;
+    numGroupCols: number;
+    totalColumns: number;
+}
+
+/**
+ * Write one formatted pivot from startRow down: custom headers, pivot headers, data rows,
+ * conditional formatting and total formulas. Column widths, print and view settings are
+ * left to the caller, as they apply to the whole worksheet.
  */
+function addPivotSection(
+    workbook: ExcelJS.Workbook,
+    worksheet: ExcelJS.Worksheet,
+    sheetData: ExcelSheetData,
+    startRow: number,
+    options: ExcelExportOptions
+): PivotSection {
+    const { config, pivotResult, filters, allFields } = sheetData;
+
+    // Calculate dimensions
+    const numGroupCols = pivotResult.rowHeaders[0]?.length || 0;
+    const numDataCols = pivotResult.dataMatrix[0]?.length || 0;
+    const totalColumns = numGroupCols + numDataCols;
+
+    let currentRow = startRow;
+
+    // 1. Add custom headers
+    console.log('Adding custom headers...');
+    currentRow = addCustomHeaders(worksheet, config, filters, allFields, totalColumns, currentRow);
+
+    // 2. Add pivot column headers
+    console.log('Adding pivot headers...');
+    currentRow = addPivotHeaders(worksheet, pivotResult.headerRows, config, numGroupCols, currentRow);
+
+    // 3. Add data rows
+    console.log('Adding data rows...');
+    addDataRows(worksheet, pivotResult, config, currentRow);
+
+    // 3b. Native conditional formatting for value columns
+    // Icons cannot be baked into a fill, so icon sets are native in both modes
+    if (config.conditionalFormattingMode === 'native') {
+        addNativeConditionalFormatting(worksheet, pivotResult, config, currentRow, numGroupCols);
+    } else {
+        addNativeConditionalFormatting(worksheet, pivotResult, config, currentRow, numGroupCols, ['iconSet']);
+    }
+
+    // 3c. Totals as live SUM formulas
+    if (options.totalsAsFormulas ?? config.totalsAsFormulas) {
+        addTotalFormulas(worksheet, pivotResult, config, currentRow, numGroupCols);
+        workbook.calcProperties.fullCalcOnLoad = true;
+    }
+
+    return {
+        firstDataRow: currentRow,
+        lastRow: currentRow + pivotResult.rowHeaders.length - 1,
+        numGroupCols,
+        totalColumns
+    };
+}
+
+/**
+ * Write several pivots stacked top to bottom on one worksheet, with spacer rows between them.
+ * Columns get the widest width any section needs. Only the row label columns all sections
+ * share are frozen, since each section has its own header rows; for the same reason header
+ * rows are not repeated when printing.
+ */
+function addStackedSections(
+    workbook: ExcelJS.Workbook,
+    worksheet: ExcelJS.Worksheet,
+    sections: ExcelSheetData[],
+    options: ExcelExportOptions,
+    onSectionDone: () => void
+): void {
+    const layouts: PivotSection[] = [];
+    let nextRow = 1;
+    sections.forEach((sheetData, idx) => {
+        if (idx > 0) nextRow += STACKED_SECTION_SPACING;
+        const layout = addPivotSection(workbook, worksheet, sheetData, nextRow, options);
+        layouts.push(layout);
+        nextRow = Math.max(layout.lastRow, layout.firstDataRow - 1) + 1;
+        onSectionDone();
+    });
+
+    const widths: number[] = [];
+    sections.forEach((sheetData, idx) => {
+        computeColumnWidths(sheetData.pivotResult, sheetData.config, layouts[idx].numGroupCols).forEach((width, col) => {
+            widths[col] = Math.max(widths[col] || 0, width);
+        });
+    });
+    widths.forEach((width, idx) => {
+        worksheet.getColumn(idx + 1).width = width;
+    });
+
+    const frozenCols = Math.min(...layouts.map(l => l.numGroupCols));
+    const pageSetup = sections.find(s => s.config.pageSetup)?.config.pageSetup;
+    if (pageSetup) {
+        const totalColumns = Math.max(...layouts.map(l => l.totalColumns));
+        applyPageSetup(worksheet, { ...pageSetup, repeatHeaderRows: false }, 1, nextRow - 1, frozenCols, totalColumns);
+    }
+
+    worksheet.views = [
+        frozenCols > 0
+            ? { state: 'frozen', xSplit: frozenCols, ySplit: 0, showGridLines: false }
+            : { state: 'normal', showGridLines: false }
+    ];
+}
+
+/**
+ * Group the sheets into worksheet tabs in export order. Formatted pivots with the same
+ * stackedSheetName share a tab; flat tables and native PivotTables always get their own.
+ */
+function groupIntoTabs(exportData: ExcelSheetData[]): { name?: string, sheets: ExcelSheetData[] }[] {
+    const tabs: { name?: string, sheets: ExcelSheetData[] }[] = [];
+    const stacked = new Map<string, ExcelSheetData[]>();
+
+    exportData.forEach(sheetData => {
+        const stackName = sheetData.config.stackedSheetName?.trim();
+        if (!stackName || sheetData.rawDataSource || sheetData.sourceRows) {
+            tabs.push({ sheets: [sheetData] });
+            return;
+        }
+        let sheets = stacked.get(stackName);
+        if (!sheets) {
+            sheets = [];
+            stacked.set(stackName, sheets);
+            tabs.push({ name: stackName, sheets });
+        }
+        sheets.push(sheetData);
+    });
+    return tabs;
+}
+
+export interface ExcelExportOptions {
+    totalsAsFormulas?: boolean; // Overrides each sheet's config.totalsAsFormulas
+    onProgress?: (completedSheets: number, totalSheets: number) => void; // Called after each sheet is built
+}
+
 /**
  * Main Excel export function
  * Returns the filename and Excel buffer
  */
 export async function exportToExcel(
-    exportData: Array<{
-        config: Config,
-        pivotResult: PivotDataResult,
-        filters: any[],
-        allFields: Column[],
-        sheetName: string
-    }>,
-    workbookName: string = 'Report'
+    exportData: ExcelSheetData[],
+    workbookName: string = 'Report',
+    options: ExcelExportOptions = {}
 ): Promise<{ filename: string, buffer: ExcelJS.Buffer }> {
     try {
         console.log('=== EXCEL EXPORT DEBUG ===');
@@ -500,13 +1388,18 @@ export async function exportToExcel(
 
         // Create workbook
         const workbook = new ExcelJS.Workbook();
+        const pivotSpecs: NativePivotSpec[] = [];
+
+        // Iterate through each worksheet tab (one sheet, or several stacked sheets)
+        let completedSheets = 0;
+        const sheetDone = () => options.onProgress?.(++completedSheets, exportData.length);
 
-        // Iterate through each sheet data
-        exportData.forEach((sheetData, index) => {
-            const { config, pivotResult, filters, allFields, sheetName } = sheetData;
+        for (const [index, tab] of groupIntoTabs(exportData).entries()) {
+            const sheetData = tab.sheets[0];
+            const { config, pivotResult, filters, allFields, sheetName, rawDataSource, sourceRows } = sheetData;
 
-            // Use the provided sheetName (from Tableau) or fallback
-            const finalSheetName = sheetName || config.sheetName || `Sheet${index + 1}`;
+            // Use the stacked tab's name, the provided sheetName (from Tableau) or fallback
+            const finalSheetName = tab.name || sheetName || config.sheetName || `Sheet${index + 1}`;
 
             // Ensure unique sheet name if duplicate
             let uniqueName = finalSheetName;
@@ -517,39 +1410,35 @@ export async function exportToExcel(
 
             const worksheet = workbook.addWorksheet(uniqueName);
 
-            // Calculate dimensions
-            const numGroupCols = pivotResult.rowHeaders[0]?.length || 0;
-            const numDataCols = pivotResult.dataMatrix[0]?.length || 0;
-            const totalColumns = numGroupCols + numDataCols;
-
-            console.log(`Processing sheet: ${uniqueName}`, {
-                numGroupCols,
-                numDataCols,
-                totalColumns
-            });
+            if (rawDataSource) {
+                await addFlatTableSheet(worksheet, config, rawDataSource, filters, allFields, index);
+                sheetDone();
+                continue;
+            }
 
-            let currentRow = 1;
+            if (sourceRows) {
+                pivotSpecs.push(addNativePivotSheet(workbook, worksheet, config, sourceRows, filters, allFields));
+                sheetDone();
+                continue;
+            }
 
-            // 1. Add custom headers
-            console.log('Adding custom headers...');
-            currentRow = addCustomHeaders(worksheet, config, filters, allFields, totalColumns, currentRow);
+            if (tab.sheets.length > 1) {
+                addStackedSections(workbook, worksheet, tab.sheets, options, sheetDone);
+                continue;
+            }
 
-            // 2. Add pivot column headers
-            console.log('Adding pivot headers...');
-            currentRow = addPivotHeaders(worksheet, pivotResult.headerRows, config, numGroupCols, currentRow);
+            console.log(`Processing sheet: ${uniqueName}`);
 
-            // 3. Add data rows
-            console.log('Adding data rows...');
-            addDataRows(worksheet, pivotResult, config, currentRow);
+            // 1-3. Headers, data rows, conditional formatting and total formulas
+            const { firstDataRow, lastRow, numGroupCols, totalColumns } = addPivotSection(workbook, worksheet, sheetData, 1, options);
 
             // 4. Auto-fit columns
-            worksheet.columns.forEach((column, idx) => {
-                if (idx < numGroupCols) {
-                    column.width = 20; // Row headers
-                } else {
-                    column.width = 15; // Data columns
-                }
-            });
+            autoFitColumns(worksheet, pivotResult, config, numGroupCols);
+
+            // 4b. Page setup and print layout
+            if (config.pageSetup) {
+                applyPageSetup(worksheet, config.pageSetup, firstDataRow, lastRow, numGroupCols, totalColumns);
+            }
 
             // 5. Freeze panes (freeze headers and row labels)
             const freezeRow = (config.headerRowSettings?.length || 0) + pivotResult.headerRows.length + 1;
@@ -568,14 +1457,16 @@ export async function exportToExcel(
             if (worksheet.properties) {
                 (worksheet.properties as any).showGridLines = false;
             }
-        });
+
+            sheetDone();
+        }
 
         // 7. Create filename
         const timestamp = new Date().toISOString().replace(/[:.]/g, '-').split('T')[0];
         const filename = `${workbookName}_${timestamp}.xlsx`;
 
-        // 7. Generate buffer
-        const buffer = await workbook.xlsx.writeBuffer();
+        // 7. Generate buffer, adding the native pivot tables ExcelJS cannot write
+        const buffer = await addNativePivotTables(await workbook.xlsx.writeBuffer(), pivotSpecs);
 
         console.log(`Excel generated: ${filename}`);
         console.log('=== EXPORT COMPLETE ===');
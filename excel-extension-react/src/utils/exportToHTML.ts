@@ -0,0 +1,282 @@
+/**
+ * HTML Export Utility
+ * Renders processed pivot data as an HTML table with inline styles, laid out like the preview.
+ * The markup sticks to what Outlook's Word-based renderer supports: tables, rowspan/colspan,
+ * bgcolor and simple inline CSS (no classes, flexbox, shorthand backgrounds or external resources).
+ */
+
+import type { Config, Column, WorksheetFilter } from '../types';
+import type { PivotDataResult } from './pivotHelper';
+import { formatCellText, buildHeaderText } from './formatValue';
+
+export interface HtmlSheetData {
+    config: Config;
+    pivotResult: PivotDataResult;
+    filters: WorksheetFilter[];
+    allFields: Column[];
+    sheetName: string;
+}
+
+const FONT = 'font-family:Arial,Helvetica,sans-serif;font-size:10pt;';
+const CELL = `border:1px solid #808080;padding:4px 6px;${FONT}`;
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Escape text and keep its line breaks
+ */
+function toHtmlText(value: string): string {
+    return escapeHtml(value).replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * Normalize a CSS colour for email clients (#abc -> #aabbcc); other colour syntaxes pass through
+ */
+function toHtmlColor(cssColor?: string): string | undefined {
+    if (!cssColor) return undefined;
+    const hex = cssColor.replace('#', '');
+    if (/^[0-9a-f]{3}$/i.test(hex)) return '#' + hex.split('').map(c => c + c).join('');
+    if (/^[0-9a-f]{6}$/i.test(hex)) return `#${hex}`;
+    return cssColor;
+}
+
+/**
+ * Display text of a data cell, formatted like the other exports
+ */
+function formatDataText(value: string | number | null | undefined, valueCol?: Column): string {
+    return value === null || value === undefined ? '' : formatCellText(value, valueCol);
+}
+
+/**
+ * Inline style and bgcolor attributes of a cell
+ */
+function cellAttrs(style: { color?: string, bgColor?: string, align?: string, bold?: boolean, italic?: boolean, valign?: string }): string {
+    const css = [
+        CELL,
+        style.bgColor ? `background-color:${style.bgColor};` : '',
+        style.color ? `color:${style.color};` : '',
+        style.bold ? 'font-weight:bold;' : '',
+        style.italic ? 'font-style:italic;' : '',
+        `text-align:${style.align || 'left'};`,
+        `vertical-align:${style.valign || 'middle'};`
+    ].join('');
+    return `${style.bgColor ? ` bgcolor="${escapeHtml(style.bgColor)}"` : ''} style="${escapeHtml(css)}"`;
+}
+
+/**
+ * Value column a data column belongs to (metric groups may reorder or hide columns)
+ */
+function valueColumnAt(pivotResult: PivotDataResult, config: Config, dataIdx: number): Column | undefined {
+    const valueColumns = pivotResult.valueColumns || config.valueColumns;
+    if (valueColumns.length === 0) return undefined;
+    return valueColumns[pivotResult.columnMeta?.[dataIdx]?.valueIndex ?? dataIdx % valueColumns.length];
+}
+
+/**
+ * The pivot as an HTML <table>: custom header rows, pivot headers with the group column
+ * labels spanning them, row headers with their row/column spans, then the formatted values
+ */
+export function buildPivotHtml(sheet: HtmlSheetData): string {
+    const { config, pivotResult, filters, allFields } = sheet;
+    const numGroupCols = pivotResult.rowHeaders[0]?.length || config.groupColumns.length;
+    const numDataCols = pivotResult.dataMatrix[0]?.length ||
+        pivotResult.headerRows[pivotResult.headerRows.length - 1]?.reduce((sum, header) => sum + header.colSpan, 0) || 0;
+    const totalColumns = Math.max(1, numGroupCols + numDataCols);
+    const rows: string[] = [];
+
+    // 1. Custom header rows spanning the table
+    (config.headerRowSettings || []).forEach(headerRow => {
+        const content = buildHeaderText(headerRow, filters, allFields);
+        rows.push(`<tr><td colspan="${totalColumns}"${cellAttrs({
+            bold: true,
+            color: toHtmlColor(headerRow.fontColor),
+            bgColor: toHtmlColor(headerRow.bgColor),
+            align: headerRow.textAlign || 'left'
+        })}>${toHtmlText(content)}</td></tr>`);
+    });
+
+    // 2. Pivot headers, group column labels spanning all header rows
+    const headerStyle = {
+        bold: true,
+        color: toHtmlColor(config.pivotHeaderFormat?.fontColor),
+        bgColor: toHtmlColor(config.pivotHeaderFormat?.bgColor),
+        align: config.pivotHeaderFormat?.textAlign || 'center'
+    };
+    const headerRows = pivotResult.headerRows.length > 0 ? pivotResult.headerRows : [[]];
+    headerRows.forEach((headerRow, headerRowIdx) => {
+        const cells: string[] = [];
+        if (headerRowIdx === 0) {
+            config.groupColumns.slice(0, numGroupCols).forEach(groupCol => {
+                const rowSpan = headerRows.length > 1 ? ` rowspan="${headerRows.length}"` : '';
+                cells.push(`<th${rowSpan}${cellAttrs(headerStyle)}>${toHtmlText(groupCol.name || groupCol.id)}</th>`);
+            });
+        }
+        headerRow.forEach(header => {
+            const colSpan = header.colSpan > 1 ? ` colspan="${header.colSpan}"` : '';
+            cells.push(`<th${colSpan}${cellAttrs({
+                ...headerStyle,
+                bgColor: toHtmlColor(header.style?.backgroundColor as string) || headerStyle.bgColor
+            })}>${toHtmlText(header.label)}</th>`);
+        });
+        if (cells.length > 0) rows.push(`<tr>${cells.join('')}</tr>`);
+    });
+
+    // 3. Body: hidden cells of row/column spans are left out
+    pivotResult.rowHeaders.forEach((rowHeaderCells, rowIdx) => {
+        const cells: string[] = [];
+
+        rowHeaderCells.forEach(cell => {
+            if (!cell.isVisible) return;
+            const rowSpan = cell.rowSpan > 1 ? ` rowspan="${cell.rowSpan}"` : '';
+            const colSpan = (cell.colSpan || 1) > 1 ? ` colspan="${cell.colSpan}"` : '';
+            cells.push(`<td${rowSpan}${colSpan}${cellAttrs({
+                bold: true,
+                color: toHtmlColor(cell.style?.color as string),
+                bgColor: toHtmlColor(cell.style?.backgroundColor as string) || '#ffffff',
+                valign: 'top'
+            })}>${toHtmlText(String(cell.value ?? ''))}</td>`);
+        });
+
+        (pivotResult.dataMatrix[rowIdx] || []).forEach((cell, dataIdx) => {
+            const text = formatDataText(cell?.value, valueColumnAt(pivotResult, config, dataIdx));
+            const icon = cell?.icon
+                ? `<span style="color:${escapeHtml(cell.icon.color)};">${escapeHtml(cell.icon.glyph)}</span>&nbsp;`
+                : '';
+            cells.push(`<td${cellAttrs({
+                align: 'right',
+                color: toHtmlColor(cell?.style?.color as string),
+                bgColor: toHtmlColor(cell?.style?.backgroundColor as string),
+                bold: cell?.style?.fontWeight === 'bold',
+                italic: cell?.style?.fontStyle === 'italic'
+            })}>${icon}${toHtmlText(text)}</td>`);
+        });
+
+        rows.push(`<tr>${cells.join('')}</tr>`);
+    });
+
+    return `<table border="0" cellpadding="0" cellspacing="0" style="border-collapse:collapse;${FONT}">` +
+        rows.join('') + '</table>';
+}
+
+/**
+ * The pivot as tab-separated text (the plain text flavour of a clipboard copy).
+ * Spanned cells are left empty, values keep their display format.
+ */
+export function buildPivotText(sheet: HtmlSheetData): string {
+    const { config, pivotResult, filters, allFields } = sheet;
+    const numGroupCols = pivotResult.rowHeaders[0]?.length || config.groupColumns.length;
+    const clean = (value: string) => value.replace(/[\t\r\n]+/g, ' ');
+    const lines: string[] = [];
+
+    (config.headerRowSettings || []).forEach(headerRow => {
+        lines.push(clean(buildHeaderText(headerRow, filters, allFields)));
+    });
+
+    pivotResult.headerRows.forEach((headerRow, headerRowIdx) => {
+        const cells: string[] = [];
+        for (let i = 0; i < numGroupCols; i++) {
+            const groupCol = config.groupColumns[i];
+            cells.push(headerRowIdx === 0 && groupCol ? clean(groupCol.name || groupCol.id) : '');
+        }
+        headerRow.forEach(header => {
+            cells.push(clean(header.label));
+            for (let i = 1; i < header.colSpan; i++) cells.push('');
+        });
+        lines.push(cells.join('\t'));
+    });
+
+    pivotResult.rowHeaders.forEach((rowHeaderCells, rowIdx) => {
+        const cells = rowHeaderCells.map(cell => cell.isVisible ? clean(String(cell.value ?? '')) : '');
+        (pivotResult.dataMatrix[rowIdx] || []).forEach((cell, dataIdx) => {
+            cells.push(clean(formatDataText(cell?.value, valueColumnAt(pivotResult, config, dataIdx))));
+        });
+        lines.push(cells.join('\t'));
+    });
+
+    return lines.join('\n');
+}
+
+/**
+ * Main HTML export function
+ * Returns the filename and one self-contained .html file with a table per sheet
+ */
+export async function exportToHTML(
+    sheets: HtmlSheetData[],
+    workbookName: string = 'Report',
+    onProgress?: (completedSheets: number, totalSheets: number) => void
+): Promise<{ filename: string, content: Blob }> {
+    try {
+        const sections: string[] = [];
+
+        sheets.forEach((sheet, index) => {
+            sections.push(
+                `<h2 style="font-family:Arial,Helvetica,sans-serif;font-size:14pt;margin:16px 0 8px 0;">${escapeHtml(sheet.sheetName)}</h2>` +
+                buildPivotHtml(sheet)
+            );
+            onProgress?.(index + 1, sheets.length);
+        });
+
+        const html = '<!DOCTYPE html>\n<html>\n<head>\n<meta charset="utf-8">\n' +
+            `<title>${escapeHtml(workbookName)}</title>\n</head>\n` +
+            `<body style="margin:16px;${FONT}">\n${sections.join('\n')}\n</body>\n</html>\n`;
+
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-').split('T')[0];
+        const filename = `${workbookName}_${timestamp}.html`;
+
+        return { filename, content: new Blob([html], { type: 'text/html;charset=utf-8' }) };
+    } catch (error) {
+        console.error('HTML export failed:', error);
+        throw error;
+    }
+}
+
+export interface ClipboardContent {
+    html: string;
+    text: string;
+}
+
+/**
+ * Copy HTML to the clipboard with a plain text fallback, so it pastes as a table into
+ * Outlook, Word and wikis and as text elsewhere. Needs the DOM (main thread only).
+ * The content may still be loading: the clipboard write has to start within the click
+ * that triggered it, so a pending promise is handed to ClipboardItem as-is.
+ */
+export async function copyHtmlToClipboard(content: ClipboardContent | Promise<ClipboardContent>): Promise<void> {
+    const pending = Promise.resolve(content);
+
+    if (navigator.clipboard && typeof ClipboardItem !== 'undefined') {
+        try {
+            await navigator.clipboard.write([new ClipboardItem({
+                'text/html': pending.then(({ html }) => new Blob([html], { type: 'text/html' })),
+                'text/plain': pending.then(({ text }) => new Blob([text], { type: 'text/plain' }))
+            })]);
+            return;
+        } catch (error) {
+            // Errors while building the content are not a clipboard problem
+            await pending;
+            // Tableau's sandboxed frames may block the async clipboard API
+            console.warn('Clipboard API unavailable, falling back to copy command', error);
+        }
+    }
+
+    const { html, text } = await pending;
+    const onCopy = (event: ClipboardEvent) => {
+        event.clipboardData?.setData('text/html', html);
+        event.clipboardData?.setData('text/plain', text);
+        event.preventDefault();
+    };
+    document.addEventListener('copy', onCopy);
+    try {
+        if (!document.execCommand('copy')) {
+            throw new Error('Copying to the clipboard is not allowed in this browser');
+        }
+    } finally {
+        document.removeEventListener('copy', onCopy);
+    }
+}
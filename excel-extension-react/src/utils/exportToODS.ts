@@ -0,0 +1,678 @@
+/**
+ * ODS Export Utility
+ * Writes processed pivot data as an OpenDocument spreadsheet (.ods) laid out like the
+ * formatted Excel sheet: merged headers, fills, fonts, number and date formats and frozen panes.
+ * The package is assembled with JSZip from hand-written ODF XML.
+ */
+
+import JSZip from 'jszip';
+import type { Config, Column, NumberFormat, WorksheetFilter } from '../types';
+import type { PivotDataResult } from './pivotHelper';
+import { formatCellText, buildHeaderText } from './formatValue';
+import { buildExcelDateFormat, calculateRowHeight, computeColumnWidths } from './exportToExcel';
+import { toPages } from './exportToCSV';
+import type { DataPages } from './exportToCSV';
+
+export interface OdsSheetData {
+    config: Config;
+    pivotResult: PivotDataResult;
+    filters: WorksheetFilter[];
+    allFields: Column[];
+    sheetName: string;
+    rawDataSource?: DataPages; // Written as a flat table instead of the pivot
+}
+
+const NS = {
+    office: 'urn:oasis:names:tc:opendocument:xmlns:office:1.0',
+    style: 'urn:oasis:names:tc:opendocument:xmlns:style:1.0',
+    text: 'urn:oasis:names:tc:opendocument:xmlns:text:1.0',
+    table: 'urn:oasis:names:tc:opendocument:xmlns:table:1.0',
+    fo: 'urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0',
+    number: 'urn:oasis:names:tc:opendocument:xmlns:datastyle:1.0',
+    config: 'urn:oasis:names:tc:opendocument:xmlns:config:1.0',
+    manifest: 'urn:oasis:names:tc:opendocument:xmlns:manifest:1.0'
+};
+
+const MIME_TYPE = 'application/vnd.oasis.opendocument.spreadsheet';
+const BORDER = '0.75pt solid #808080';
+
+// Rows sampled per column when sizing flat sheets, as in the Excel export
+const FLAT_WIDTH_SAMPLE_ROWS = 1000;
+
+const FLAT_DATE_FORMATS: Record<string, string> = {
+    'date': 'yyyy-mm-dd',
+    'date-time': 'yyyy-mm-dd hh:mm:ss'
+};
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Namespace declarations for a root element
+ */
+function xmlns(...prefixes: (keyof typeof NS)[]): string {
+    return prefixes.map(prefix => `xmlns:${prefix}="${NS[prefix]}"`).join(' ');
+}
+
+/**
+ * Normalize a CSS hex colour for ODF (#abc -> #aabbcc)
+ */
+function toOdsColor(cssColor?: string): string | undefined {
+    if (!cssColor) return undefined;
+    const hex = cssColor.replace('#', '');
+    if (hex.length === 3) return '#' + hex.split('').map(c => c + c).join('').toLowerCase();
+    return hex.length === 6 ? `#${hex.toLowerCase()}` : undefined;
+}
+
+interface CellStyle {
+    bold?: boolean;
+    italic?: boolean;
+    fontSize?: number;
+    color?: string;
+    bgColor?: string;
+    align?: 'left' | 'center' | 'right';
+    indent?: number;
+    wrap?: boolean;
+    border?: boolean;
+    dataStyle?: string;
+}
+
+type OdsValue = string | number | boolean | Date | null | undefined;
+
+interface OdsCell {
+    value?: OdsValue;
+    text?: string; // Displayed text; derived from the value when omitted
+    valueType?: 'float' | 'percentage' | 'currency';
+    style?: string;
+    colSpan?: number;
+    rowSpan?: number;
+}
+
+interface OdsSheet {
+    name: string;
+    columnWidths: number[]; // Excel character units
+    rows: { height?: number, cells: (OdsCell | null)[] }[]; // null: covered by a merged cell
+    freeze: { xSplit: number, ySplit: number };
+}
+
+/**
+ * Translate an Excel date/time code (e.g. 'mmm d, yyyy hh:mm') into ODF date style elements
+ */
+function buildDateStyleElements(code: string): string {
+    const tokens = code.match(/yyyy|yy|mmmm|mmm|mm|m|dddd|ddd|dd|d|hh|h|ss|s|am\/pm|"[^"]*"|\\.|./gi) || [];
+    const parts: string[] = [];
+    let literal = '';
+    const flush = () => {
+        if (literal) parts.push(`<number:text>${escapeXml(literal)}</number:text>`);
+        literal = '';
+    };
+
+    tokens.forEach((token, idx) => {
+        const lower = token.toLowerCase();
+        // m/mm are minutes right after an hour or right before seconds
+        const prev = tokens.slice(0, idx).reverse().find(t => /^[a-z]/i.test(t))?.toLowerCase();
+        const next = tokens.slice(idx + 1).find(t => /^[a-z]/i.test(t))?.toLowerCase();
+        const isMinutes = (lower === 'm' || lower === 'mm') && (prev?.startsWith('h') || next?.startsWith('s'));
+
+        let element = '';
+        if (isMinutes) element = `<number:minutes${lower === 'mm' ? ' number:style="long"' : ''}/>`;
+        else if (lower === 'yyyy') element = '<number:year number:style="long"/>';
+        else if (lower === 'yy') element = '<number:year/>';
+        else if (lower === 'mmmm') element = '<number:month number:textual="true" number:style="long"/>';
+        else if (lower === 'mmm') element = '<number:month number:textual="true"/>';
+        else if (lower === 'mm') element = '<number:month number:style="long"/>';
+        else if (lower === 'm') element = '<number:month/>';
+        else if (lower === 'dddd') element = '<number:day-of-week number:style="long"/>';
+        else if (lower === 'ddd') element = '<number:day-of-week/>';
+        else if (lower === 'dd') element = '<number:day number:style="long"/>';
+        else if (lower === 'd') element = '<number:day/>';
+        else if (lower === 'hh') element = '<number:hours number:style="long"/>';
+        else if (lower === 'h') element = '<number:hours/>';
+        else if (lower === 'ss') element = '<number:seconds number:style="long"/>';
+        else if (lower === 's') element = '<number:seconds/>';
+        else if (lower === 'am/pm') element = '<number:am-pm/>';
+
+        if (element) {
+            flush();
+            parts.push(element);
+        } else {
+            literal += token.startsWith('"') ? token.slice(1, -1) : token.replace(/^\\/, '');
+        }
+    });
+    flush();
+
+    return parts.join('');
+}
+
+/**
+ * Collects the automatic styles of content.xml, reusing a style for identical settings
+ */
+function createStyleRegistry() {
+    const dataStyles = new Map<string, { name: string, xml: string }>();
+    const cellStyles = new Map<string, { name: string, xml: string }>();
+    const columnStyles = new Map<string, { name: string, xml: string }>();
+    const rowStyles = new Map<string, { name: string, xml: string }>();
+    const tableStyleXml = '<style:style style:name="ta1" style:family="table"><style:table-properties table:display="true"/></style:style>';
+
+    const add = (styles: Map<string, { name: string, xml: string }>, key: string, prefix: string, build: (name: string) => string) => {
+        let entry = styles.get(key);
+        if (!entry) {
+            const name = `${prefix}${styles.size + 1}`;
+            entry = { name, xml: build(name) };
+            styles.set(key, entry);
+        }
+        return entry.name;
+    };
+
+    /**
+     * Number style for a value column format. Negative variants get their own style
+     * that the positive style switches to with a style:map.
+     */
+    const numberStyle = (fmt: NumberFormat): string => add(dataStyles, `n:${JSON.stringify(fmt)}`, 'N', name => {
+        const decimals = fmt.decimalPlaces ?? 2;
+        const displayType = fmt.displayType || 'number';
+        const number = displayType === 'scientific'
+            ? `<number:scientific-number number:decimal-places="${decimals}" number:min-decimal-places="${decimals}" number:min-integer-digits="1" number:min-exponent-digits="2"/>`
+            : `<number:number number:decimal-places="${decimals}" number:min-decimal-places="${decimals}" number:min-integer-digits="1"${fmt.thousandSeparator ? ' number:grouping="true"' : ''}/>`;
+        const element = displayType === 'currency' ? 'number:currency-style'
+            : displayType === 'percentage' ? 'number:percentage-style' : 'number:number-style';
+        const body = (prefix: string, suffix: string) => [
+            prefix ? `<number:text>${prefix}</number:text>` : '',
+            displayType === 'currency' ? `<number:currency-symbol>${escapeXml(fmt.currencySymbol || '$')}</number:currency-symbol>` : '',
+            number,
+            displayType === 'percentage' ? '<number:text>%</number:text>' : '',
+            suffix ? `<number:text>${suffix}</number:text>` : ''
+        ];
+
+        const negative = fmt.negativeFormat;
+        if (!negative || negative === 'minus' || negative === '-1234' || displayType === 'scientific') {
+            return `<${element} style:name="${name}">${body('', '').join('')}</${element}>`;
+        }
+
+        // Positive part, then the main style that renders negatives and maps positives
+        const negativeParts = negative === 'red'
+            ? ['<style:text-properties fo:color="#ff0000"/>', ...body('-', '')]
+            : negative === '1234-' ? body('', '-') : body('(', ')');
+        return `<${element} style:name="${name}P0" style:volatile="true">${body('', '').join('')}</${element}>` +
+            `<${element} style:name="${name}">${negativeParts.join('')}` +
+            `<style:map style:condition="value()&gt;=0" style:apply-style-name="${name}P0"/></${element}>`;
+    });
+
+    const dateStyle = (code: string): string => add(dataStyles, `d:${code}`, 'N', name =>
+        `<number:date-style style:name="${name}">${buildDateStyleElements(code)}</number:date-style>`
+    );
+
+    const cellStyle = (style: CellStyle): string => add(cellStyles, JSON.stringify(style), 'ce', name => {
+        const cellProps = [
+            `style:vertical-align="middle"`,
+            style.bgColor ? `fo:background-color="${style.bgColor}"` : '',
+            style.border ? `fo:border="${BORDER}"` : '',
+            style.wrap ? 'fo:wrap-option="wrap"' : ''
+        ].filter(Boolean).join(' ');
+        const paragraphProps = [
+            style.align ? `fo:text-align="${style.align === 'left' ? 'start' : style.align === 'right' ? 'end' : 'center'}"` : '',
+            style.indent ? `fo:margin-left="${style.indent * 9}pt"` : ''
+        ].filter(Boolean).join(' ');
+        const textProps = [
+            `fo:font-size="${style.fontSize || 10}pt"`,
+            style.bold ? 'fo:font-weight="bold"' : '',
+            style.italic ? 'fo:font-style="italic"' : '',
+            style.color ? `fo:color="${style.color}"` : ''
+        ].filter(Boolean).join(' ');
+
+        return `<style:style style:name="${name}" style:family="table-cell" style:parent-style-name="Default"` +
+            `${style.dataStyle ? ` style:data-style-name="${style.dataStyle}"` : ''}>` +
+            `<style:table-cell-properties ${cellProps}/>` +
+            (paragraphProps ? `<style:paragraph-properties ${paragraphProps}/>` : '') +
+            `<style:text-properties ${textProps}/></style:style>`;
+    });
+
+    // Excel character units to inches: ~7px per character plus cell padding, at 96 DPI
+    const columnStyle = (width: number): string => add(columnStyles, String(width), 'co', name =>
+        `<style:style style:name="${name}" style:family="table-column">` +
+        `<style:table-column-properties fo:break-before="auto" style:column-width="${((width * 7 + 5) / 96).toFixed(4)}in"/></style:style>`
+    );
+
+    const rowStyle = (height?: number): string => add(rowStyles, String(height ?? 'auto'), 'ro', name =>
+        `<style:style style:name="${name}" style:family="table-row"><style:table-row-properties ` +
+        (height ? `style:row-height="${height}pt" style:use-optimal-row-height="false"` : 'style:use-optimal-row-height="true"') +
+        ' fo:break-before="auto"/></style:style>'
+    );
+
+    const xml = () => [
+        ...Array.from(dataStyles.values()),
+        ...Array.from(columnStyles.values()),
+        ...Array.from(rowStyles.values()),
+        { xml: tableStyleXml },
+        ...Array.from(cellStyles.values())
+    ].map(entry => entry.xml).join('');
+
+    return { numberStyle, dateStyle, cellStyle, columnStyle, rowStyle, xml };
+}
+
+type StyleRegistry = ReturnType<typeof createStyleRegistry>;
+
+/**
+ * Parse a date value as UTC, matching the Excel export
+ */
+function toDate(value: unknown): Date | null {
+    if (value instanceof Date) return value;
+    const text = String(value).replace(' ', 'T');
+    const date = new Date(/[zZ]|[+-]\d\d:?\d\d$/.test(text) ? text : `${text}${text.includes('T') ? '' : 'T00:00:00'}Z`);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Custom header rows, each merged across the table (returns the rows added)
+ */
+function buildCustomHeaderRows(
+    sheet: OdsSheetData,
+    styles: StyleRegistry,
+    totalColumns: number
+): OdsSheet['rows'] {
+    const { config, filters, allFields } = sheet;
+    const span = Math.max(1, totalColumns);
+
+    return (config.headerRowSettings || []).map(headerRow => {
+        const content = buildHeaderText(headerRow, filters, allFields);
+        const cells: (OdsCell | null)[] = [{
+            value: content,
+            colSpan: span,
+            style: styles.cellStyle({
+                bold: true,
+                fontSize: 11,
+                color: toOdsColor(headerRow.fontColor) || '#000000',
+                bgColor: toOdsColor(headerRow.bgColor),
+                align: headerRow.textAlign || 'left',
+                wrap: true
+            })
+        }];
+        for (let i = 1; i < span; i++) cells.push(null);
+        return { height: calculateRowHeight(content, 15, 6), cells };
+    });
+}
+
+/**
+ * Lay out a formatted pivot sheet the way exportToExcel does
+ */
+function buildPivotSheet(sheet: OdsSheetData, name: string, styles: StyleRegistry): OdsSheet {
+    const { config, pivotResult } = sheet;
+    const numGroupCols = pivotResult.rowHeaders[0]?.length || 0;
+    const numDataCols = pivotResult.dataMatrix[0]?.length || 0;
+    const totalColumns = numGroupCols + numDataCols;
+    const valueColumns = pivotResult.valueColumns || config.valueColumns;
+
+    // 1. Custom headers
+    const rows = buildCustomHeaderRows(sheet, styles, totalColumns);
+
+    // 2. Pivot column headers, group column labels spanning all header rows
+    const headerBgColor = toOdsColor(config.pivotHeaderFormat?.bgColor) || '#e0e0e0';
+    const headerFontColor = toOdsColor(config.pivotHeaderFormat?.fontColor) || '#000000';
+    const headerAlign = config.pivotHeaderFormat?.textAlign || 'center';
+    const headerStyle = (bgColor = headerBgColor, color = headerFontColor) => styles.cellStyle({
+        bold: true, color, bgColor, align: headerAlign, wrap: true, border: true
+    });
+
+    const headerRowCount = pivotResult.headerRows.length;
+    const headerStart = rows.length;
+    pivotResult.headerRows.forEach(() => rows.push({ cells: new Array(totalColumns).fill(undefined) }));
+
+    pivotResult.headerRows.forEach((headerRow, headerRowIdx) => {
+        const row = rows[headerStart + headerRowIdx];
+        let maxRowHeight = 15;
+
+        if (headerRowIdx === 0) {
+            config.groupColumns.slice(0, numGroupCols).forEach((groupCol, colIdx) => {
+                const label = groupCol.name || groupCol.id;
+                row.cells[colIdx] = { value: label, rowSpan: headerRowCount, style: headerStyle() };
+                for (let r = 1; r < headerRowCount; r++) rows[headerStart + r].cells[colIdx] = null;
+                maxRowHeight = Math.max(maxRowHeight, calculateRowHeight(label, 15));
+            });
+        }
+
+        let colIdx = numGroupCols;
+        headerRow.forEach(header => {
+            row.cells[colIdx] = {
+                value: header.label,
+                colSpan: header.colSpan,
+                style: headerStyle(
+                    toOdsColor(header.style?.backgroundColor as string) || headerBgColor,
+                    toOdsColor(header.style?.color as string) || headerFontColor
+                )
+            };
+            for (let i = 1; i < header.colSpan; i++) row.cells[colIdx + i] = null;
+            maxRowHeight = Math.max(maxRowHeight, calculateRowHeight(header.label, 15));
+            colIdx += header.colSpan;
+        });
+
+        row.height = maxRowHeight + 6;
+    });
+
+    // 3. Data rows
+    const dataStart = rows.length;
+    pivotResult.rowHeaders.forEach(() => rows.push({ cells: new Array(totalColumns).fill(undefined) }));
+
+    pivotResult.rowHeaders.forEach((rowHeaderCells, rowIdx) => {
+        const row = rows[dataStart + rowIdx];
+
+        // Row headers; cells inside a row or column span are covered
+        rowHeaderCells.forEach((headerCell, headerIdx) => {
+            if (row.cells[headerIdx] === null) return;
+            if (!headerCell.isVisible) {
+                row.cells[headerIdx] = { style: styles.cellStyle({ border: true }) };
+                return;
+            }
+
+            const colSpan = Math.min(headerCell.colSpan || 1, totalColumns - headerIdx);
+            const rowSpan = Math.min(headerCell.rowSpan || 1, pivotResult.rowHeaders.length - rowIdx);
+            row.cells[headerIdx] = {
+                value: headerCell.value,
+                colSpan,
+                rowSpan,
+                style: styles.cellStyle({
+                    bold: true,
+                    align: 'left',
+                    indent: headerIdx || undefined,
+                    border: true,
+                    bgColor: toOdsColor(headerCell.style?.backgroundColor as string),
+                    color: toOdsColor(headerCell.style?.color as string)
+                })
+            };
+            for (let r = 0; r < rowSpan; r++) {
+                for (let c = 0; c < colSpan; c++) {
+                    if (r > 0 || c > 0) rows[dataStart + rowIdx + r].cells[headerIdx + c] = null;
+                }
+            }
+        });
+
+        // Data cells with the number/date format of their value column and the baked conditional styles
+        const dataRow = pivotResult.dataMatrix[rowIdx] || [];
+        dataRow.forEach((dataCell, dataIdx) => {
+            const colIdx = numGroupCols + dataIdx;
+            if (row.cells[colIdx] === null) return;
+
+            const valueCol = valueColumns.length > 0
+                ? valueColumns[pivotResult.columnMeta?.[dataIdx]?.valueIndex ?? dataIdx % valueColumns.length]
+                : undefined;
+
+            if (!dataCell || dataCell.value === null || dataCell.value === undefined) {
+                row.cells[colIdx] = { style: styles.cellStyle({ border: true, align: 'left' }) };
+                return;
+            }
+
+            let value: OdsValue = dataCell.value;
+            let valueType: OdsCell['valueType'];
+            let dataStyle: string | undefined;
+
+            const isNumeric = typeof value === 'number' ||
+                (typeof value === 'string' && !isNaN(parseFloat(value)) && isFinite(Number(value)));
+            if (valueCol?.numberFormat && isNumeric) {
+                value = Number(value);
+                dataStyle = styles.numberStyle(valueCol.numberFormat);
+                valueType = valueCol.numberFormat.displayType === 'percentage' ? 'percentage' : 'float';
+            }
+
+            if (valueCol?.dateFormat && typeof dataCell.value === 'string') {
+                const isDateType = valueCol.dataType === 'date' || valueCol.dataType === 'datetime';
+                const date = toDate(dataCell.value);
+                if (date && (isDateType || /^\d{4}-\d{2}-\d{2}/.test(dataCell.value))) {
+                    value = date;
+                    valueType = undefined;
+                    dataStyle = styles.dateStyle(buildExcelDateFormat(valueCol.dateFormat));
+                }
+            }
+
+            const cellStyle = dataCell.style;
+            row.cells[colIdx] = {
+                value,
+                valueType,
+                text: formatCellText(dataCell.value, valueCol),
+                style: styles.cellStyle({
+                    bgColor: toOdsColor(cellStyle?.backgroundColor as string),
+                    color: toOdsColor(cellStyle?.color as string),
+                    bold: cellStyle?.fontWeight === 'bold' || undefined,
+                    italic: cellStyle?.fontStyle === 'italic' || undefined,
+                    align: typeof dataCell.value === 'number' ? 'right' : 'left',
+                    border: true,
+                    dataStyle
+                })
+            };
+        });
+    });
+
+    // 4. Frozen headers and row labels
+    return {
+        name,
+        columnWidths: computeColumnWidths(pivotResult, config, numGroupCols),
+        rows,
+        freeze: { xSplit: numGroupCols, ySplit: dataStart }
+    };
+}
+
+/**
+ * Lay out a raw data sheet: custom headers, a header row and typed values
+ */
+async function buildFlatSheet(sheet: OdsSheetData, name: string, styles: StyleRegistry): Promise<OdsSheet> {
+    const { config } = sheet;
+    let columns: { fieldName: string, dataType?: string }[] = [];
+    const dataRows: OdsSheet['rows'] = [];
+    const sampleWidths: number[] = [];
+
+    for await (const page of toPages(sheet.rawDataSource!)) {
+        if (columns.length === 0) {
+            columns = page.columns;
+            columns.forEach((c, idx) => { sampleWidths[idx] = c.fieldName.length * 1.1 + 2; });
+        }
+        const cellStyles = columns.map(c => styles.cellStyle({
+            dataStyle: FLAT_DATE_FORMATS[c.dataType || ''] ? styles.dateStyle(FLAT_DATE_FORMATS[c.dataType || '']) : undefined
+        }));
+
+        for (const row of page.data) {
+            dataRows.push({
+                cells: columns.map((c, colIdx) => {
+                    const raw = row[colIdx]?.value;
+                    if (raw === null || raw === undefined || raw === '%null%' || raw === '') return {};
+
+                    let value: OdsValue = typeof raw === 'number' || typeof raw === 'boolean' ? raw : String(raw);
+                    if (c.dataType === 'int' || c.dataType === 'float') {
+                        const num = Number(raw);
+                        if (!isNaN(num)) value = num;
+                    } else if (c.dataType === 'date' || c.dataType === 'date-time') {
+                        value = toDate(raw) ?? String(raw);
+                    }
+
+                    if (dataRows.length < FLAT_WIDTH_SAMPLE_ROWS) {
+                        const text = row[colIdx]?.formattedValue ?? String(raw);
+                        sampleWidths[colIdx] = Math.max(sampleWidths[colIdx], text.length + 2);
+                    }
+                    return { value, style: cellStyles[colIdx] };
+                })
+            });
+        }
+    }
+
+    const headerStyle = styles.cellStyle({
+        bold: true,
+        bgColor: toOdsColor(config.pivotHeaderFormat?.bgColor) || '#e0e0e0',
+        color: toOdsColor(config.pivotHeaderFormat?.fontColor),
+        border: true
+    });
+    const rows = [
+        ...buildCustomHeaderRows(sheet, styles, columns.length),
+        { cells: columns.map(c => ({ value: c.fieldName, style: headerStyle })) }
+    ];
+    const ySplit = rows.length;
+
+    const minWidth = config.columnWidthMin ?? 8;
+    const maxWidth = Math.max(minWidth, config.columnWidthMax ?? 50);
+    return {
+        name,
+        columnWidths: sampleWidths.map(width => Math.min(maxWidth, Math.max(minWidth, Math.ceil(width)))),
+        rows: rows.concat(dataRows),
+        freeze: { xSplit: 0, ySplit }
+    };
+}
+
+/**
+ * table:table-cell element of a cell
+ */
+function buildCellXml(cell: OdsCell): string {
+    const attrs: string[] = [];
+    if (cell.style) attrs.push(`table:style-name="${cell.style}"`);
+    if (cell.colSpan && cell.colSpan > 1) attrs.push(`table:number-columns-spanned="${cell.colSpan}"`);
+    if (cell.rowSpan && cell.rowSpan > 1) attrs.push(`table:number-rows-spanned="${cell.rowSpan}"`);
+
+    const { value } = cell;
+    let text = cell.text;
+    if (value instanceof Date) {
+        attrs.push('office:value-type="date"', `office:date-value="${value.toISOString().slice(0, 19)}"`);
+    } else if (typeof value === 'number') {
+        attrs.push(`office:value-type="${cell.valueType || 'float'}"`, `office:value="${value}"`);
+    } else if (typeof value === 'boolean') {
+        attrs.push('office:value-type="boolean"', `office:boolean-value="${value}"`);
+        text ??= value ? 'TRUE' : 'FALSE';
+    } else if (value !== null && value !== undefined && value !== '') {
+        attrs.push('office:value-type="string"');
+    }
+
+    text ??= value instanceof Date ? value.toISOString().slice(0, 10) : value === null || value === undefined ? '' : String(value);
+    const paragraphs = text ? text.split('\n').map(line => `<text:p>${escapeXml(line)}</text:p>`).join('') : '';
+    return `<table:table-cell${attrs.map(attr => ` ${attr}`).join('')}>${paragraphs}</table:table-cell>`;
+}
+
+/**
+ * table:table element of a sheet
+ */
+function buildTableXml(sheet: OdsSheet, styles: StyleRegistry): string {
+    const parts: string[] = [`<table:table table:name="${escapeXml(sheet.name)}" table:style-name="ta1">`];
+    const columnCount = Math.max(sheet.columnWidths.length, ...sheet.rows.map(row => row.cells.length));
+
+    for (let col = 0; col < columnCount; col++) {
+        const width = sheet.columnWidths[col] ?? 8.43;
+        parts.push(`<table:table-column table:style-name="${styles.columnStyle(width)}" table:default-cell-style-name="Default"/>`);
+    }
+    if (columnCount === 0) parts.push('<table:table-column/>');
+
+    sheet.rows.forEach(row => {
+        parts.push(`<table:table-row table:style-name="${styles.rowStyle(row.height)}">`);
+        row.cells.forEach(cell => {
+            parts.push(cell === null ? '<table:covered-table-cell/>' : buildCellXml(cell || {}));
+        });
+        if (row.cells.length === 0) parts.push('<table:table-cell/>');
+        parts.push('</table:table-row>');
+    });
+    if (sheet.rows.length === 0) parts.push('<table:table-row><table:table-cell/></table:table-row>');
+
+    parts.push('</table:table>');
+    return parts.join('');
+}
+
+/**
+ * settings.xml: frozen panes per sheet and hidden grid lines, as in the Excel view
+ */
+function buildSettingsXml(sheets: OdsSheet[]): string {
+    const item = (name: string, type: string, value: string | number) =>
+        `<config:config-item config:name="${name}" config:type="${type}">${value}</config:config-item>`;
+
+    const tables = sheets.map(sheet => {
+        const { xSplit, ySplit } = sheet.freeze;
+        return `<config:config-item-map-entry config:name="${escapeXml(sheet.name)}">` +
+            item('HorizontalSplitMode', 'short', xSplit > 0 ? 2 : 0) +
+            item('VerticalSplitMode', 'short', ySplit > 0 ? 2 : 0) +
+            item('HorizontalSplitPosition', 'int', xSplit) +
+            item('VerticalSplitPosition', 'int', ySplit) +
+            item('ActiveSplitRange', 'short', 2) +
+            item('PositionLeft', 'int', 0) +
+            item('PositionRight', 'int', xSplit) +
+            item('PositionTop', 'int', 0) +
+            item('PositionBottom', 'int', ySplit) +
+            '</config:config-item-map-entry>';
+    }).join('');
+
+    return '<?xml version="1.0" encoding="UTF-8"?>' +
+        `<office:document-settings ${xmlns('office', 'config')} office:version="1.2"><office:settings>` +
+        '<config:config-item-set config:name="ooo:view-settings">' +
+        '<config:config-item-map-indexed config:name="Views"><config:config-item-map-entry>' +
+        item('ViewId', 'string', 'view1') +
+        `<config:config-item-map-named config:name="Tables">${tables}</config:config-item-map-named>` +
+        (sheets[0] ? item('ActiveTable', 'string', escapeXml(sheets[0].name)) : '') +
+        item('ShowGrid', 'boolean', 'false') +
+        '</config:config-item-map-entry></config:config-item-map-indexed>' +
+        '</config:config-item-set></office:settings></office:document-settings>';
+}
+
+const STYLES_XML = '<?xml version="1.0" encoding="UTF-8"?>' +
+    `<office:document-styles ${xmlns('office', 'style', 'fo', 'table')} office:version="1.2"><office:styles>` +
+    '<style:default-style style:family="table-cell"><style:text-properties fo:font-size="10pt"/></style:default-style>' +
+    '<style:style style:name="Default" style:family="table-cell"/>' +
+    '</office:styles></office:document-styles>';
+
+const MANIFEST_XML = '<?xml version="1.0" encoding="UTF-8"?>' +
+    `<manifest:manifest ${xmlns('manifest')} manifest:version="1.2">` +
+    `<manifest:file-entry manifest:full-path="/" manifest:version="1.2" manifest:media-type="${MIME_TYPE}"/>` +
+    '<manifest:file-entry manifest:full-path="content.xml" manifest:media-type="text/xml"/>' +
+    '<manifest:file-entry manifest:full-path="styles.xml" manifest:media-type="text/xml"/>' +
+    '<manifest:file-entry manifest:full-path="settings.xml" manifest:media-type="text/xml"/>' +
+    '</manifest:manifest>';
+
+/**
+ * Main ODS export function
+ * Returns the filename and the .ods file as a Blob
+ */
+export async function exportToODS(
+    exportData: OdsSheetData[],
+    workbookName: string = 'Report',
+    onProgress?: (completedSheets: number, totalSheets: number) => void
+): Promise<{ filename: string, content: Blob }> {
+    try {
+        const styles = createStyleRegistry();
+        const sheets: OdsSheet[] = [];
+        const usedNames = new Set<string>();
+
+        for (const [index, sheetData] of exportData.entries()) {
+            // Sheet names must be unique and cannot contain []*?:/\
+            const baseName = (sheetData.sheetName || sheetData.config.sheetName || `Sheet${index + 1}`).replace(/[[\]*?:/\\]/g, '_');
+            let uniqueName = baseName;
+            let counter = 1;
+            while (usedNames.has(uniqueName)) {
+                uniqueName = `${baseName} (${counter++})`;
+            }
+            usedNames.add(uniqueName);
+
+            sheets.push(sheetData.rawDataSource
+                ? await buildFlatSheet(sheetData, uniqueName, styles)
+                : buildPivotSheet(sheetData, uniqueName, styles));
+            onProgress?.(index + 1, exportData.length);
+        }
+
+        // Tables are serialized first so every style they use is registered
+        const tablesXml = sheets.map(sheet => buildTableXml(sheet, styles)).join('');
+        const contentXml = '<?xml version="1.0" encoding="UTF-8"?>' +
+            `<office:document-content ${xmlns('office', 'style', 'text', 'table', 'fo', 'number')} office:version="1.2">` +
+            `<office:automatic-styles>${styles.xml()}</office:automatic-styles>` +
+            `<office:body><office:spreadsheet>${tablesXml}</office:spreadsheet></office:body></office:document-content>`;
+
+        // The mimetype entry must come first and stay uncompressed
+        const zip = new JSZip();
+        zip.file('mimetype', MIME_TYPE, { compression: 'STORE' });
+        zip.file('META-INF/manifest.xml', MANIFEST_XML);
+        zip.file('content.xml', contentXml);
+        zip.file('styles.xml', STYLES_XML);
+        zip.file('settings.xml', buildSettingsXml(sheets));
+
+        const content = await zip.generateAsync({ type: 'blob', mimeType: MIME_TYPE, compression: 'DEFLATE' });
+
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-').split('T')[0];
+        const filename = `${workbookName}_${timestamp}.ods`;
+
+        return { filename, content };
+    } catch (error) {
+        console.error('ODS export failed:', error);
+        throw error;
+    }
+}
@@ -0,0 +1,297 @@
+/**
+ * PDF Export Utility
+ * Renders processed pivot data as a paginated PDF laid out like the formatted Excel sheet.
+ * jsPDF's standard fonts are built in, so no network access is needed.
+ */
+
+import { jsPDF } from 'jspdf';
+import { autoTable } from 'jspdf-autotable';
+import type { CellDef, RowInput, Styles } from 'jspdf-autotable';
+import type { Config, Column, PageSetupSettings, WorksheetFilter } from '../types';
+import type { PivotDataResult } from './pivotHelper';
+import { formatCellText, buildHeaderText } from './formatValue';
+
+export interface PdfSheetData {
+    config: Config;
+    pivotResult: PivotDataResult;
+    filters: WorksheetFilter[];
+    allFields: Column[];
+    sheetName: string;
+}
+
+// Page margins in points, matching the Excel margin presets
+const PDF_MARGINS: Record<PageSetupSettings['margins'], { top: number, right: number, bottom: number, left: number }> = {
+    normal: { top: 54, right: 50, bottom: 54, left: 50 },
+    narrow: { top: 54, right: 18, bottom: 54, left: 18 },
+    wide: { top: 72, right: 72, bottom: 72, left: 72 }
+};
+
+const BASE_FONT_SIZE = 8;
+const MIN_FONT_SIZE = 5;
+const CELL_PADDING = 3;
+
+/**
+ * Normalize a CSS hex colour for jsPDF (#abc -> #aabbcc)
+ */
+function toPdfColor(cssColor?: string): string | undefined {
+    if (!cssColor) return undefined;
+    const hex = cssColor.replace('#', '');
+    if (hex.length === 3) return '#' + hex.split('').map(c => c + c).join('');
+    return hex.length === 6 ? `#${hex}` : cssColor;
+}
+
+/**
+ * Head rows: custom header rows spanning the table, then the pivot headers with the
+ * group column labels spanning all pivot header rows
+ */
+function buildHead(sheet: PdfSheetData, totalColumns: number): RowInput[] {
+    const { config, pivotResult, filters, allFields } = sheet;
+    const head: RowInput[] = [];
+
+    (config.headerRowSettings || []).forEach(headerRow => {
+        head.push([{
+            content: buildHeaderText(headerRow, filters, allFields),
+            colSpan: totalColumns,
+            styles: {
+                halign: headerRow.textAlign || 'left',
+                textColor: toPdfColor(headerRow.fontColor) || '#000000',
+                fillColor: toPdfColor(headerRow.bgColor) || false,
+                lineWidth: 0
+            }
+        }]);
+    });
+
+    const headerStyles: Partial<Styles> = {
+        fillColor: toPdfColor(config.pivotHeaderFormat?.bgColor) || '#E0E0E0',
+        textColor: toPdfColor(config.pivotHeaderFormat?.fontColor) || '#000000',
+        halign: config.pivotHeaderFormat?.textAlign || 'center'
+    };
+    const headerRows = pivotResult.headerRows.length > 0 ? pivotResult.headerRows : [[]];
+    headerRows.forEach((headerRow, headerRowIdx) => {
+        const cells: CellDef[] = [];
+        if (headerRowIdx === 0) {
+            config.groupColumns.forEach(groupCol => {
+                cells.push({ content: groupCol.name || groupCol.id, rowSpan: headerRows.length, styles: headerStyles });
+            });
+        }
+        headerRow.forEach(header => {
+            cells.push({
+                content: header.label,
+                colSpan: header.colSpan,
+                styles: {
+                    ...headerStyles,
+                    fillColor: toPdfColor(header.style?.backgroundColor as string) || headerStyles.fillColor,
+                    textColor: toPdfColor(header.style?.color as string) || headerStyles.textColor
+                }
+            });
+        });
+        head.push(cells);
+    });
+
+    return head;
+}
+
+/**
+ * Body rows: row headers (hidden cells of row spans are left out, as autoTable expects)
+ * and data cells with their number formats and conditional fill colours
+ */
+function buildBody(pivotResult: PdfSheetData['pivotResult'], config: Config): RowInput[] {
+    const valueColumns = pivotResult.valueColumns || config.valueColumns;
+    const valueColumnAt = (dataIdx: number): Column | undefined => {
+        if (valueColumns.length === 0) return undefined;
+        return valueColumns[pivotResult.columnMeta?.[dataIdx]?.valueIndex ?? dataIdx % valueColumns.length];
+    };
+
+    return pivotResult.rowHeaders.map((rowHeaderCells, rowIdx) => {
+        const cells: CellDef[] = [];
+
+        rowHeaderCells.forEach((headerCell, headerIdx) => {
+            if (!headerCell.isVisible) return;
+            cells.push({
+                content: headerCell.value ?? '',
+                rowSpan: headerCell.rowSpan || 1,
+                colSpan: headerCell.colSpan || 1,
+                styles: {
+                    fontStyle: 'bold',
+                    cellPadding: { top: CELL_PADDING, right: CELL_PADDING, bottom: CELL_PADDING, left: CELL_PADDING + headerIdx * 4 },
+                    fillColor: toPdfColor(headerCell.style?.backgroundColor as string) || false,
+                    textColor: toPdfColor(headerCell.style?.color as string) || '#000000'
+                }
+            });
+        });
+
+        (pivotResult.dataMatrix[rowIdx] || []).forEach((dataCell, dataIdx) => {
+            const hasValue = dataCell && dataCell.value !== null && dataCell.value !== undefined;
+            const style = dataCell?.style;
+            const bold = style?.fontWeight === 'bold';
+            const italic = style?.fontStyle === 'italic';
+            cells.push({
+                content: hasValue ? formatCellText(dataCell!.value!, valueColumnAt(dataIdx)) : '',
+                styles: {
+                    halign: typeof dataCell?.value === 'number' ? 'right' : 'left',
+                    fontStyle: bold && italic ? 'bolditalic' : bold ? 'bold' : italic ? 'italic' : 'normal',
+                    fillColor: toPdfColor(style?.backgroundColor as string) || false,
+                    textColor: toPdfColor(style?.color as string) || '#000000'
+                }
+            });
+        });
+
+        return cells;
+    });
+}
+
+/**
+ * Font size that fits the table into the requested number of pages across
+ */
+function fitFontSize(doc: jsPDF, head: RowInput[], body: RowInput[], totalColumns: number, availableWidth: number, pagesWide: number): number {
+    if (pagesWide <= 0 || totalColumns === 0) return BASE_FONT_SIZE;
+
+    // Widest single-column text per column at the base font size. Cells covered by a
+    // row span are left out at the start of a row, so positions are counted from the right.
+    const widths = new Array<number>(totalColumns).fill(0);
+    [...head, ...body].forEach(row => {
+        let end = totalColumns;
+        [...(row as CellDef[])].reverse().forEach(cell => {
+            const span = cell.colSpan || 1;
+            const col = end - span;
+            if (span === 1 && col >= 0) {
+                const lines = String(cell.content ?? '').split('\n');
+                const textWidth = Math.max(...lines.map(line => doc.getStringUnitWidth(line))) * BASE_FONT_SIZE;
+                widths[col] = Math.max(widths[col], textWidth + CELL_PADDING * 2);
+            }
+            end = col;
+        });
+    });
+
+    const needed = widths.reduce((sum, w) => sum + w, 0);
+    const available = availableWidth * pagesWide;
+    return needed <= available ? BASE_FONT_SIZE : Math.max(MIN_FONT_SIZE, BASE_FONT_SIZE * available / needed);
+}
+
+/**
+ * Replace the {page}, {pages}, {date} and {sheet} placeholders of header/footer text
+ */
+function fillPlaceholders(text: string, page: number, pages: number, sheetName: string): string {
+    return text
+        .replace(/\{page\}/g, String(page))
+        .replace(/\{pages\}/g, String(pages))
+        .replace(/\{date\}/g, new Date().toLocaleDateString())
+        .replace(/\{sheet\}/g, sheetName);
+}
+
+/**
+ * Draw the page header and footer of every page once the page count is known
+ */
+function drawPageDecorations(doc: jsPDF, pageSheets: Map<number, PdfSheetData>): void {
+    const pages = doc.getNumberOfPages();
+
+    for (let page = 1; page <= pages; page++) {
+        const sheet = pageSheets.get(page);
+        if (!sheet) continue;
+        const pageSetup = sheet.config.pageSetup;
+        const margin = PDF_MARGINS[pageSetup?.margins || 'normal'];
+
+        doc.setPage(page);
+        const width = doc.internal.pageSize.getWidth();
+        const height = doc.internal.pageSize.getHeight();
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(8);
+        doc.setTextColor('#000000');
+
+        const headerText = pageSetup?.headerText?.trim();
+        if (headerText) {
+            doc.text(fillPlaceholders(headerText, page, pages, sheet.sheetName), width / 2, margin.top / 2, { align: 'center' });
+        }
+        const footerText = pageSetup?.footerText?.trim();
+        if (footerText) {
+            doc.text(fillPlaceholders(footerText, page, pages, sheet.sheetName), margin.left, height - margin.bottom / 2);
+        }
+        if (pageSetup?.showPageNumbers ?? true) {
+            doc.text(`Page ${page} of ${pages}`, width - margin.right, height - margin.bottom / 2, { align: 'right' });
+        }
+    }
+}
+
+/**
+ * Main PDF export function: one section per sheet, each starting on a new page
+ * with its own orientation and paper size (config.pageSetup)
+ */
+export async function exportToPDF(
+    sheets: PdfSheetData[],
+    workbookName: string = 'Report',
+    onProgress?: (completedSheets: number, totalSheets: number) => void
+): Promise<{ filename: string, content: Blob }> {
+    try {
+        let doc: jsPDF | null = null;
+        const pageSheets = new Map<number, PdfSheetData>();
+
+        sheets.forEach((sheet, index) => {
+            const { config, pivotResult } = sheet;
+            const pageSetup = config.pageSetup;
+            const orientation = pageSetup?.orientation || 'landscape';
+            const paperSize = pageSetup?.paperSize || 'letter';
+            const margin = PDF_MARGINS[pageSetup?.margins || 'normal'];
+
+            if (!doc) {
+                doc = new jsPDF({ orientation, unit: 'pt', format: paperSize, compress: true });
+            } else {
+                doc.addPage(paperSize, orientation);
+            }
+            const pdf: jsPDF = doc;
+
+            const numGroupCols = pivotResult.rowHeaders[0]?.length ?? config.groupColumns.length;
+            const numDataCols = pivotResult.dataMatrix[0]?.length || 0;
+            const totalColumns = Math.max(1, numGroupCols + numDataCols);
+
+            const head = buildHead(sheet, totalColumns);
+            const body = buildBody(pivotResult, config);
+            const pageWidth = pdf.internal.pageSize.getWidth();
+            const fontSize = fitFontSize(pdf, head, body, totalColumns, pageWidth - margin.left - margin.right, pageSetup?.fitToPagesWide ?? 1);
+            const firstPage = pdf.getNumberOfPages();
+            pageSheets.set(firstPage, sheet);
+
+            autoTable(pdf, {
+                head,
+                body,
+                startY: margin.top,
+                margin,
+                theme: 'grid',
+                showHead: pageSetup?.repeatHeaderRows === false ? 'firstPage' : 'everyPage',
+                rowPageBreak: 'avoid',
+                // Tables too wide for the page continue on further pages, repeating the row labels if requested
+                horizontalPageBreak: true,
+                horizontalPageBreakRepeat: pageSetup?.repeatRowHeaders && numGroupCols > 0
+                    ? Array.from({ length: numGroupCols }, (_, i) => i)
+                    : undefined,
+                styles: {
+                    font: 'helvetica',
+                    fontSize,
+                    cellPadding: CELL_PADDING,
+                    lineColor: '#808080',
+                    lineWidth: 0.5,
+                    valign: 'middle',
+                    overflow: 'linebreak'
+                },
+                headStyles: { fontStyle: 'bold' },
+                didDrawPage: (data) => {
+                    pageSheets.set(data.pageNumber + firstPage - 1, sheet);
+                }
+            });
+
+            onProgress?.(index + 1, sheets.length);
+        });
+
+        if (!doc) throw new Error('No sheets to export to PDF');
+        const finished: jsPDF = doc;
+        drawPageDecorations(finished, pageSheets);
+
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-').split('T')[0];
+        const filename = `${workbookName}_${timestamp}.pdf`;
+
+        return { filename, content: finished.output('blob') };
+
+    } catch (error) {
+        console.error('PDF export failed:', error);
+        throw error;
+    }
+}
@@ -0,0 +1,188 @@
+import { buildExportFiles } from './exportManager';
+import type { ExportSheetInput, ExportProgress, ExportFile } from './exportManager';
+import { createPageQueue } from './pageQueue';
+import type { PageQueue } from './pageQueue';
+import type { SerializedDataTable } from './dataFetcher';
+
+export interface ExportWorkerRequest {
+    sheets: ExportSheetInput[];
+    workbookName: string;
+}
+
+// Main thread -> worker. Sheets with streamsPages receive their raw data as 'page' commands.
+export type ExportWorkerCommand =
+    | { type: 'start', request: ExportWorkerRequest }
+    | { type: 'page', sheetIndex: number, page: SerializedDataTable }
+    | { type: 'pagesEnd', sheetIndex: number, error?: string };
+
+// Worker -> main thread. 'pageTaken' tells the producer the exporter has taken a sheet's oldest page.
+export type ExportWorkerMessage =
+    | { type: 'progress', progress: ExportProgress }
+    | { type: 'pageTaken', sheetIndex: number }
+    | { type: 'done', files: ExportFile[] }
+    | { type: 'error', message: string };
+
+export class ExportCancelledError extends Error {
+    constructor() {
+        super('Export cancelled');
+        this.name = 'ExportCancelledError';
+    }
+}
+
+/**
+ * Give every streamsPages sheet a page queue as its raw data source.
+ * Returns the queues by sheet index so pages can be pushed as they arrive.
+ */
+export const attachPageQueues = (sheets: ExportSheetInput[]): Map<number, PageQueue<SerializedDataTable>> => {
+    const queues = new Map<number, PageQueue<SerializedDataTable>>();
+    sheets.forEach((sheet, idx) => {
+        if (!sheet.streamsPages) return;
+        const queue = createPageQueue<SerializedDataTable>();
+        sheet.rawData = queue;
+        queues.set(idx, queue);
+    });
+    return queues;
+};
+
+export interface ExportJob {
+    promise: Promise<ExportFile[]>;
+    cancel: () => void;
+    // Feed a streamsPages sheet. Resolves once the exporter has taken the page, so the next page
+    // is only read when the previous one is being processed; false once the export has finished
+    // or been cancelled.
+    sendPage: (sheetIndex: number, page: SerializedDataTable) => Promise<boolean>;
+    endPages: (sheetIndex: number, error?: string) => void;
+}
+
+/**
+ * Run an export in the export worker.
+ * cancel() terminates the worker and rejects the promise with ExportCancelledError.
+ * Falls back to the main thread when the worker cannot be created, or fails to load
+ * before it has reported anything.
+ */
+export const runExportInWorker = (
+    request: ExportWorkerRequest,
+    onProgress?: (progress: ExportProgress) => void
+): ExportJob => {
+    let worker: Worker | null = null;
+    let settle: { resolve: (files: ExportFile[]) => void, reject: (error: Error) => void } | null = null;
+    const promise = new Promise<ExportFile[]>((resolve, reject) => {
+        settle = { resolve, reject };
+    });
+
+    // Page queues of the main-thread export, once the worker is not used
+    let localQueues: Map<number, PageQueue<SerializedDataTable>> | null = null;
+    // Pages posted to the worker and not taken yet, oldest first, kept for a main-thread fallback
+    const inFlight = new Map<number, Array<{ page: SerializedDataTable, taken: (sent: boolean) => void }>>();
+    const endedSheets = new Map<number, string | undefined>(); // Sheet index -> read error
+    let workerStarted = false;
+
+    // Settle once; later messages (or a late main-thread result after cancel) are ignored
+    const finish = (outcome: (s: NonNullable<typeof settle>) => void) => {
+        if (!settle) return;
+        const current = settle;
+        settle = null;
+        worker?.terminate();
+        // Pages that will not be read any more release their producers
+        inFlight.forEach(pages => pages.forEach(({ taken }) => taken(false)));
+        inFlight.clear();
+        localQueues?.forEach(queue => queue.fail(new ExportCancelledError()));
+        outcome(current);
+    };
+    const report = (progress: ExportProgress) => {
+        if (settle) onProgress?.(progress);
+    };
+    const cancel = () => finish(s => s.reject(new ExportCancelledError()));
+
+    const endLocalPages = (queue: PageQueue<SerializedDataTable> | undefined, error?: string) => {
+        if (error) queue?.fail(new Error(error));
+        else queue?.end();
+    };
+
+    // Export on the main thread, starting from the pages the worker has not taken
+    const exportOnMainThread = () => {
+        const queues = attachPageQueues(request.sheets);
+        localQueues = queues;
+        buildExportFiles(request.sheets, request.workbookName, report)
+            .then(files => finish(s => s.resolve(files)))
+            .catch(err => finish(s => s.reject(err instanceof Error ? err : new Error(String(err)))));
+
+        inFlight.forEach((pages, sheetIndex) => pages.forEach(({ page, taken }) => {
+            queues.get(sheetIndex)?.push(page).then(() => taken(!!settle));
+        }));
+        inFlight.clear();
+        endedSheets.forEach((error, sheetIndex) => endLocalPages(queues.get(sheetIndex), error));
+    };
+
+    try {
+        worker = new Worker(new URL('../workers/exportWorker.ts', import.meta.url), { type: 'module' });
+    } catch (error) {
+        console.warn('Export worker unavailable, exporting on the main thread', error);
+        exportOnMainThread();
+    }
+
+    if (worker) {
+        const activeWorker = worker;
+        activeWorker.onmessage = (event: MessageEvent<ExportWorkerMessage>) => {
+            const message = event.data;
+            workerStarted = true;
+            switch (message.type) {
+                case 'progress':
+                    report(message.progress);
+                    break;
+                case 'pageTaken':
+                    inFlight.get(message.sheetIndex)?.shift()?.taken(!!settle);
+                    break;
+                case 'done':
+                    finish(s => s.resolve(message.files));
+                    break;
+                case 'error':
+                    finish(s => s.reject(new Error(message.message)));
+                    break;
+            }
+        };
+        activeWorker.onerror = (event) => {
+            event.preventDefault();
+            if (!settle) return;
+            if (!workerStarted) {
+                // The worker module failed to load or evaluate: nothing has run in it yet
+                console.warn('Export worker failed to start, exporting on the main thread', event.message);
+                activeWorker.terminate();
+                worker = null;
+                exportOnMainThread();
+                return;
+            }
+            finish(s => s.reject(new Error(event.message || 'Export worker failed')));
+        };
+
+        const command: ExportWorkerCommand = { type: 'start', request };
+        activeWorker.postMessage(command);
+    }
+
+    return {
+        promise,
+        cancel,
+        sendPage: (sheetIndex, page) => {
+            if (!settle) return Promise.resolve(false);
+            if (localQueues) {
+                return (localQueues.get(sheetIndex)?.push(page) ?? Promise.resolve()).then(() => !!settle);
+            }
+            return new Promise<boolean>(resolve => {
+                if (!inFlight.has(sheetIndex)) inFlight.set(sheetIndex, []);
+                inFlight.get(sheetIndex)!.push({ page, taken: resolve });
+                const command: ExportWorkerCommand = { type: 'page', sheetIndex, page };
+                worker!.postMessage(command);
+            });
+        },
+        endPages: (sheetIndex, error) => {
+            if (!settle) return;
+            if (localQueues) {
+                endLocalPages(localQueues.get(sheetIndex), error);
+                return;
+            }
+            endedSheets.set(sheetIndex, error);
+            const command: ExportWorkerCommand = { type: 'pagesEnd', sheetIndex, error };
+            worker!.postMessage(command);
+        }
+    };
+};
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { getFlatFileFormat } from './fileFormats';
+import type { FlatTableLayout } from './fileFormats';
+
+const table: FlatTableLayout = {
+    columns: [{ name: 'Region', dataType: 'string' }, { name: 'Sales', dataType: 'float' }, { name: 'Sales' }],
+    headerRows: [['Region', 'Sales', 'Sales']],
+    customHeaders: []
+};
+
+const write = async (formatId: string, pages: unknown[][][]) => {
+    const writer = getFlatFileFormat(formatId).createWriter(table);
+    pages.forEach(rows => writer.writeRows(rows));
+    return JSON.parse(await (await writer.finish()).text());
+};
+
+describe('split JSON format', () => {
+    it('writes the columns once and each row as an array of typed values', async () => {
+        expect(await write('json-split', [[['East', '10.5', 3]], [['West', '%null%', null]]])).toEqual({
+            columns: [{ name: 'Region', type: 'string' }, { name: 'Sales', type: 'float' }, { name: 'Sales (2)' }],
+            rows: [['East', 10.5, 3], ['West', null, null]]
+        });
+    });
+
+    it('writes an empty rows array when there is no data', async () => {
+        expect((await write('json-split', [])).rows).toEqual([]);
+    });
+});
@@ -0,0 +1,331 @@
+/**
+ * Flat File Format Registry
+ * Writers for the single-table file formats (CSV, TSV, JSON, split JSON, NDJSON, Parquet).
+ * The streaming exporters in exportToCSV generate rows in chunks and hand them to
+ * the writer of the format picked in the sheet's config.
+ */
+
+import type { Config, FlatFileFormatId } from '../types';
+
+/**
+ * One output column. dataType is the Tableau data type ('int', 'float', 'bool',
+ * 'date', 'date-time', 'string'); without it the values are written as they come.
+ */
+export interface FlatColumn {
+    name: string;
+    dataType?: string;
+}
+
+/**
+ * Table handed to a writer before any rows
+ */
+export interface FlatTableLayout {
+    columns: FlatColumn[];
+    headerRows: string[][]; // Column header rows as shown in text formats (pivot headers may span several rows)
+    customHeaders: string[]; // Header rows from the config (title, filters, refresh date)
+}
+
+export interface FlatFileWriter {
+    writeRows(rows: unknown[][]): void;
+    finish(): Promise<Blob>;
+}
+
+export interface FlatFileFormat {
+    id: FlatFileFormatId;
+    label: string;
+    extension: string;
+    mimeType: string;
+    layout: 'text' | 'records'; // 'records' formats key values by column name and repeat merged row labels
+    createWriter(table: FlatTableLayout): FlatFileWriter;
+}
+
+const isNull = (value: unknown) => value === null || value === undefined || value === '%null%';
+
+/**
+ * Convert a value to the JSON type of its column: numbers and booleans stay typed,
+ * dates keep their ISO-like text and nulls become null.
+ */
+export function toTypedValue(value: unknown, dataType?: string): string | number | boolean | null {
+    if (isNull(value)) return null;
+
+    switch (dataType) {
+        case 'int':
+        case 'float': {
+            if (value === '') return null;
+            const num = typeof value === 'number' ? value : Number(value);
+            return isNaN(num) ? String(value) : num;
+        }
+        case 'bool':
+            return typeof value === 'boolean' ? value : String(value).toLowerCase() === 'true';
+        default:
+            return typeof value === 'number' || typeof value === 'boolean' ? value : String(value);
+    }
+}
+
+/**
+ * Make column names unique so they can be used as record keys
+ */
+function uniqueNames(columns: FlatColumn[]): string[] {
+    const seen = new Map<string, number>();
+    return columns.map((c, idx) => {
+        const name = c.name || `Column ${idx + 1}`;
+        const count = seen.get(name) || 0;
+        seen.set(name, count + 1);
+        return count === 0 ? name : `${name} (${count + 1})`;
+    });
+}
+
+/**
+ * CSV/TSV writer: custom headers, a blank line, the header rows and then the data
+ */
+function createDelimitedWriter(
+    table: FlatTableLayout,
+    delimiter: string,
+    escape: (value: unknown) => string,
+    mimeType: string
+): FlatFileWriter {
+    const chunks: string[] = [];
+
+    if (table.customHeaders.length > 0) {
+        chunks.push(table.customHeaders.map(escape).join('\n') + '\n');
+        chunks.push('\n');
+    }
+    if (table.headerRows.length > 0) {
+        chunks.push(table.headerRows.map(row => row.map(escape).join(delimiter)).join('\n') + '\n');
+    }
+
+    return {
+        writeRows(rows) {
+            if (rows.length === 0) return;
+            chunks.push(rows.map(row => row.map(escape).join(delimiter)).join('\n') + '\n');
+        },
+        async finish() {
+            return new Blob(chunks, { type: mimeType });
+        }
+    };
+}
+
+/**
+ * Escape CSV value (handle quotes and commas)
+ */
+function escapeCSV(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    const str = String(value);
+    if (str.includes('"') || str.includes(',') || str.includes('\n')) {
+        return `"${str.replace(/"/g, '""')}"`;
+    }
+    return str;
+}
+
+/**
+ * TSV has no quoting, so tabs and line breaks inside a value become spaces
+ */
+function escapeTSV(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    return String(value).replace(/[\t\r\n]+/g, ' ');
+}
+
+/**
+ * JSON writer: an array with one object per row. With onePerLine every object is
+ * written on its own line without the array (NDJSON).
+ */
+function createRecordWriter(table: FlatTableLayout, onePerLine: boolean, mimeType: string): FlatFileWriter {
+    const names = uniqueNames(table.columns);
+    const chunks: string[] = onePerLine ? [] : ['['];
+    let written = 0;
+
+    return {
+        writeRows(rows) {
+            if (rows.length === 0) return;
+            const lines = rows.map(row => {
+                const record: Record<string, unknown> = {};
+                names.forEach((name, colIdx) => {
+                    record[name] = toTypedValue(row[colIdx], table.columns[colIdx].dataType);
+                });
+                return JSON.stringify(record);
+            });
+            if (onePerLine) {
+                chunks.push(lines.join('\n') + '\n');
+            } else {
+                chunks.push((written > 0 ? ',\n' : '\n') + lines.join(',\n'));
+            }
+            written += rows.length;
+        },
+        async finish() {
+            if (!onePerLine) chunks.push(written > 0 ? '\n]\n' : ']\n');
+            return new Blob(chunks, { type: mimeType });
+        }
+    };
+}
+
+/**
+ * Split JSON writer: the column names and types once, then each row as an array of
+ * typed values ({ "columns": [{ "name", "type" }], "rows": [[...], ...] }).
+ */
+function createSplitWriter(table: FlatTableLayout, mimeType: string): FlatFileWriter {
+    const columns = uniqueNames(table.columns).map((name, colIdx) => ({ name, type: table.columns[colIdx].dataType }));
+    const chunks: string[] = [`{"columns":${JSON.stringify(columns)},"rows":[`];
+    let written = 0;
+
+    return {
+        writeRows(rows) {
+            if (rows.length === 0) return;
+            const lines = rows.map(row =>
+                JSON.stringify(table.columns.map((column, colIdx) => toTypedValue(row[colIdx], column.dataType)))
+            );
+            chunks.push((written > 0 ? ',\n' : '\n') + lines.join(',\n'));
+            written += rows.length;
+        },
+        async finish() {
+            chunks.push(written > 0 ? '\n]}\n' : ']}\n');
+            return new Blob(chunks, { type: mimeType });
+        }
+    };
+}
+
+/**
+ * Parse a Tableau date or date-time value as UTC, matching the Excel export
+ */
+function toDate(value: unknown): Date | null {
+    if (value instanceof Date) return value;
+    const text = String(value).replace(' ', 'T');
+    const date = new Date(/[zZ]|[+-]\d\d:?\d\d$/.test(text) ? text : `${text}${text.includes('T') ? '' : 'T00:00:00'}Z`);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Parquet writer: rows are collected per column and encoded when the export finishes.
+ * Each column gets the narrowest type all of its values fit, falling back to strings.
+ * Custom headers are stored in the file's key/value metadata.
+ */
+function createParquetWriter(table: FlatTableLayout, mimeType: string): FlatFileWriter {
+    const names = uniqueNames(table.columns);
+    const columnValues: unknown[][] = table.columns.map(() => []);
+
+    return {
+        writeRows(rows) {
+            rows.forEach(row => {
+                columnValues.forEach((values, colIdx) => {
+                    values.push(toTypedValue(row[colIdx], table.columns[colIdx].dataType));
+                });
+            });
+        },
+        async finish() {
+            const { parquetWriteBuffer } = await import('hyparquet-writer');
+
+            const columnData = names.map((name, colIdx) => {
+                const dataType = table.columns[colIdx].dataType;
+                const values = columnValues[colIdx];
+                const present = values.filter(v => v !== null);
+
+                if (dataType === 'date' || dataType === 'date-time') {
+                    const dates = values.map(v => v === null ? null : toDate(v));
+                    if (dates.every((d, idx) => d !== null || values[idx] === null)) {
+                        return { name, data: dates, type: 'TIMESTAMP' as const };
+                    }
+                }
+                if (present.length > 0 && present.every(v => typeof v === 'number')) {
+                    if (dataType === 'int' && present.every(v => Number.isSafeInteger(v))) {
+                        return { name, data: values.map(v => v === null ? null : BigInt(v as number)), type: 'INT64' as const };
+                    }
+                    return { name, data: values, type: 'DOUBLE' as const };
+                }
+                if (present.length > 0 && present.every(v => typeof v === 'boolean')) {
+                    return { name, data: values, type: 'BOOLEAN' as const };
+                }
+                return { name, data: values.map(v => v === null ? null : String(v)), type: 'STRING' as const };
+            });
+
+            const buffer = parquetWriteBuffer({
+                columnData,
+                kvMetadata: table.customHeaders.map((text, idx) => ({ key: `header_${idx + 1}`, value: text }))
+            });
+            return new Blob([buffer], { type: mimeType });
+        }
+    };
+}
+
+const formats = new Map<FlatFileFormatId, FlatFileFormat>();
+
+/**
+ * Add a format to the registry (or replace the one with the same id)
+ */
+export function registerFlatFileFormat(format: FlatFileFormat) {
+    formats.set(format.id, format);
+}
+
+/**
+ * Look up a format, falling back to CSV for unknown ids
+ */
+export function getFlatFileFormat(id?: FlatFileFormatId | string): FlatFileFormat {
+    return formats.get(id as FlatFileFormatId) || formats.get('csv')!;
+}
+
+/**
+ * Format a data dump or underlying data sheet is written to when it is not exported to Excel
+ */
+export function getSheetFileFormat(config: Config): FlatFileFormat {
+    const format = config.exportMode === 'underlying' ? config.underlyingFormat : config.datadumpFormat;
+    return getFlatFileFormat(format === 'excel' ? 'csv' : format);
+}
+
+/**
+ * All registered formats in registration order
+ */
+export function getFlatFileFormats(): FlatFileFormat[] {
+    return Array.from(formats.values());
+}
+
+registerFlatFileFormat({
+    id: 'csv',
+    label: 'CSV',
+    extension: 'csv',
+    mimeType: 'text/csv;charset=utf-8;',
+    layout: 'text',
+    createWriter: table => createDelimitedWriter(table, ',', escapeCSV, 'text/csv;charset=utf-8;')
+});
+
+registerFlatFileFormat({
+    id: 'tsv',
+    label: 'TSV',
+    extension: 'tsv',
+    mimeType: 'text/tab-separated-values;charset=utf-8;',
+    layout: 'text',
+    createWriter: table => createDelimitedWriter(table, '\t', escapeTSV, 'text/tab-separated-values;charset=utf-8;')
+});
+
+registerFlatFileFormat({
+    id: 'json',
+    label: 'JSON',
+    extension: 'json',
+    mimeType: 'application/json',
+    layout: 'records',
+    createWriter: table => createRecordWriter(table, false, 'application/json')
+});
+
+registerFlatFileFormat({
+    id: 'json-split',
+    label: 'JSON (columns + rows)',
+    extension: 'json',
+    mimeType: 'application/json',
+    layout: 'records',
+    createWriter: table => createSplitWriter(table, 'application/json')
+});
+
+registerFlatFileFormat({
+    id: 'ndjson',
+    label: 'NDJSON',
+    extension: 'ndjson',
+    mimeType: 'application/x-ndjson',
+    layout: 'records',
+    createWriter: table => createRecordWriter(table, true, 'application/x-ndjson')
+});
+
+registerFlatFileFormat({
+    id: 'parquet',
+    label: 'Parquet',
+    extension: 'parquet',
+    mimeType: 'application/vnd.apache.parquet',
+    layout: 'records',
+    createWriter: table => createParquetWriter(table, 'application/vnd.apache.parquet')
+});
@@ -1,5 +1,5 @@
 import { format } from 'date-fns';
-import type { NumberFormat, DateFormat } from '../types';
+import type { NumberFormat, DateFormat, Column, HeaderSettings, WorksheetFilter } from '../types';
 
 export const formatNumberValue = (value: number, options?: NumberFormat): string => {
     if (value === null || value === undefined || isNaN(value)) return '';
@@ -99,3 +99,41 @@ export const formatDateValue = (value: string | Date, options?: DateFormat): str
         return date.toLocaleDateString();
     }
 };
+
+/**
+ * Text of a data cell as Excel displays it with the column's number/date format
+ */
+export const formatCellText = (value: string | number, column?: Column): string => {
+    if (typeof value === 'number') {
+        return column?.numberFormat ? formatNumberValue(value, column.numberFormat) : String(value);
+    }
+    if (column?.dateFormat && (column.dataType === 'date' || column.dataType === 'datetime')) {
+        return formatDateValue(value, column.dateFormat);
+    }
+    return value;
+};
+
+/**
+ * Text of a custom header row, as written above the Excel table
+ */
+export const buildHeaderText = (headerRow: HeaderSettings, filters: WorksheetFilter[], allFields: Column[]): string => {
+    switch (headerRow.type) {
+        case 'text':
+            return headerRow.text || '';
+        case 'column': {
+            const field = allFields.find(f => f.id === headerRow.column);
+            const filter = filters.find(f => f.id === headerRow.column);
+            const value = filter && filter.value && !filter.value.includes(',') ? filter.value : '(All)';
+            return `${field?.name || headerRow.column}: ${value}`;
+        }
+        case 'filters':
+            return (headerRow.selectedFilters || []).map((filterId: string) => {
+                const filter = filters.find(f => f.id === filterId);
+                return `${filter?.name || filterId}: ${filter?.value || 'All'}`;
+            }).join('\n');
+        case 'refreshDate':
+            return `Data as of: ${new Date().toLocaleString()}`;
+        default:
+            return '';
+    }
+};
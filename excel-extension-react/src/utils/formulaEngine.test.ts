@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { parseFormula, getFormulaFieldRefs, validateFormula, evaluateFormula, FormulaError } from './formulaEngine';
+import type { FormulaValue } from './formulaEngine';
+import type { Column } from '../types';
+
+const evaluate = (text: string, fields: Record<string, FormulaValue> = {}, rowTotals: Record<string, FormulaValue> = {}) =>
+    evaluateFormula(parseFormula(text), {
+        getField: name => fields[name] ?? null,
+        getRowTotal: name => rowTotals[name] ?? null
+    });
+
+describe('parseFormula', () => {
+    it('collects the referenced fields once each', () => {
+        expect(getFormulaFieldRefs(parseFormula('[Sales] / [Quantity] + [Sales]'))).toEqual(['Sales', 'Quantity']);
+    });
+
+    it('reads escaped brackets in field names', () => {
+        expect(getFormulaFieldRefs(parseFormula('[Sales ]]EU]]] * 2'))).toEqual(['Sales ]EU]']);
+    });
+
+    it('throws a FormulaError for empty and malformed formulas', () => {
+        expect(() => parseFormula('  ')).toThrow(FormulaError);
+        expect(() => parseFormula('[Sales] +')).toThrow(FormulaError);
+        expect(() => parseFormula('IF([Sales])')).toThrow(FormulaError);
+    });
+});
+
+describe('evaluateFormula', () => {
+    it('follows operator precedence', () => {
+        expect(evaluate('1 + 2 * 3')).toBe(7);
+        expect(evaluate('(1 + 2) * 3')).toBe(9);
+        expect(evaluate('-2 * 3')).toBe(-6);
+    });
+
+    it('propagates null through arithmetic and yields null on division by zero', () => {
+        expect(evaluate('[Sales] / [Quantity]', { Sales: 10, Quantity: 4 })).toBe(2.5);
+        expect(evaluate('[Sales] / [Quantity]', { Sales: 10, Quantity: 0 })).toBeNull();
+        expect(evaluate('[Sales] + 1', {})).toBeNull();
+    });
+
+    it('evaluates the built-in functions', () => {
+        expect(evaluate('IF([Profit] > 0, [Profit] / [Sales], 0)', { Profit: 5, Sales: 20 })).toBe(0.25);
+        expect(evaluate('IF([Profit] > 0, 1)', { Profit: -5 })).toBeNull();
+        expect(evaluate('ZN([Discount]) * 100')).toBe(0);
+        expect(evaluate('IFNULL([Discount], 7)')).toBe(7);
+        expect(evaluate('ROUND(ABS(-2.345), 2)')).toBe(2.35);
+        expect(evaluate('MAX(1, [Sales], 3)', { Sales: 9 })).toBe(9);
+        expect(evaluate('MIN(1, [Sales], 3)')).toBe(1);
+    });
+
+    it('reads row totals through the context', () => {
+        expect(evaluate('[Sales] / ROW_TOTAL([Sales])', { Sales: 25 }, { Sales: 100 })).toBe(0.25);
+    });
+
+    it('compares strings as text and everything else as numbers', () => {
+        expect(evaluate('[Region] = "East"', { Region: 'East' })).toBe(true);
+        expect(evaluate('[Sales] >= 10', { Sales: '12' })).toBe(true);
+        expect(evaluate('[Sales] > 1 AND NOT [Sales] > 5', { Sales: 3 })).toBe(true);
+    });
+});
+
+describe('validateFormula', () => {
+    const fields: Column[] = [
+        { id: 'SUM(Sales)', name: 'Sales' },
+        { id: 'SUM(Quantity)', name: 'Quantity' },
+        { id: 'custom_1', name: 'Margin', isCustom: true }
+    ];
+
+    it('maps field names and IDs to field IDs', () => {
+        expect(validateFormula('[Sales] / [sum(quantity)]', fields)).toEqual({
+            refs: { Sales: 'SUM(Sales)', 'sum(quantity)': 'SUM(Quantity)' }
+        });
+    });
+
+    it('rejects unknown and custom fields', () => {
+        expect(validateFormula('[Profit]', fields).error).toBe('Unknown field [Profit]');
+        expect(validateFormula('[Margin] * 2', fields).error).toContain('is a custom field');
+    });
+});
@@ -0,0 +1,497 @@
+import type { Column } from '../types';
+
+/**
+ * Expression language for custom calculated fields.
+ *
+ *   [Sales] / [Quantity]
+ *   IF([Profit] > 0, [Profit] / [Sales], 0)
+ *   ZN([Discount]) * 100
+ *   [Sales] / ROW_TOTAL([Sales])
+ *
+ * Field references are wrapped in brackets (a literal ']' is written as ']]').
+ * Formulas are evaluated per pivot cell on the aggregated values of the
+ * referenced fields, so totals and subtotals are recomputed rather than summed.
+ * Null propagates through arithmetic and division by zero yields null.
+ */
+
+export type FormulaValue = number | string | boolean | null;
+
+export type FormulaNode =
+    | { type: 'number', value: number }
+    | { type: 'string', value: string }
+    | { type: 'boolean', value: boolean }
+    | { type: 'field', name: string }
+    | { type: 'unary', op: '-' | 'NOT', operand: FormulaNode }
+    | { type: 'binary', op: string, left: FormulaNode, right: FormulaNode }
+    | { type: 'call', name: string, args: FormulaNode[] };
+
+export interface FormulaContext {
+    getField: (name: string) => FormulaValue;
+    getRowTotal: (name: string) => FormulaValue;
+}
+
+export class FormulaError extends Error {
+    position: number;
+
+    constructor(message: string, position: number) {
+        super(message);
+        this.name = 'FormulaError';
+        this.position = position;
+    }
+}
+
+// Function name -> [min args, max args]
+const FUNCTIONS: Record<string, [number, number]> = {
+    IF: [2, 3],
+    ZN: [1, 1],
+    IFNULL: [2, 2],
+    ABS: [1, 1],
+    ROUND: [1, 2],
+    MIN: [2, Infinity],
+    MAX: [2, Infinity],
+    ROW_TOTAL: [1, 1]
+};
+
+export const FORMULA_FUNCTIONS: { name: string, signature: string, description: string }[] = [
+    { name: 'IF', signature: 'IF(condition, then, else)', description: 'Returns then when the condition is true, otherwise else (or null)' },
+    { name: 'ZN', signature: 'ZN(value)', description: 'Returns 0 when the value is null' },
+    { name: 'IFNULL', signature: 'IFNULL(value, fallback)', description: 'Returns fallback when the value is null' },
+    { name: 'ABS', signature: 'ABS(value)', description: 'Absolute value' },
+    { name: 'ROUND', signature: 'ROUND(value, decimals)', description: 'Rounds to the given number of decimals (default 0)' },
+    { name: 'MIN', signature: 'MIN(a, b, ...)', description: 'Smallest non-null argument' },
+    { name: 'MAX', signature: 'MAX(a, b, ...)', description: 'Largest non-null argument' },
+    { name: 'ROW_TOTAL', signature: 'ROW_TOTAL([Field])', description: 'Total of a field across the whole pivot row' }
+];
+
+interface Token {
+    type: 'number' | 'string' | 'field' | 'ident' | 'op' | 'paren' | 'comma' | 'eof';
+    value: string;
+    position: number;
+}
+
+const tokenize = (text: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < text.length) {
+        const ch = text[i];
+
+        if (/\s/.test(ch)) {
+            i++;
+            continue;
+        }
+
+        if (/[0-9.]/.test(ch)) {
+            const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(text.slice(i));
+            if (!match) throw new FormulaError(`Invalid number at position ${i + 1}`, i);
+            tokens.push({ type: 'number', value: match[0], position: i });
+            i += match[0].length;
+            continue;
+        }
+
+        if (ch === '[') {
+            const start = i;
+            let name = '';
+            i++;
+            while (true) {
+                if (i >= text.length) throw new FormulaError(`Missing ']' for field reference starting at position ${start + 1}`, start);
+                if (text[i] === ']') {
+                    if (text[i + 1] === ']') {
+                        name += ']';
+                        i += 2;
+                        continue;
+                    }
+                    i++;
+                    break;
+                }
+                name += text[i++];
+            }
+            if (!name.trim()) throw new FormulaError(`Empty field reference at position ${start + 1}`, start);
+            tokens.push({ type: 'field', value: name.trim(), position: start });
+            continue;
+        }
+
+        if (ch === '"' || ch === "'") {
+            const start = i;
+            let value = '';
+            i++;
+            while (true) {
+                if (i >= text.length) throw new FormulaError(`Unterminated text starting at position ${start + 1}`, start);
+                if (text[i] === ch) {
+                    if (text[i + 1] === ch) {
+                        value += ch;
+                        i += 2;
+                        continue;
+                    }
+                    i++;
+                    break;
+                }
+                value += text[i++];
+            }
+            tokens.push({ type: 'string', value, position: start });
+            continue;
+        }
+
+        if (/[A-Za-z_]/.test(ch)) {
+            const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(text.slice(i))!;
+            tokens.push({ type: 'ident', value: match[0].toUpperCase(), position: i });
+            i += match[0].length;
+            continue;
+        }
+
+        const twoChar = text.slice(i, i + 2);
+        if (['<=', '>=', '<>', '!=', '=='].includes(twoChar)) {
+            tokens.push({ type: 'op', value: twoChar === '<>' ? '!=' : twoChar === '==' ? '=' : twoChar, position: i });
+            i += 2;
+            continue;
+        }
+
+        if ('+-*/<>='.includes(ch)) {
+            tokens.push({ type: 'op', value: ch, position: i });
+            i++;
+            continue;
+        }
+
+        if (ch === '(' || ch === ')') {
+            tokens.push({ type: 'paren', value: ch, position: i });
+            i++;
+            continue;
+        }
+
+        if (ch === ',') {
+            tokens.push({ type: 'comma', value: ch, position: i });
+            i++;
+            continue;
+        }
+
+        throw new FormulaError(`Unexpected character '${ch}' at position ${i + 1}`, i);
+    }
+
+    tokens.push({ type: 'eof', value: '', position: text.length });
+    return tokens;
+};
+
+/**
+ * Parse a formula into an expression tree. Throws a FormulaError
+ * describing the first problem found.
+ */
+export const parseFormula = (text: string): FormulaNode => {
+    if (!text || !text.trim()) {
+        throw new FormulaError('Formula is empty', 0);
+    }
+
+    const tokens = tokenize(text);
+    let pos = 0;
+
+    const peek = () => tokens[pos];
+    const next = () => tokens[pos++];
+    const describe = (token: Token) => token.type === 'eof' ? 'end of formula' : `'${token.value}' at position ${token.position + 1}`;
+
+    const expect = (type: Token['type'], value?: string): Token => {
+        const token = next();
+        if (token.type !== type || (value !== undefined && token.value !== value)) {
+            throw new FormulaError(`Expected '${value ?? type}' but found ${describe(token)}`, token.position);
+        }
+        return token;
+    };
+
+    const parseOr = (): FormulaNode => {
+        let left = parseAnd();
+        while (peek().type === 'ident' && peek().value === 'OR') {
+            next();
+            left = { type: 'binary', op: 'OR', left, right: parseAnd() };
+        }
+        return left;
+    };
+
+    const parseAnd = (): FormulaNode => {
+        let left = parseNot();
+        while (peek().type === 'ident' && peek().value === 'AND') {
+            next();
+            left = { type: 'binary', op: 'AND', left, right: parseNot() };
+        }
+        return left;
+    };
+
+    const parseNot = (): FormulaNode => {
+        if (peek().type === 'ident' && peek().value === 'NOT') {
+            next();
+            return { type: 'unary', op: 'NOT', operand: parseNot() };
+        }
+        return parseComparison();
+    };
+
+    const parseComparison = (): FormulaNode => {
+        const left = parseAdditive();
+        const token = peek();
+        if (token.type === 'op' && ['=', '!=', '<', '<=', '>', '>='].includes(token.value)) {
+            next();
+            return { type: 'binary', op: token.value, left, right: parseAdditive() };
+        }
+        return left;
+    };
+
+    const parseAdditive = (): FormulaNode => {
+        let left = parseTerm();
+        while (peek().type === 'op' && (peek().value === '+' || peek().value === '-')) {
+            const op = next().value;
+            left = { type: 'binary', op, left, right: parseTerm() };
+        }
+        return left;
+    };
+
+    const parseTerm = (): FormulaNode => {
+        let left = parseUnary();
+        while (peek().type === 'op' && (peek().value === '*' || peek().value === '/')) {
+            const op = next().value;
+            left = { type: 'binary', op, left, right: parseUnary() };
+        }
+        return left;
+    };
+
+    const parseUnary = (): FormulaNode => {
+        if (peek().type === 'op' && peek().value === '-') {
+            next();
+            return { type: 'unary', op: '-', operand: parseUnary() };
+        }
+        if (peek().type === 'op' && peek().value === '+') {
+            next();
+            return parseUnary();
+        }
+        return parsePrimary();
+    };
+
+    const parsePrimary = (): FormulaNode => {
+        const token = next();
+
+        switch (token.type) {
+            case 'number':
+                return { type: 'number', value: parseFloat(token.value) };
+            case 'string':
+                return { type: 'string', value: token.value };
+            case 'field':
+                return { type: 'field', name: token.value };
+            case 'paren':
+                if (token.value === '(') {
+                    const inner = parseOr();
+                    expect('paren', ')');
+                    return inner;
+                }
+                break;
+            case 'ident': {
+                if (token.value === 'TRUE' || token.value === 'FALSE') {
+                    return { type: 'boolean', value: token.value === 'TRUE' };
+                }
+                if (token.value === 'NULL') {
+                    return { type: 'call', name: 'NULL', args: [] };
+                }
+
+                const arity = FUNCTIONS[token.value];
+                if (!arity) {
+                    throw new FormulaError(`Unknown function '${token.value}' at position ${token.position + 1}`, token.position);
+                }
+
+                expect('paren', '(');
+                const args: FormulaNode[] = [];
+                if (!(peek().type === 'paren' && peek().value === ')')) {
+                    args.push(parseOr());
+                    while (peek().type === 'comma') {
+                        next();
+                        args.push(parseOr());
+                    }
+                }
+                expect('paren', ')');
+
+                const [min, max] = arity;
+                if (args.length < min || args.length > max) {
+                    const expected = min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min} to ${max}`;
+                    throw new FormulaError(`${token.value} expects ${expected} argument(s) but got ${args.length}`, token.position);
+                }
+                if (token.value === 'ROW_TOTAL' && args[0].type !== 'field') {
+                    throw new FormulaError('ROW_TOTAL expects a field reference such as ROW_TOTAL([Sales])', token.position);
+                }
+
+                return { type: 'call', name: token.value, args };
+            }
+        }
+
+        throw new FormulaError(`Unexpected ${describe(token)}`, token.position);
+    };
+
+    const tree = parseOr();
+    if (peek().type !== 'eof') {
+        throw new FormulaError(`Unexpected ${describe(peek())}`, peek().position);
+    }
+    return tree;
+};
+
+/**
+ * Collect the distinct field names a formula refers to.
+ */
+export const getFormulaFieldRefs = (node: FormulaNode): string[] => {
+    const refs = new Set<string>();
+    const visit = (n: FormulaNode) => {
+        switch (n.type) {
+            case 'field': refs.add(n.name); break;
+            case 'unary': visit(n.operand); break;
+            case 'binary': visit(n.left); visit(n.right); break;
+            case 'call': n.args.forEach(visit); break;
+        }
+    };
+    visit(node);
+    return Array.from(refs);
+};
+
+/**
+ * Validate a formula against the fields it may reference. Returns the
+ * field name -> field ID mapping on success or an error message.
+ * References match a field's display name first, then its ID (case-insensitive).
+ */
+export const validateFormula = (
+    text: string,
+    fields: Column[]
+): { refs: Record<string, string>, error?: undefined } | { refs?: undefined, error: string } => {
+    let tree: FormulaNode;
+    try {
+        tree = parseFormula(text);
+    } catch (error) {
+        return { error: error instanceof Error ? error.message : String(error) };
+    }
+
+    const refs: Record<string, string> = {};
+    for (const name of getFormulaFieldRefs(tree)) {
+        const lower = name.toLowerCase();
+        const field = fields.find(f => f.name === name)
+            || fields.find(f => f.id === name)
+            || fields.find(f => f.name?.toLowerCase() === lower || f.id.toLowerCase() === lower);
+
+        if (!field) {
+            return { error: `Unknown field [${name}]` };
+        }
+        if (field.isCustom) {
+            return { error: `[${name}] is a custom field; formulas can only reference worksheet fields` };
+        }
+        refs[name] = field.id;
+    }
+
+    return { refs };
+};
+
+const toNumber = (value: FormulaValue): number | null => {
+    if (value === null || value === undefined || value === '') return null;
+    if (typeof value === 'number') return isNaN(value) ? null : value;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    const parsed = parseFloat(String(value).replace(/[^0-9.eE+-]/g, ''));
+    return isNaN(parsed) ? null : parsed;
+};
+
+const toBoolean = (value: FormulaValue): boolean => {
+    if (typeof value === 'boolean') return value;
+    if (typeof value === 'number') return value !== 0;
+    if (typeof value === 'string') return value !== '';
+    return false;
+};
+
+const compare = (op: string, left: FormulaValue, right: FormulaValue): boolean | null => {
+    if (left === null || right === null) return null;
+
+    const l = typeof left === 'string' && typeof right === 'string' ? left : toNumber(left);
+    const r = typeof left === 'string' && typeof right === 'string' ? right : toNumber(right);
+    if (l === null || r === null) return null;
+
+    switch (op) {
+        case '=': return l === r;
+        case '!=': return l !== r;
+        case '<': return l < r;
+        case '<=': return l <= r;
+        case '>': return l > r;
+        case '>=': return l >= r;
+    }
+    return null;
+};
+
+/**
+ * Evaluate a parsed formula. Arithmetic on null yields null.
+ */
+export const evaluateFormula = (node: FormulaNode, context: FormulaContext): FormulaValue => {
+    const evaluate = (n: FormulaNode): FormulaValue => {
+        switch (n.type) {
+            case 'number':
+            case 'string':
+            case 'boolean':
+                return n.value;
+            case 'field':
+                return context.getField(n.name);
+            case 'unary': {
+                const value = evaluate(n.operand);
+                if (n.op === 'NOT') return value === null ? null : !toBoolean(value);
+                const num = toNumber(value);
+                return num === null ? null : -num;
+            }
+            case 'binary': {
+                if (n.op === 'AND') return toBoolean(evaluate(n.left)) && toBoolean(evaluate(n.right));
+                if (n.op === 'OR') return toBoolean(evaluate(n.left)) || toBoolean(evaluate(n.right));
+
+                const left = evaluate(n.left);
+                const right = evaluate(n.right);
+                if (['=', '!=', '<', '<=', '>', '>='].includes(n.op)) return compare(n.op, left, right);
+
+                const l = toNumber(left);
+                const r = toNumber(right);
+                if (l === null || r === null) return null;
+
+                switch (n.op) {
+                    case '+': return l + r;
+                    case '-': return l - r;
+                    case '*': return l * r;
+                    case '/': return r === 0 ? null : l / r;
+                }
+                return null;
+            }
+            case 'call':
+                return callFunction(n.name, n.args);
+        }
+    };
+
+    const callFunction = (name: string, args: FormulaNode[]): FormulaValue => {
+        switch (name) {
+            case 'NULL':
+                return null;
+            case 'IF': {
+                const condition = evaluate(args[0]);
+                if (toBoolean(condition)) return evaluate(args[1]);
+                return args[2] ? evaluate(args[2]) : null;
+            }
+            case 'ZN': {
+                const value = evaluate(args[0]);
+                return value === null ? 0 : value;
+            }
+            case 'IFNULL': {
+                const value = evaluate(args[0]);
+                return value === null ? evaluate(args[1]) : value;
+            }
+            case 'ABS': {
+                const value = toNumber(evaluate(args[0]));
+                return value === null ? null : Math.abs(value);
+            }
+            case 'ROUND': {
+                const value = toNumber(evaluate(args[0]));
+                const decimals = args[1] ? toNumber(evaluate(args[1])) ?? 0 : 0;
+                if (value === null) return null;
+                const factor = Math.pow(10, decimals);
+                return Math.round(value * factor) / factor;
+            }
+            case 'MIN':
+            case 'MAX': {
+                const values = args.map(a => toNumber(evaluate(a))).filter((v): v is number => v !== null);
+                if (values.length === 0) return null;
+                return name === 'MIN' ? Math.min(...values) : Math.max(...values);
+            }
+            case 'ROW_TOTAL':
+                return context.getRowTotal((args[0] as { type: 'field', name: string }).name);
+        }
+        return null;
+    };
+
+    return evaluate(node);
+};
@@ -0,0 +1,59 @@
+/**
+ * Async queue of data pages: the producer pushes pages as Tableau returns them and
+ * the streaming exporters consume them with for await. push() resolves once the
+ * consumer has taken the page, so a producer that waits for it before reading the
+ * next page keeps at most one page waiting in the queue.
+ */
+export interface PageQueue<T> extends AsyncIterable<T> {
+    push: (page: T) => Promise<void>; // Resolves when the page is taken, or dropped by fail()
+    end: () => void;
+    fail: (error: Error) => void;
+}
+
+export const createPageQueue = <T>(): PageQueue<T> => {
+    const pages: Array<{ page: T, taken: () => void }> = [];
+    let done = false;
+    let failure: Error | null = null;
+    let wake: (() => void) | null = null;
+
+    const notify = () => {
+        const resolve = wake;
+        wake = null;
+        resolve?.();
+    };
+
+    return {
+        push: (page) => new Promise<void>(resolve => {
+            if (done) {
+                resolve();
+                return;
+            }
+            pages.push({ page, taken: resolve });
+            notify();
+        }),
+        end: () => {
+            done = true;
+            notify();
+        },
+        fail: (error) => {
+            failure = error;
+            done = true;
+            // Waiting pages will not be read; release their producers
+            pages.splice(0).forEach(({ taken }) => taken());
+            notify();
+        },
+        async *[Symbol.asyncIterator]() {
+            while (true) {
+                if (failure) throw failure;
+                if (pages.length > 0) {
+                    const { page, taken } = pages.shift()!;
+                    taken();
+                    yield page;
+                    continue;
+                }
+                if (done) return;
+                await new Promise<void>(resolve => { wake = resolve; });
+            }
+        }
+    };
+};
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { aggregateValues, getSubtotalLevels, getSubtotalLabel, processPivotData } from './pivotHelper';
+import type { PivotTotalsConfig } from './pivotHelper';
+import type { Column } from '../types';
+
+describe('aggregateValues', () => {
+    const values = [10, '20', null, '', undefined, '$1,000', 10];
+
+    it('ignores empty values and parses formatted numbers', () => {
+        expect(aggregateValues(values)).toBe(1040);
+        expect(aggregateValues(values, 'avg')).toBe(260);
+        expect(aggregateValues(values, 'min')).toBe(10);
+        expect(aggregateValues(values, 'max')).toBe(1000);
+    });
+
+    it('counts present values, or distinct ones', () => {
+        expect(aggregateValues(values, 'count')).toBe(4);
+        expect(aggregateValues(values, 'countDistinct')).toBe(3);
+    });
+
+    it('returns null when there is nothing to aggregate', () => {
+        expect(aggregateValues([null, ''])).toBeNull();
+        expect(aggregateValues(['n/a'], 'sum')).toBeNull();
+    });
+});
+
+describe('getSubtotalLevels', () => {
+    it('defaults to every level but the innermost', () => {
+        expect(getSubtotalLevels({ showSubtotals: true, subtotalLevels: [] }, 3)).toEqual([0, 1]);
+    });
+
+    it('keeps valid selected levels in order', () => {
+        expect(getSubtotalLevels({ showSubtotals: true, subtotalLevels: [1, 2, 0, 1] }, 3)).toEqual([0, 1]);
+    });
+
+    it('returns no levels when subtotals are off or there is one group column', () => {
+        expect(getSubtotalLevels({ showSubtotals: false, subtotalLevels: [0] }, 3)).toEqual([]);
+        expect(getSubtotalLevels({ showSubtotals: true }, 1)).toEqual([]);
+    });
+});
+
+describe('getSubtotalLabel', () => {
+    it('uses custom labels with a {value} placeholder', () => {
+        const config = { useCustomSubtotalLabels: true, subtotalLabels: { 0: 'All of {value}', 1: 'Subtotal' } };
+        expect(getSubtotalLabel('East', 0, config)).toBe('All of East');
+        expect(getSubtotalLabel('East', 1, config)).toBe('Subtotal');
+        expect(getSubtotalLabel('East', 0)).toBe('East Total');
+    });
+});
+
+describe('processPivotData', () => {
+    const groupCols: Column[] = [{ id: 'Region', name: 'Region' }, { id: 'City', name: 'City' }];
+    const data = [
+        { Region: 'East', City: 'Boston', Sales: 10, Qty: 2 },
+        { Region: 'East', City: 'NYC', Sales: 30, Qty: 4 },
+        { Region: 'West', City: 'LA', Sales: 5, Qty: 1 }
+    ];
+    const totals: PivotTotalsConfig = {
+        showRowTotals: false,
+        rowTotalsPosition: 'right',
+        showColumnTotals: true,
+        columnTotalsPosition: 'bottom',
+        showSubtotals: true
+    };
+    const values = (result: ReturnType<typeof processPivotData>) => result.dataMatrix.map(row => row.map(cell => cell?.value));
+
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    it('adds subtotal and grand total rows after their groups', () => {
+        const result = processPivotData(data, groupCols, [], [{ id: 'Sales', name: 'Sales' }], totals);
+
+        expect(result.rowHeaders.map(row => row[0].value)).toEqual(['East', 'East', 'East Total', 'West', 'West Total', 'Grand Total']);
+        expect(result.rowMeta?.map(meta => meta.type)).toEqual(['data', 'data', 'subtotal', 'data', 'subtotal', 'grandTotal']);
+        expect(values(result)).toEqual([[10], [30], [40], [5], [5], [45]]);
+        expect(result.totalsSource).toEqual({ column: 'local' });
+    });
+
+    it('aggregates totals with each column\'s total aggregation', () => {
+        const valueCols: Column[] = [
+            { id: 'Sales', name: 'Sales', totalAggregation: 'avg' },
+            { id: 'Qty', name: 'Qty', totalAggregation: 'max' }
+        ];
+        const result = processPivotData(data, groupCols, [], valueCols, totals);
+
+        expect(values(result)).toEqual([[10, 2], [30, 4], [20, 4], [5, 1], [5, 1], [15, 4]]);
+    });
+
+    it('recomputes custom fields on totals instead of adding them up', () => {
+        const valueCols: Column[] = [
+            { id: 'Sales', name: 'Sales' },
+            { id: 'Qty', name: 'Qty' },
+            { id: 'custom_price', name: 'Price', isCustom: true, formula: '[Sales] / [Qty]', formulaRefs: { Sales: 'Sales', Qty: 'Qty' } }
+        ];
+        const result = processPivotData(data, groupCols, [], valueCols, totals);
+
+        expect(values(result).map(row => row[2])).toEqual([5, 7.5, 40 / 6, 5, 5, 45 / 7]);
+    });
+
+    it('spreads pivot members over columns', () => {
+        const result = processPivotData(data, [groupCols[0]], [groupCols[1]], [{ id: 'Sales', name: 'Sales' }], { ...totals, showSubtotals: false });
+
+        expect(result.headerRows[0].map(header => header.label)).toEqual(['Boston', 'LA', 'NYC']);
+        expect(values(result)).toEqual([[10, null, 30], [null, 5, null], [10, 5, 30]]);
+    });
+});
@@ -1,5 +1,7 @@
-import type { Column, ConditionalFormatRule, CellValueRule, TopBottomRule, ColorScaleRule } from '../types';
+import type { Column, MetricGroup, TotalAggregation, ConditionalFormatRule, CellValueRule, TopBottomRule, ColorScaleRule, IconSetRule } from '../types';
 import React from 'react';
+import { parseFormula, getFormulaFieldRefs, evaluateFormula, type FormulaNode } from './formulaEngine';
+import { createKeyComparator, createPrefixTotals, getSortValueColumnIds } from './sortHelper';
 
 export interface PivotRowHeader {
     value: string;
@@ -15,18 +17,199 @@ export interface PivotColumnHeader {
     children?: PivotColumnHeader[];
 }
 
+export interface PivotCellIcon {
+    glyph: string;
+    color: string;
+}
+
 export interface PivotCell {
     value: string | number | null;
     style?: React.CSSProperties;
+    icon?: PivotCellIcon;
+    baseStyle?: React.CSSProperties; // Style without value-column rules (those become native Excel rules)
+}
+
+export interface PivotRowMeta {
+    type: 'data' | 'subtotal' | 'grandTotal';
+    level?: number; // Group column index a subtotal row closes
 }
 
+export interface PivotColumnMeta {
+    type: 'data' | 'rowTotal';
+    valueIndex: number; // Index into valueColumns
+}
+
+export type TotalsSource = 'companion' | 'local';
+
 export interface PivotDataResult {
     headerRows: { label: string, colSpan: number, style?: React.CSSProperties }[][]; // [rowIndex][colIndex]
     rowHeaders: PivotRowHeader[][];     // [rowIndex][colIndex]
     dataMatrix: (PivotCell | null)[][]; // [rowIndex][colIndex]
+    rowMeta?: PivotRowMeta[];           // [rowIndex]
+    columnMeta?: PivotColumnMeta[];     // [colIndex]
+    valueColumns?: Column[];            // Value columns in output order (after metric grouping)
+    totalsSource?: { row?: TotalsSource, column?: TotalsSource }; // GC_/RC_ companion sheets or calculated from the data
 }
 
+export interface MetricGroupLayout {
+    valueCols: Column[];
+    bands: { label: string, colSpan: number }[]; // One band per group, '' for ungrouped runs
+}
+
+export interface PivotTotalsConfig {
+    showRowTotals: boolean;
+    rowTotalsPosition: 'left' | 'right';
+    showColumnTotals: boolean;
+    columnTotalsPosition: 'top' | 'bottom';
+    showSubtotals: boolean;
+    subtotalLevels?: number[];
+    subtotalLabels?: Record<number, string>;
+    useCustomSubtotalLabels?: boolean;
+    columnTotalsLabel?: string;
+}
+
+/**
+ * Resolve the group levels that get a subtotal row.
+ * An empty selection means every level except the innermost one,
+ * since a subtotal of a single leaf row would just repeat it.
+ */
+export const getSubtotalLevels = (totalsConfig: Pick<PivotTotalsConfig, 'showSubtotals' | 'subtotalLevels'> | undefined, groupCount: number): number[] => {
+    if (!totalsConfig?.showSubtotals || groupCount < 2) return [];
+
+    const selected = totalsConfig.subtotalLevels && totalsConfig.subtotalLevels.length > 0
+        ? totalsConfig.subtotalLevels
+        : Array.from({ length: groupCount - 1 }, (_, i) => i);
+
+    return Array.from(new Set(selected))
+        .filter(level => level >= 0 && level < groupCount - 1)
+        .sort((a, b) => a - b);
+};
+
+/**
+ * Build the label shown on a subtotal row.
+ * Custom labels may use {value} as a placeholder for the group value.
+ */
+export const getSubtotalLabel = (groupValue: string, level: number, totalsConfig?: Pick<PivotTotalsConfig, 'useCustomSubtotalLabels' | 'subtotalLabels'>): string => {
+    const custom = totalsConfig?.useCustomSubtotalLabels ? totalsConfig.subtotalLabels?.[level] : undefined;
+    if (custom && custom.trim()) {
+        return custom.includes('{value}') ? custom.replace(/\{value\}/g, groupValue) : custom;
+    }
+    return `${groupValue} Total`;
+};
+
+
+
+/**
+ * Aggregate the source values of a total. Empty values are ignored;
+ * null is returned when there is nothing to aggregate.
+ */
+export const aggregateValues = (values: unknown[], aggregation: TotalAggregation = 'sum'): number | null => {
+    const present = values.filter(v => v !== null && v !== undefined && v !== '');
+    if (present.length === 0) return null;
+
+    if (aggregation === 'count') return present.length;
+    if (aggregation === 'countDistinct') return new Set(present.map(v => String(v))).size;
+
+    const nums = present
+        .map(v => typeof v === 'number' ? v : parseFloat(String(v).replace(/[^0-9.-]/g, '')))
+        .filter(n => !isNaN(n));
+    if (nums.length === 0) return null;
+
+    switch (aggregation) {
+        case 'avg': return nums.reduce((a, b) => a + b, 0) / nums.length;
+        case 'min': return nums.reduce((a, b) => Math.min(a, b));
+        case 'max': return nums.reduce((a, b) => Math.max(a, b));
+        default: return nums.reduce((a, b) => a + b, 0);
+    }
+};
+
+/**
+ * Order value columns so each metric group's fields sit together and build
+ * the band row shown above them. Collapsed groups are left out of the output.
+ */
+export const getMetricGroupLayout = (valueCols: Column[], metricGroups?: MetricGroup[]): MetricGroupLayout => {
+    const groupOf = new Map<string, MetricGroup>(); // Value column ID -> first group listing it
+    (metricGroups || []).forEach(group => {
+        group.fields.forEach(fieldId => {
+            if (!groupOf.has(fieldId) && valueCols.some(vc => vc.id === fieldId)) {
+                groupOf.set(fieldId, group);
+            }
+        });
+    });
+
+    if (groupOf.size === 0) {
+        return { valueCols, bands: [] };
+    }
+
+    const ordered: Column[] = [];
+    const bands: { label: string, colSpan: number }[] = [];
+    const emittedGroups = new Set<number>();
 
+    valueCols.forEach(vc => {
+        const group = groupOf.get(vc.id);
+
+        if (!group) {
+            ordered.push(vc);
+            const last = bands[bands.length - 1];
+            if (last && last.label === '') {
+                last.colSpan++;
+            } else {
+                bands.push({ label: '', colSpan: 1 });
+            }
+            return;
+        }
+
+        // The group is emitted where its first field appears
+        if (emittedGroups.has(group.id)) return;
+        emittedGroups.add(group.id);
+        if (group.collapsed) return;
+
+        const members = group.fields
+            .filter(fieldId => groupOf.get(fieldId) === group)
+            .map(fieldId => valueCols.find(c => c.id === fieldId)!);
+        ordered.push(...members);
+        bands.push({ label: group.name, colSpan: members.length });
+    });
+
+    // Every group collapsed: nothing left to band
+    if (bands.every(b => b.label === '')) {
+        return { valueCols: ordered, bands: [] };
+    }
+
+    return { valueCols: ordered, bands };
+};
+
+// Icons from best (top threshold) to worst, mirroring Excel's 3-icon sets
+export const ICON_SET_GLYPHS: Record<IconSetRule['iconSet'], PivotCellIcon[]> = {
+    arrows: [{ glyph: '▲', color: '#00B050' }, { glyph: '▶', color: '#FFC000' }, { glyph: '▼', color: '#C00000' }],
+    trafficLights: [{ glyph: '●', color: '#00B050' }, { glyph: '●', color: '#FFC000' }, { glyph: '●', color: '#C00000' }],
+    flags: [{ glyph: '⚑', color: '#00B050' }, { glyph: '⚑', color: '#FFC000' }, { glyph: '⚑', color: '#C00000' }],
+    shapes: [{ glyph: '●', color: '#00B050' }, { glyph: '▲', color: '#FFC000' }, { glyph: '◆', color: '#C00000' }]
+};
+
+export const DEFAULT_ICON_THRESHOLDS: [number, number] = [33, 67];
+
+/**
+ * Pick the icon for a value. Thresholds are lower bounds of the middle and
+ * top icon, either absolute numbers or percent of the column's min..max range.
+ */
+const getIconForValue = (numValue: number, rule: IconSetRule, columnValues: number[]): PivotCellIcon | undefined => {
+    if (isNaN(numValue)) return undefined;
+
+    let [lower, upper] = rule.thresholds || DEFAULT_ICON_THRESHOLDS;
+    if ((rule.thresholdType || 'percent') === 'percent') {
+        if (columnValues.length === 0) return undefined;
+        const min = Math.min(...columnValues);
+        const max = Math.max(...columnValues);
+        lower = min + (max - min) * lower / 100;
+        upper = min + (max - min) * upper / 100;
+    }
+
+    const icons = rule.reverse ? [...ICON_SET_GLYPHS[rule.iconSet]].reverse() : ICON_SET_GLYPHS[rule.iconSet];
+    if (numValue >= upper) return icons[0];
+    if (numValue >= lower) return icons[1];
+    return icons[2];
+};
 
 // Helper to get color from scale
 const getColorFromScale = (value: number, min: number, max: number, minColor: string, maxColor: string, midColor?: string): string => {
@@ -149,22 +332,19 @@ export const processPivotData = (
     data: any[],
     groupCols: Column[],
     pivotCols: Column[],
-    valueCols: Column[],
-    totalsConfig?: {
-        showRowTotals: boolean;
-        rowTotalsPosition: 'left' | 'right';
-        showColumnTotals: boolean;
-        columnTotalsPosition: 'top' | 'bottom';
-        showSubtotals: boolean;
-        columnTotalsLabel?: string;
-    },
-    gcData?: any[],
-    rcData?: any[]
+    configuredValueCols: Column[],
+    totalsConfig?: PivotTotalsConfig,
+    gcData?: Record<string, unknown>[],
+    rcData?: Record<string, unknown>[],
+    metricGroups?: MetricGroup[]
 ): PivotDataResult => {
     if (!data || data.length === 0) {
         return { headerRows: [], rowHeaders: [], dataMatrix: [] };
     }
 
+    // Value columns in output order, with collapsed metric groups removed
+    const { valueCols, bands: metricGroupBands } = getMetricGroupLayout(configuredValueCols, metricGroups);
+
     // Helper to parse value
     const parseVal = (val: any): number => {
         if (typeof val === 'number') return val;
@@ -215,11 +395,28 @@ export const processPivotData = (
         return undefined;
     };
 
-    // 0. Identify dependencies for formulas - REMOVED (Legacy)
-    // const dependencyFields = new Set<string>();
-    // valueCols.forEach(vc => {
-    //     dependencyFields.add(vc.id);
-    // });
+    // 0. Identify dependencies for formulas
+    // Custom fields are evaluated per cell from the aggregated values of the fields they
+    // reference, so those fields are loaded alongside the value columns even when not shown
+    const formulaCols: { column: Column, tree: FormulaNode }[] = [];
+    valueCols.forEach(vc => {
+        if (!vc.isCustom || !vc.formula) return;
+        try {
+            formulaCols.push({ column: vc, tree: parseFormula(vc.formula) });
+        } catch (error) {
+            console.warn(`Custom field "${vc.name}" has an invalid formula:`, error);
+        }
+    });
+
+    const baseCols: Column[] = valueCols.filter(vc => !vc.isCustom);
+    formulaCols.forEach(({ column, tree }) => {
+        getFormulaFieldRefs(tree).forEach(name => {
+            const fieldId = column.formulaRefs?.[name] || name;
+            if (!baseCols.some(c => c.id === fieldId)) {
+                baseCols.push({ id: fieldId, name });
+            }
+        });
+    });
 
     // 1. Get Unique Row Keys (Group Combinations)
     const rowKeys = new Set<string>();
@@ -233,7 +430,7 @@ export const processPivotData = (
         }
     });
 
-    let sortedRowKeys = Array.from(rowKeys).sort();
+    let sortedRowKeys = Array.from(rowKeys);
 
     // 2. Get Unique Column Keys (Pivot Combinations)
     let colKeys: string[] = [''];
@@ -248,11 +445,32 @@ export const processPivotData = (
                 colKeyMap.set(key, row);
             }
         });
-        colKeys = Array.from(cKeys).sort();
+        colKeys = Array.from(cKeys);
+    }
+
+    // Order members per each group/pivot column's sort ('value' sorts use per-prefix totals)
+    const rowSortTotals = createPrefixTotals();
+    const colSortTotals = createPrefixTotals();
+    const rowSortValueIds = getSortValueColumnIds(groupCols);
+    const colSortValueIds = getSortValueColumnIds(pivotCols);
+    if (rowSortValueIds.length > 0 || colSortValueIds.length > 0) {
+        const nameOf = (id: string) => configuredValueCols.find(vc => vc.id === id)?.name;
+        data.forEach(row => {
+            const rParts = groupCols.map(c => row[c.id]).join('|||').split('|||');
+            const cParts = pivotCols.map(c => row[c.id]).join('|||').split('|||');
+            rowSortValueIds.forEach(id => rowSortTotals.add(rParts, id, findFieldValue(row, id, nameOf(id))));
+            colSortValueIds.forEach(id => colSortTotals.add(cParts, id, findFieldValue(row, id, nameOf(id))));
+        });
+    }
+    sortedRowKeys.sort(createKeyComparator(groupCols, rowSortTotals.lookup));
+    if (pivotCols.length > 0) {
+        colKeys.sort(createKeyComparator(pivotCols, colSortTotals.lookup));
     }
 
     // 3. Build Data Matrix & Calculate Totals
     const valueMap = new Map<string, Map<string, Map<string, any>>>();
+    // Every source row's value per cell, so totals can be aggregated locally
+    const sourceValues = new Map<string, Map<string, Map<string, unknown[]>>>(); // rKey -> cKey -> fieldId -> values
     // Track source rows for LOD recalculation - REMOVED
     // const sourceRowsMap = new Map<string, Map<string, any[]>>();
 
@@ -264,7 +482,7 @@ export const processPivotData = (
         const firstRow = data[0];
         const availableFields = Object.keys(firstRow);
 
-        valueCols.forEach(vc => {
+        baseCols.forEach(vc => {
             // Try to find the actual field name in the data using multiple strategies
             let actualFieldName: string | null = null;
             const normalizedId = vc.id.replace(/[\[\]]/g, '').trim();
@@ -321,7 +539,7 @@ export const processPivotData = (
             Array.from(fieldNameMapping.entries()));
 
         // Alert if some fields couldn't be mapped
-        const unmappedFields = valueCols.filter(vc => !fieldNameMapping.has(vc.id));
+        const unmappedFields = baseCols.filter(vc => !fieldNameMapping.has(vc.id));
         if (unmappedFields.length > 0 && data.length > 0) {
             // Log warning instead of alert
             console.warn(`Field Mapping Warning: Could not map ${unmappedFields.length} value column(s) to data fields.`);
@@ -343,11 +561,16 @@ export const processPivotData = (
         if (!rMap.has(cKey)) rMap.set(cKey, new Map());
         const cMap = rMap.get(cKey)!;
 
+        if (!sourceValues.has(rKey)) sourceValues.set(rKey, new Map());
+        const rSources = sourceValues.get(rKey)!;
+        if (!rSources.has(cKey)) rSources.set(cKey, new Map());
+        const cSources = rSources.get(cKey)!;
+
         // Store values
-        valueCols.forEach(vc => {
+        baseCols.forEach(vc => {
             const fieldId = vc.id;
             // Find the value using multiple strategies
-            const valueCol = valueCols.find(vc => vc.id === fieldId);
+            const valueCol = baseCols.find(vc => vc.id === fieldId);
 
             // First try the mapped field name, then fall back to findFieldValue
             let value: any = undefined;
@@ -360,6 +583,8 @@ export const processPivotData = (
 
             // Store using fieldId as key (for retrieval) - this is the primary storage
             cMap.set(fieldId, value);
+            if (!cSources.has(fieldId)) cSources.set(fieldId, []);
+            cSources.get(fieldId)!.push(value);
 
             // Also store using the actual field name if different (for redundancy and easier debugging)
             if (mappedFieldName && mappedFieldName !== fieldId && value !== undefined) {
@@ -371,7 +596,7 @@ export const processPivotData = (
                 if (!diagnosticInfo) {
                     diagnosticInfo = {
                         availableFields: Object.keys(row),
-                        valueColumnIds: valueCols.map(vc => vc.id),
+                        valueColumnIds: baseCols.map(vc => vc.id),
                         valuesSample: {},
                         fieldNameMapping: Array.from(fieldNameMapping.entries())
                     };
@@ -403,7 +628,7 @@ export const processPivotData = (
         console.log('Sample values extracted:', diagnosticInfo.valuesSample);
 
         // Check which value columns have values
-        const valueColumnStatus = valueCols.map(vc => {
+        const valueColumnStatus = baseCols.map(vc => {
             const sampleInfo = diagnosticInfo.valuesSample[vc.id];
             const value = typeof sampleInfo === 'object' && sampleInfo !== null ? sampleInfo.value : sampleInfo;
             const found = value !== undefined && value !== null;
@@ -435,6 +660,21 @@ export const processPivotData = (
     }
 
     const TOTAL_KEY = '___TOTAL___';
+    const totalsSource: { row?: TotalsSource, column?: TotalsSource } = {};
+
+    // Collect source values per field into a bucket, then aggregate the bucket per field
+    const collectSources = (bucket: Map<string, unknown[]>, cSources: Map<string, unknown[]>) => {
+        cSources.forEach((values, fieldId) => {
+            if (!bucket.has(fieldId)) bucket.set(fieldId, []);
+            const target = bucket.get(fieldId)!;
+            values.forEach(v => target.push(v));
+        });
+    };
+    const aggregateBucket = (bucket: Map<string, unknown[]> | undefined): Map<string, number | null> => {
+        const totals = new Map<string, number | null>();
+        baseCols.forEach(vc => totals.set(vc.id, aggregateValues(bucket?.get(vc.id) || [], vc.totalAggregation)));
+        return totals;
+    };
 
     // Calculate Row Totals (Inject from rcData)
     if (totalsConfig?.showRowTotals && rcData && rcData.length > 0) {
@@ -448,7 +688,7 @@ export const processPivotData = (
             if (!rMap.has(TOTAL_KEY)) rMap.set(TOTAL_KEY, new Map());
             const totalCMap = rMap.get(TOTAL_KEY)!;
 
-            valueCols.forEach(vc => {
+            baseCols.forEach(vc => {
                 // Find value in rcData row
                 let val = findFieldValue(row, vc.id, vc.name);
 
@@ -464,6 +704,15 @@ export const processPivotData = (
                 totalCMap.set(vc.id, parsedVal);
             });
         });
+        totalsSource.row = 'companion';
+    } else if (totalsConfig?.showRowTotals) {
+        // No RC_ sheet: aggregate each row's source values across every pivot column
+        sourceValues.forEach((rSources, rKey) => {
+            const bucket = new Map<string, unknown[]>();
+            rSources.forEach(cSources => collectSources(bucket, cSources));
+            valueMap.get(rKey)!.set(TOTAL_KEY, aggregateBucket(bucket));
+        });
+        totalsSource.row = 'local';
     }
 
     // Calculate Column Totals (Inject from gcData)
@@ -478,7 +727,7 @@ export const processPivotData = (
             if (!grandTotalRowMap.has(cKey)) grandTotalRowMap.set(cKey, new Map());
             const totalCMap = grandTotalRowMap.get(cKey)!;
 
-            valueCols.forEach(vc => {
+            baseCols.forEach(vc => {
                 // Find value in gcData row
                 let val = findFieldValue(row, vc.id, vc.name);
 
@@ -511,7 +760,8 @@ export const processPivotData = (
 
             // Sum up all GC values to get the global total
             gcData.forEach(row => {
-                valueCols.forEach(vc => {
+                baseCols.forEach(vc => {
+                    if ((vc.totalAggregation || 'sum') !== 'sum') return;
                     let val = findFieldValue(row, vc.id, vc.name);
                     if (val === undefined) {
                         const mappedFieldName = fieldNameMapping.get(vc.id);
@@ -526,10 +776,136 @@ export const processPivotData = (
             if (!grandTotalRowMap.has(TOTAL_KEY)) grandTotalRowMap.set(TOTAL_KEY, new Map());
             const globalTotalCMap = grandTotalRowMap.get(TOTAL_KEY)!;
 
-            valueCols.forEach(vc => {
-                globalTotalCMap.set(vc.id, globalTotalMap.get(vc.id) || 0);
+            baseCols.forEach(vc => {
+                // Non-additive aggregations cannot be rebuilt from the GC values
+                if ((vc.totalAggregation || 'sum') === 'sum') {
+                    globalTotalCMap.set(vc.id, globalTotalMap.get(vc.id) || 0);
+                } else {
+                    const values: unknown[] = [];
+                    sourceValues.forEach(rSources => rSources.forEach(cSources => {
+                        cSources.get(vc.id)?.forEach(v => values.push(v));
+                    }));
+                    globalTotalCMap.set(vc.id, aggregateValues(values, vc.totalAggregation));
+                }
             });
         }
+        totalsSource.column = 'companion';
+    } else if (totalsConfig?.showColumnTotals) {
+        // No GC_ sheet: aggregate each pivot column's source values across every row
+        const columnBuckets = new Map<string, Map<string, unknown[]>>();
+        const globalBucket = new Map<string, unknown[]>();
+        sourceValues.forEach(rSources => {
+            rSources.forEach((cSources, cKey) => {
+                if (!columnBuckets.has(cKey)) columnBuckets.set(cKey, new Map());
+                collectSources(columnBuckets.get(cKey)!, cSources);
+                collectSources(globalBucket, cSources);
+            });
+        });
+
+        const grandTotalRowMap = new Map<string, Map<string, number | null>>();
+        colKeys.forEach(cKey => grandTotalRowMap.set(cKey, aggregateBucket(columnBuckets.get(cKey))));
+        if (totalsConfig.showRowTotals) {
+            grandTotalRowMap.set(TOTAL_KEY, aggregateBucket(globalBucket));
+        }
+
+        valueMap.set(TOTAL_KEY, grandTotalRowMap);
+        totalsSource.column = 'local';
+    }
+
+    // Calculate Subtotals (aggregate the source rows of each group, per pivot column incl. row totals)
+    const SUBTOTAL_KEY = '___SUBTOTAL___';
+    const subtotalLevels = getSubtotalLevels(totalsConfig, groupCols.length);
+    const subtotalSources = new Map<string, { level: number, rowData: Record<string, unknown> }>(); // Subtotal key -> level + first child row
+    let rowMeta: PivotRowMeta[] = sortedRowKeys.map(() => ({ type: 'data' }));
+
+    if (subtotalLevels.length > 0) {
+        const orderedKeys: string[] = [];
+        const orderedMeta: PivotRowMeta[] = [];
+        // level -> cKey -> fieldId -> source values of the group's rows
+        const accumulators = new Map<number, Map<string, Map<string, unknown[]>>>();
+        const firstChildKey = new Map<number, string>();
+
+        sortedRowKeys.forEach((rKey, idx) => {
+            orderedKeys.push(rKey);
+            orderedMeta.push({ type: 'data' });
+
+            const rSources = sourceValues.get(rKey);
+            subtotalLevels.forEach(level => {
+                if (!firstChildKey.has(level)) firstChildKey.set(level, rKey);
+                if (!accumulators.has(level)) accumulators.set(level, new Map());
+                const levelAcc = accumulators.get(level)!;
+
+                rSources?.forEach((cSources, cKey) => {
+                    if (!levelAcc.has(cKey)) levelAcc.set(cKey, new Map());
+                    collectSources(levelAcc.get(cKey)!, cSources);
+                    if (totalsConfig?.showRowTotals) {
+                        if (!levelAcc.has(TOTAL_KEY)) levelAcc.set(TOTAL_KEY, new Map());
+                        collectSources(levelAcc.get(TOTAL_KEY)!, cSources);
+                    }
+                });
+            });
+
+            // Close groups (innermost first) whose prefix changes at the next row
+            const parts = rKey.split('|||');
+            const nextParts = idx < sortedRowKeys.length - 1 ? sortedRowKeys[idx + 1].split('|||') : null;
+
+            [...subtotalLevels].reverse().forEach(level => {
+                const groupEnds = !nextParts || parts.slice(0, level + 1).join('|||') !== nextParts.slice(0, level + 1).join('|||');
+                if (!groupEnds) return;
+
+                const subtotalKey = `${SUBTOTAL_KEY}${level}|||${parts.slice(0, level + 1).join('|||')}`;
+                const subtotalRowMap = new Map<string, Map<string, number | null>>();
+                accumulators.get(level)?.forEach((bucket, cKey) => {
+                    subtotalRowMap.set(cKey, aggregateBucket(bucket));
+                });
+                valueMap.set(subtotalKey, subtotalRowMap);
+                subtotalSources.set(subtotalKey, { level, rowData: rowKeyMap.get(firstChildKey.get(level)!) });
+
+                orderedKeys.push(subtotalKey);
+                orderedMeta.push({ type: 'subtotal', level });
+
+                accumulators.delete(level);
+                firstChildKey.delete(level);
+            });
+        });
+
+        sortedRowKeys = orderedKeys;
+        rowMeta = orderedMeta;
+    }
+
+    // Evaluate custom fields for every cell, including totals and subtotals
+    if (formulaCols.length > 0) {
+        valueMap.forEach(rMap => {
+            const rowTotals = new Map<string, number | null>();
+            const getRowTotal = (fieldId: string): number | null => {
+                if (!rowTotals.has(fieldId)) {
+                    const injected = rMap.get(TOTAL_KEY)?.get(fieldId);
+                    if (injected !== undefined && injected !== null && injected !== '') {
+                        rowTotals.set(fieldId, parseVal(injected));
+                    } else {
+                        let total: number | null = null;
+                        rMap.forEach((cMap, cKey) => {
+                            if (cKey === TOTAL_KEY) return;
+                            const val = cMap.get(fieldId);
+                            if (val !== null && val !== undefined && val !== '') total = (total || 0) + parseVal(val);
+                        });
+                        rowTotals.set(fieldId, total);
+                    }
+                }
+                return rowTotals.get(fieldId)!;
+            };
+
+            rMap.forEach(cMap => {
+                formulaCols.forEach(({ column, tree }) => {
+                    const resolve = (name: string) => column.formulaRefs?.[name] || name;
+                    const result = evaluateFormula(tree, {
+                        getField: name => cMap.get(resolve(name)) ?? null,
+                        getRowTotal: name => getRowTotal(resolve(name))
+                    });
+                    cMap.set(column.id, typeof result === 'boolean' ? (result ? 'True' : 'False') : result);
+                });
+            });
+        });
     }
 
     // 4. Inject Total Keys into Lists
@@ -544,13 +920,36 @@ export const processPivotData = (
     if (totalsConfig?.showColumnTotals) {
         if (totalsConfig.columnTotalsPosition === 'top') {
             sortedRowKeys.unshift(TOTAL_KEY);
+            rowMeta.unshift({ type: 'grandTotal' });
         } else {
             sortedRowKeys.push(TOTAL_KEY);
+            rowMeta.push({ type: 'grandTotal' });
         }
     }
 
     // 5. Generate Row Headers
     const tempRowHeaders: PivotRowHeader[][] = sortedRowKeys.map(rKey => {
+        const subtotalSource = subtotalSources.get(rKey);
+        if (subtotalSource) {
+            // Subtotal Row: parent columns keep their values so they merge with the group,
+            // the label spans the closed level and every level below it
+            const { level, rowData } = subtotalSource;
+            return groupCols.map((col, idx) => {
+                if (idx < level) {
+                    return { value: String(rowData[col.id] || '(Blank)'), rowSpan: 1, colSpan: 1, isVisible: true };
+                }
+                if (idx === level) {
+                    return {
+                        value: getSubtotalLabel(String(rowData[col.id] || '(Blank)'), level, totalsConfig),
+                        rowSpan: 1,
+                        colSpan: groupCols.length - level,
+                        isVisible: true
+                    };
+                }
+                return { value: '', rowSpan: 1, colSpan: 1, isVisible: false };
+            });
+        }
+
         if (rKey === TOTAL_KEY) {
             // Grand Total Row
             return groupCols.map((_, idx) => ({
@@ -571,28 +970,33 @@ export const processPivotData = (
         }));
     });
 
-    // Calculate spans (skip Grand Total row)
+    // Calculate spans (skip Grand Total row, and subtotal rows at or above their own level)
+    const canMergeRow = (rowIdx: number, colIdx: number): boolean => {
+        const meta = rowMeta[rowIdx];
+        if (meta.type === 'grandTotal') return false;
+        if (meta.type === 'subtotal') return meta.level! > colIdx;
+        return true;
+    };
+
     for (let j = 0; j < groupCols.length; j++) {
-        // Adjust start/end based on Grand Total position
-        let startIndex = (totalsConfig?.showColumnTotals && totalsConfig.columnTotalsPosition === 'top') ? 1 : 0;
-        let startRow = startIndex;
-        let endIndex = (totalsConfig?.showColumnTotals && totalsConfig.columnTotalsPosition === 'bottom') ? tempRowHeaders.length - 1 : tempRowHeaders.length;
+        let startRow = -1;
 
-        for (let i = startIndex + 1; i < endIndex; i++) {
-            const curr = tempRowHeaders[i][j];
-            const prev = tempRowHeaders[i - 1][j];
+        for (let i = 0; i < tempRowHeaders.length; i++) {
+            if (!canMergeRow(i, j)) {
+                startRow = -1;
+                continue;
+            }
 
-            let parentsMatch = true;
-            for (let p = 0; p < j; p++) {
-                if (tempRowHeaders[i][p].value !== tempRowHeaders[i - 1][p].value) {
-                    parentsMatch = false;
-                    break;
+            let matchesRun = startRow !== -1;
+            for (let p = 0; matchesRun && p <= j; p++) {
+                if (tempRowHeaders[i][p].value !== tempRowHeaders[startRow][p].value) {
+                    matchesRun = false;
                 }
             }
 
-            if (curr.value === prev.value && parentsMatch) {
+            if (matchesRun) {
                 tempRowHeaders[startRow][j].rowSpan++;
-                curr.isVisible = false;
+                tempRowHeaders[i][j].isVisible = false;
             } else {
                 startRow = i;
             }
@@ -605,7 +1009,9 @@ export const processPivotData = (
         if (groupCol.conditionalFormats && groupCol.conditionalFormats.length > 0) {
             for (let rowIdx = 0; rowIdx < tempRowHeaders.length; rowIdx++) {
                 const header = tempRowHeaders[rowIdx][colIdx];
-                if (header.isVisible && header.value !== 'Grand Total') {
+                const meta = rowMeta[rowIdx];
+                const isTotalLabel = meta.type === 'grandTotal' || (meta.type === 'subtotal' && colIdx >= meta.level!);
+                if (header.isVisible && header.value !== 'Grand Total' && !isTotalLabel) {
                     const style = applyConditionalFormatting(header.value, groupCol.conditionalFormats, []);
                     if (Object.keys(style).length > 0) {
                         // Apply to this header cell
@@ -628,6 +1034,15 @@ export const processPivotData = (
         }
     }
 
+    // Emphasise subtotal labels (after conditional formatting so it is not overwritten)
+    tempRowHeaders.forEach((headers, rowIdx) => {
+        const meta = rowMeta[rowIdx];
+        if (meta.type === 'subtotal') {
+            const labelCell = headers[meta.level!];
+            labelCell.style = { ...labelCell.style, fontWeight: 'bold' };
+        }
+    });
+
 
     // 6. Generate Data Matrix
     const rawDataMatrix: (string | number | null)[][] = [];
@@ -708,13 +1123,16 @@ export const processPivotData = (
             for (let colIdx = 0; colIdx < numCols; colIdx++) {
                 const val = rawDataMatrix[rowIdx][colIdx];
                 let combinedStyle: React.CSSProperties = {};
+                let baseStyle: React.CSSProperties | undefined;
 
                 // 1. Check row dimension formatting (groupCols)
                 for (let groupColIdx = 0; groupColIdx < groupCols.length; groupColIdx++) {
                     const groupCol = groupCols[groupColIdx];
                     if (groupCol.conditionalFormats && groupCol.conditionalFormats.length > 0) {
                         const rowHeader = tempRowHeaders[rowIdx][groupColIdx];
-                        if (rowHeader && rowHeader.value !== 'Grand Total') {
+                        const meta = rowMeta[rowIdx];
+                        const isSubtotalLabel = meta.type === 'subtotal' && groupColIdx >= meta.level!;
+                        if (rowHeader && rowHeader.value !== 'Grand Total' && !isSubtotalLabel) {
                             const rowStyle = applyConditionalFormatting(rowHeader.value, groupCol.conditionalFormats, []);
                             combinedStyle = { ...combinedStyle, ...rowStyle };
                         }
@@ -743,9 +1161,11 @@ export const processPivotData = (
                 const valueCol = valueCols[valueColIdx];
 
                 if (valueCol.conditionalFormats && valueCol.conditionalFormats.length > 0) {
-                    // Collect all numeric values in this column for stats
+                    // Collect the numeric values of the detail rows for stats, the same range the native
+                    // Excel rules cover (subtotals and the grand total would skew them)
                     const colValues: number[] = [];
                     for (let r = 0; r < rawDataMatrix.length; r++) {
+                        if (rowMeta[r].type !== 'data') continue;
                         const v = rawDataMatrix[r][colIdx];
                         if (typeof v === 'number') {
                             colValues.push(v);
@@ -755,20 +1175,42 @@ export const processPivotData = (
                     }
 
                     const valueStyle = applyConditionalFormatting(val, valueCol.conditionalFormats, colValues);
+                    baseStyle = { ...combinedStyle };
                     combinedStyle = { ...combinedStyle, ...valueStyle };
+
+                    // Icon sets (detail rows only, like the native Excel range): the last rule supplies the icon
+                    if (val !== null && rowMeta[rowIdx].type === 'data') {
+                        const numValue = typeof val === 'number' ? val : parseFloat(String(val));
+                        valueCol.conditionalFormats
+                            .filter((rule): rule is IconSetRule => rule.type === 'iconSet')
+                            .forEach(rule => {
+                                const icon = getIconForValue(numValue, rule, colValues);
+                                if (icon) dataMatrix[rowIdx][colIdx]!.icon = icon;
+                            });
+                    }
+                }
+
+                if (rowMeta[rowIdx].type === 'subtotal') {
+                    combinedStyle = { ...combinedStyle, fontWeight: 'bold' };
+                    if (baseStyle) baseStyle = { ...baseStyle, fontWeight: 'bold' };
                 }
 
                 // Apply combined style if any formatting was applied
                 if (Object.keys(combinedStyle).length > 0) {
                     dataMatrix[rowIdx][colIdx]!.style = combinedStyle;
                 }
+                if (baseStyle) {
+                    dataMatrix[rowIdx][colIdx]!.baseStyle = baseStyle;
+                }
             }
         }
     }
 
     // 7. Generate Column Headers
     const headerRows: { label: string, colSpan: number, style?: React.CSSProperties }[][] = [];
-    const totalHeaderRows = pivotCols.length + (valueCols.length > 0 ? 1 : 0);
+    const bandRowIdx = metricGroupBands.length > 0 ? pivotCols.length : -1;
+    const valueLabelRowIdx = pivotCols.length + (bandRowIdx !== -1 ? 1 : 0);
+    const totalHeaderRows = valueLabelRowIdx + (valueCols.length > 0 ? 1 : 0);
     for (let i = 0; i < totalHeaderRows; i++) headerRows.push([]);
 
     const expandedKeys = colKeys.flatMap(k => valueCols.map(v => ({ pivotKey: k, valueCol: v })));
@@ -854,18 +1296,34 @@ export const processPivotData = (
     }
 
 
+    // Metric group band: repeated under every pivot key
+    if (bandRowIdx !== -1) {
+        headerRows[bandRowIdx] = colKeys.flatMap(() => metricGroupBands.map(band => ({
+            label: band.label,
+            colSpan: band.colSpan,
+            style: band.label ? { fontWeight: 'bold' } : undefined
+        })));
+    }
+
     // Last level: Value Columns
     if (valueCols.length > 0) {
         const row: { label: string, colSpan: number, style?: React.CSSProperties }[] = [];
         expandedKeys.forEach(item => {
             row.push({ label: item.valueCol.name, colSpan: 1 });
         });
-        headerRows[pivotCols.length] = row;
+        headerRows[valueLabelRowIdx] = row;
     }
 
     return {
         headerRows,
         rowHeaders: tempRowHeaders,
-        dataMatrix
+        dataMatrix,
+        rowMeta,
+        columnMeta: colKeys.flatMap(cKey => valueCols.map((_, valueIndex): PivotColumnMeta => ({
+            type: cKey === TOTAL_KEY ? 'rowTotal' : 'data',
+            valueIndex
+        }))),
+        valueColumns: valueCols,
+        totalsSource
     };
 };
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { compareMembers, createKeyComparator, createPrefixTotals, getSortValueColumnIds } from './sortHelper';
+import type { Column, SortSettings } from '../types';
+
+const sortMembers = (members: string[], sort?: SortSettings) =>
+    [...members].sort((a, b) => compareMembers(a, b, sort));
+
+describe('compareMembers', () => {
+    it('sorts naturally by default, with blanks last', () => {
+        expect(sortMembers(['Item 10', '', 'Item 2', '(Blank)', 'item 1'])).toEqual(['item 1', 'Item 2', 'Item 10', '', '(Blank)']);
+    });
+
+    it('keeps blanks last when descending', () => {
+        expect(sortMembers(['b', 'null', 'a', 'c'], { direction: 'desc', method: 'natural' })).toEqual(['c', 'b', 'a', 'null']);
+    });
+
+    it('sorts numbers and formatted numbers numerically', () => {
+        expect(sortMembers(['$1,200', '$95', 'n/a', '$300'], { direction: 'asc', method: 'numeric' })).toEqual(['$95', '$300', '$1,200', 'n/a']);
+    });
+
+    it('sorts month names, quarters and dates chronologically', () => {
+        expect(sortMembers(['March', 'Jan', 'December', 'feb'], { direction: 'asc', method: 'date' })).toEqual(['Jan', 'feb', 'March', 'December']);
+        expect(sortMembers(['Q3', 'Q1', 'Q2'], { direction: 'desc', method: 'date' })).toEqual(['Q3', 'Q2', 'Q1']);
+        expect(sortMembers(['2024-03-01', '2023-12-31', '2024-01-15'], { direction: 'asc', method: 'date' })).toEqual(['2023-12-31', '2024-01-15', '2024-03-01']);
+    });
+
+    it('puts manually ordered members first and the rest after them in natural order', () => {
+        const sort: SortSettings = { direction: 'asc', method: 'manual', manualOrder: ['West', 'East'] };
+        expect(sortMembers(['Central', 'East', 'South', 'West'], sort)).toEqual(['West', 'East', 'Central', 'South']);
+    });
+
+    it('reverses only the listed members when a manual order is descending', () => {
+        const sort: SortSettings = { direction: 'desc', method: 'manual', manualOrder: ['West', 'East'] };
+        expect(sortMembers(['Central', 'East', 'West'], sort)).toEqual(['East', 'West', 'Central']);
+    });
+
+    it('orders by value, falling back to natural order on ties', () => {
+        const totals: Record<string, number> = { a: 5, b: 20, c: 5 };
+        const sorted = ['a', 'b', 'c'].sort((x, y) => compareMembers(x, y, { direction: 'desc', method: 'value' }, m => totals[m]));
+        expect(sorted).toEqual(['b', 'c', 'a']);
+    });
+});
+
+describe('createKeyComparator', () => {
+    it('compares keys level by level so children stay under their parent', () => {
+        const columns: Column[] = [
+            { id: 'Region', name: 'Region', sort: { direction: 'desc', method: 'natural' } },
+            { id: 'Month', name: 'Month', sort: { direction: 'asc', method: 'date' } }
+        ];
+        const keys = ['East|||Feb', 'West|||Mar', 'East|||Jan', 'West|||Jan'];
+        expect(keys.sort(createKeyComparator(columns))).toEqual(['West|||Jan', 'West|||Mar', 'East|||Jan', 'East|||Feb']);
+    });
+
+    it('sorts by the totals of the member within its parent for value sorts', () => {
+        const columns: Column[] = [
+            { id: 'Region', name: 'Region' },
+            { id: 'City', name: 'City', sort: { direction: 'desc', method: 'value', valueColumnId: 'Sales' } }
+        ];
+        const totals = createPrefixTotals();
+        const rows: Array<[string, string, number]> = [
+            ['East', 'Boston', 10], ['East', 'NYC', 30], ['East', 'Boston', 5], ['West', 'LA', 1], ['West', 'SF', 2]
+        ];
+        rows.forEach(([region, city, sales]) => totals.add([region, city], 'Sales', sales));
+
+        const keys = rows.map(([region, city]) => `${region}|||${city}`).filter((k, i, all) => all.indexOf(k) === i);
+        expect(keys.sort(createKeyComparator(columns, totals.lookup))).toEqual(['East|||NYC', 'East|||Boston', 'West|||SF', 'West|||LA']);
+    });
+});
+
+describe('createPrefixTotals', () => {
+    it('adds values to every key prefix and skips non-numbers', () => {
+        const totals = createPrefixTotals();
+        totals.add(['East', 'Boston'], 'Sales', 10);
+        totals.add(['East', 'NYC'], 'Sales', '1,000');
+        totals.add(['East', 'NYC'], 'Sales', null);
+
+        expect(totals.lookup(0, 'East', 'Sales')).toBe(1010);
+        expect(totals.lookup(1, 'East|||NYC', 'Sales')).toBe(1000);
+        expect(totals.lookup(0, 'West', 'Sales')).toBeNull();
+    });
+});
+
+describe('getSortValueColumnIds', () => {
+    it('lists each value column used by a value sort once', () => {
+        const columns: Column[] = [
+            { id: 'a', name: 'A', sort: { direction: 'asc', method: 'value', valueColumnId: 'Sales' } },
+            { id: 'b', name: 'B', sort: { direction: 'desc', method: 'value', valueColumnId: 'Sales' } },
+            { id: 'c', name: 'C', sort: { direction: 'asc', method: 'natural', valueColumnId: 'Profit' } }
+        ];
+        expect(getSortValueColumnIds(columns)).toEqual(['Sales']);
+    });
+});
@@ -0,0 +1,162 @@
+import type { Column, SortSettings } from '../types';
+
+/**
+ * Sorting of row and column members for the pivot.
+ * Keys are the '|||'-joined values of the group (or pivot) columns and are
+ * compared level by level, so members of the same parent always stay together.
+ */
+
+export const DEFAULT_SORT: SortSettings = { direction: 'asc', method: 'natural' };
+
+const KEY_SEPARATOR = '|||';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+const naturalCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+// Blank members always sort last, whatever the direction
+const isBlank = (value: string): boolean =>
+    value === '' || value === 'null' || value === 'undefined' || value === '(Blank)';
+
+const toNumber = (value: string): number => {
+    const num = parseFloat(value.replace(/[^0-9.eE+-]/g, ''));
+    return isNaN(num) ? NaN : num;
+};
+
+/**
+ * Turn a date-like member into a sortable number: month and weekday names
+ * (full or abbreviated), quarters such as "Q3", then anything Date can parse.
+ */
+const toDateOrdinal = (value: string): number => {
+    const lower = value.trim().toLowerCase();
+    const prefix = lower.slice(0, 3);
+
+    if (/^[a-z]+$/.test(lower)) {
+        if (MONTHS.includes(prefix)) return MONTHS.indexOf(prefix);
+        if (WEEKDAYS.includes(prefix)) return WEEKDAYS.indexOf(prefix);
+    }
+
+    const quarter = /^q([1-4])$/.exec(lower);
+    if (quarter) return parseInt(quarter[1], 10);
+
+    const time = Date.parse(value);
+    return isNaN(time) ? NaN : time;
+};
+
+// Compare two numbers where NaN (not a number/date) sorts after real values
+const compareNumbers = (a: number, b: number): number => {
+    if (isNaN(a) && isNaN(b)) return 0;
+    if (isNaN(a)) return 1;
+    if (isNaN(b)) return -1;
+    return a - b;
+};
+
+/**
+ * Looks up the total of a value column for a key prefix (used by 'value' sorts).
+ * level is the column index the prefix ends at.
+ */
+export type SortValueLookup = (level: number, prefix: string, valueColumnId: string) => number | null;
+
+/**
+ * Compare two members of one column. The result already accounts for direction;
+ * blanks are always last.
+ */
+export const compareMembers = (
+    a: string,
+    b: string,
+    sort: SortSettings | undefined,
+    valueOf?: (member: string) => number | null
+): number => {
+    if (a === b) return 0;
+    const blankA = isBlank(a);
+    const blankB = isBlank(b);
+    if (blankA || blankB) return blankA && blankB ? 0 : blankA ? 1 : -1;
+
+    const settings = sort || DEFAULT_SORT;
+    let result = 0;
+
+    switch (settings.method) {
+        case 'numeric':
+            result = compareNumbers(toNumber(a), toNumber(b));
+            break;
+        case 'date':
+            result = compareNumbers(toDateOrdinal(a), toDateOrdinal(b));
+            break;
+        case 'value':
+            if (valueOf) {
+                result = compareNumbers(valueOf(a) ?? NaN, valueOf(b) ?? NaN);
+            }
+            break;
+        case 'manual': {
+            // Members missing from the manual list follow the listed ones
+            const order = settings.manualOrder || [];
+            const idxA = order.indexOf(a);
+            const idxB = order.indexOf(b);
+            if (idxA !== -1 || idxB !== -1) {
+                result = idxA === -1 ? 1 : idxB === -1 ? -1 : idxA - idxB;
+                return settings.direction === 'desc' && idxA !== -1 && idxB !== -1 ? -result : result;
+            }
+            break;
+        }
+    }
+
+    // Ties (and unparseable values) fall back to natural order, then to the raw string
+    // so distinct members never compare equal and groups stay contiguous
+    if (result === 0) result = naturalCollator.compare(a, b) || (a < b ? -1 : 1);
+    return settings.direction === 'desc' ? -result : result;
+};
+
+/**
+ * Comparator for '|||'-joined keys of the given columns.
+ */
+export const createKeyComparator = (columns: Column[], valueLookup?: SortValueLookup) => {
+    return (keyA: string, keyB: string): number => {
+        const partsA = keyA.split(KEY_SEPARATOR);
+        const partsB = keyB.split(KEY_SEPARATOR);
+
+        for (let level = 0; level < columns.length; level++) {
+            const sort = columns[level].sort;
+            const valueOf = sort?.method === 'value' && sort.valueColumnId && valueLookup
+                ? (member: string) => {
+                    const parts = member === partsA[level] ? partsA : partsB;
+                    return valueLookup(level, [...parts.slice(0, level), member].join(KEY_SEPARATOR), sort.valueColumnId!);
+                }
+                : undefined;
+
+            const result = compareMembers(partsA[level] ?? '', partsB[level] ?? '', sort, valueOf);
+            if (result !== 0) return result;
+        }
+        return 0;
+    };
+};
+
+/**
+ * Running totals of value columns per key prefix, feeding 'value' sorts.
+ */
+export const createPrefixTotals = () => {
+    const totals = new Map<string, number>(); // valueColumnId + \0 + prefix -> total
+
+    return {
+        add: (parts: string[], valueColumnId: string, value: unknown) => {
+            const num = typeof value === 'number' ? value : toNumber(String(value ?? ''));
+            if (isNaN(num)) return;
+            for (let level = 0; level < parts.length; level++) {
+                const id = `${valueColumnId}\u0000${parts.slice(0, level + 1).join(KEY_SEPARATOR)}`;
+                totals.set(id, (totals.get(id) || 0) + num);
+            }
+        },
+        lookup: ((_level, prefix, valueColumnId) => {
+            const total = totals.get(`${valueColumnId}\u0000${prefix}`);
+            return total === undefined ? null : total;
+        }) as SortValueLookup
+    };
+};
+
+/**
+ * IDs of the value columns that 'value' sorts on these columns depend on.
+ */
+export const getSortValueColumnIds = (columns: Column[]): string[] =>
+    Array.from(new Set(columns
+        .filter(c => c.sort?.method === 'value' && c.sort.valueColumnId)
+        .map(c => c.sort!.valueColumnId!)));
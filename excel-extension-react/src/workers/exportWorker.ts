@@ -0,0 +1,46 @@
+/**
+ * Export worker: runs pivot processing and file generation off the extension's
+ * main thread so large exports do not freeze the Tableau frame.
+ */
+import { buildExportFiles } from '../utils/exportManager';
+import { attachPageQueues } from '../utils/exportWorkerClient';
+import type { ExportWorkerCommand, ExportWorkerMessage } from '../utils/exportWorkerClient';
+import type { PageQueue } from '../utils/pageQueue';
+import type { SerializedDataTable } from '../utils/dataFetcher';
+
+const ctx = self as unknown as Worker;
+
+const post = (message: ExportWorkerMessage) => ctx.postMessage(message);
+
+let queues = new Map<number, PageQueue<SerializedDataTable>>();
+
+const start = async (command: Extract<ExportWorkerCommand, { type: 'start' }>) => {
+    const { sheets, workbookName } = command.request;
+    queues = attachPageQueues(sheets);
+
+    try {
+        const files = await buildExportFiles(sheets, workbookName, progress => post({ type: 'progress', progress }));
+        post({ type: 'done', files });
+    } catch (error) {
+        post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+};
+
+ctx.onmessage = (event: MessageEvent<ExportWorkerCommand>) => {
+    const command = event.data;
+    switch (command.type) {
+        case 'start':
+            start(command);
+            break;
+        case 'page': {
+            // The main thread reads the next page once this one is taken
+            const { sheetIndex, page } = command;
+            (queues.get(sheetIndex)?.push(page) ?? Promise.resolve()).then(() => post({ type: 'pageTaken', sheetIndex }));
+            break;
+        }
+        case 'pagesEnd':
+            if (command.error) queues.get(command.sheetIndex)?.fail(new Error(command.error));
+            else queues.get(command.sheetIndex)?.end();
+            break;
+    }
+};
@@ -7,6 +7,10 @@ import { resolve } from 'path'
 export default defineConfig({
   plugins: [react()],
   base: './',
+  worker: {
+    // The export worker imports ExcelJS/JSZip, which need code-splitting
+    format: 'es',
+  },
   build: {
     rollupOptions: {
       input: {